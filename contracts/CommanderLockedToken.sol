@@ -0,0 +1,210 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./CommanderToken.sol";
+import "./LockedToken.sol";
+
+/**
+ * @title Commander Locked Token Reference Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A token that is both a Commander Token and a Locked Token, e.g. a subdomain that is locked to
+ * @dev its domain, and also soulbound to an ID.
+ * @dev The restrictions of Commander Token apply to every transfer and burn of the token, including
+ * @dev the transfers and burns cascaded from the token it is locked to.
+ */
+contract CommanderLockedToken is CommanderToken, LockedTokenBase {
+    // verifies that the sender owns a token
+    modifier approvedOrOwner(uint256 tokenID)
+        override(CommanderToken, LockedTokenBase) {
+        require(
+            _isApprovedOrOwner(msg.sender, tokenID),
+            "ERC721: caller is not token owner or approved"
+        );
+        _;
+    }
+
+    /**
+     * @dev Initializes the contract by setting a `name` and a `symbol` to the token collection.
+     */
+    constructor(
+        string memory name,
+        string memory symbol
+    ) CommanderToken(name, symbol) {}
+
+    /**
+     * @dev Burns the tokenID and all the tokens locked to it.
+     * @dev isTokenBurnable must return 'true'.
+     **/
+    function burn(
+        uint256 tokenID
+    )
+        public
+        virtual
+        override(CommanderToken, LockedTokenBase)
+        isApproveOwnerOrLockingContract(tokenID)
+    {
+        // the tokens locked to tokenID are burned first, and if tokenID itself isn't burnable,
+        // {_burnCommanderToken} reverts their burns too
+        _burnLockedTokens(tokenID);
+        _burnCommanderToken(tokenID);
+    }
+
+    /**
+     * @dev See {CommanderToken-recover}. A locked token must have the owner of the token it is locked to,
+     * @dev so it can't be recovered on its own, and the token it is locked to is recovered instead.
+     **/
+    function recover(uint256 tokenID, address to) public virtual override {
+        (address LockingContract, ) = isLocked(tokenID);
+        require(
+            LockingContract == address(0),
+            "Locked Token: a locked token can't be recovered without the token it is locked to"
+        );
+
+        super.recover(tokenID, to);
+    }
+
+    /***********************************************
+     * Overrided functions from ERC165 and ERC721  *
+     ***********************************************/
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    )
+        public
+        view
+        virtual
+        override(CommanderToken, LockedTokenBase)
+        returns (bool)
+    {
+        return super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev See {CommanderToken-ownerOf}.
+     */
+    function ownerOf(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override(IERC721, ERC721, CommanderToken)
+        returns (address)
+    {
+        return super.ownerOf(tokenID);
+    }
+
+    /**
+     * @dev See {CommanderToken-approve}.
+     */
+    function approve(
+        address to,
+        uint256 tokenID
+    ) public virtual override(IERC721, ERC721, CommanderToken) {
+        super.approve(to, tokenID);
+    }
+
+    /**
+     * @dev See {CommanderToken-getApproved}.
+     */
+    function getApproved(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override(IERC721, ERC721, CommanderToken)
+        returns (address)
+    {
+        return super.getApproved(tokenID);
+    }
+
+    /**
+     * @dev See {LockedTokenBase-transferFrom}.
+     */
+    function transferFrom(
+        address from,
+        address to,
+        uint256 tokenID
+    ) public virtual override(IERC721, ERC721, LockedTokenBase) {
+        super.transferFrom(from, to, tokenID);
+    }
+
+    /**
+     * @dev See {LockedTokenBase-safeTransferFrom}.
+     */
+    function safeTransferFrom(
+        address from,
+        address to,
+        uint256 tokenID,
+        bytes memory data
+    ) public virtual override(IERC721, ERC721, LockedTokenBase) {
+        super.safeTransferFrom(from, to, tokenID, data);
+    }
+
+    /**
+     * @dev See {LockedTokenBase-_isApprovedOrOwner}, which resolves the owner of a bound token with {ownerOf}.
+     */
+    function _isApprovedOrOwner(
+        address spender,
+        uint256 tokenID
+    )
+        internal
+        view
+        virtual
+        override(CommanderToken, LockedTokenBase)
+        returns (bool)
+    {
+        return super._isApprovedOrOwner(spender, tokenID);
+    }
+
+    /**
+     * @dev See {CommanderToken-_approve}.
+     */
+    function _approve(
+        address to,
+        uint256 tokenID
+    ) internal virtual override(ERC721, CommanderToken) {
+        super._approve(to, tokenID);
+    }
+
+    /**
+     * @dev See {CommanderToken-_transfer}, which {LockedTokenBase-transferFrom} transfers with.
+     */
+    function _transfer(
+        address from,
+        address to,
+        uint256 tokenID
+    ) internal virtual override(ERC721, CommanderToken) {
+        super._transfer(from, to, tokenID);
+    }
+
+    /**
+     * @dev Checks the restrictions of tokenID (see {CommanderToken-_beforeTokenTransfer}) before
+     * @dev transferring the tokens locked to it (see {LockedTokenBase-_beforeTokenTransfer}).
+     */
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 tokenID,
+        uint256 batchSize
+    ) internal virtual override(CommanderToken, LockedTokenBase) {
+        super._beforeTokenTransfer(from, to, tokenID, batchSize);
+    }
+
+    /**
+     * @dev See {CommanderToken-_afterTokenTransfer}.
+     */
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenID,
+        uint256 batchSize
+    ) internal virtual override(ERC721Permit, CommanderToken) {
+        super._afterTokenTransfer(from, to, firstTokenID, batchSize);
+    }
+}
@@ -0,0 +1,870 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./interfaces/ICommanderToken.sol";
+import "./interfaces/ICommanderToken1155.sol";
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import {ERC1155Burnable} from "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
+import {ERC1155Supply} from "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import {Multicall} from "@openzeppelin/contracts/utils/Multicall.sol";
+
+/**
+ * @title Commander Token for ERC1155, Reference Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev The ERC1155 edition of Commander Token, see {ICommanderToken1155}. The restrictions apply per id,
+ * @dev and every id in a transfer or a burn, including batches, is checked. Mints are not restricted.
+ * @dev An id can depend on tokens of Commander Token contracts of both standards, and tokens of both standards
+ * @dev can depend on an id, since the functions called on dependencies are the same in both interfaces.
+ * @dev The restrictions of an id are controlled only by its controller, or by the collection controller, so the
+ * @dev inheriting contract should set the collection controller, or the controllers of the ids it mints.
+ */
+contract CommanderToken1155 is
+    ICommanderToken1155,
+    ERC1155Burnable,
+    ERC1155Supply,
+    Multicall
+{
+    struct ExternalToken {
+        // called through the functions ICommanderToken and ICommanderToken1155 share
+        ICommanderToken tokensCollection;
+        uint256 tokenID;
+    }
+
+    struct Token {
+        bool nontransferable;
+        bool nonburnable;
+        // The holders for whom the id is nontransferable or nonburnable, on top of the properties of the id
+        mapping(address => bool) nontransferableHolders;
+        mapping(address => bool) nonburnableHolders;
+        // The Commander Tokens this id depends on
+        ExternalToken[] dependencies;
+        // A mapping to manage the indices of "dependencies"
+        mapping(address => mapping(uint256 => uint256)) dependenciesIndex;
+        // A whitelist of addresses the id can be transferred to regardless of "nontransferable"
+        address[] whitelist;
+        // A mapping to manage the indices of "whitelist"
+        mapping(address => uint256) whitelistIndex;
+        // The address controlling the restrictions of the id, overrides the collection controller
+        address controller;
+    }
+
+    // verifies that the sender controls the restrictions of an id
+    modifier onlyController(uint256 id) {
+        _checkController(id);
+        _;
+    }
+
+    // ID -> its data
+    mapping(uint256 => Token) internal _tokens;
+
+    // The maximal length of a chain of dependencies, which bounds the gas of checking transferability
+    uint256 private _maxDependenceDepth = 10;
+
+    // The address controlling the restrictions of all the ids without a controller of their own
+    address private _collectionController;
+
+    /**
+     * @dev Initializes the contract by setting the URI of the tokens, see {ERC1155-_setURI}.
+     */
+    constructor(string memory uri_) ERC1155(uri_) {}
+
+    /**
+     * @dev Adds to id dependency on CTID from contract CTContractAddress.
+     * @dev An id can be transfered or burned only if all the tokens it depends on are transferable or burnable, correspondingly.
+     * @dev The caller must be the controller of id.
+     * @dev CTContractAddress must support ICommanderToken or ICommanderToken1155 (checked with ERC165), and CTID must exist.
+     */
+    function setDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) public virtual override onlyController(id) {
+        _checkDependence(id, CTContractAddress, CTID);
+        _setDependence(id, CTContractAddress, CTID);
+    }
+
+    /**
+     * @dev Checks that CTID from CTContractAddress is an existing Commander Token of either standard, and that
+     * @dev making id depend on it doesn't create a cycle or a too long chain of dependencies.
+     */
+    function _checkDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) internal view virtual {
+        if (
+            ERC165Checker.supportsInterface(
+                CTContractAddress,
+                type(ICommanderToken1155).interfaceId
+            )
+        ) {
+            if (!ICommanderToken1155(CTContractAddress).exists(CTID))
+                revert NonexistentCommanderToken(CTContractAddress, CTID);
+        } else if (
+            ERC165Checker.supportsInterface(
+                CTContractAddress,
+                type(ICommanderToken).interfaceId
+            )
+        ) {
+            try IERC721(CTContractAddress).ownerOf(CTID) returns (
+                address
+            ) {} catch {
+                revert NonexistentCommanderToken(CTContractAddress, CTID);
+            }
+        } else {
+            revert NotCommanderToken(CTContractAddress);
+        }
+
+        _checkDependencePath(
+            id,
+            CTContractAddress,
+            CTID,
+            ICommanderToken(CTContractAddress),
+            CTID,
+            1
+        );
+    }
+
+    /**
+     * @dev Walks the dependencies of CTID from CTContract, which is 'depth' steps away from id
+     * @dev in the dependency tree id will have after depending on newCTID from newCTContractAddress.
+     * @dev Reverts if id is reachable (a cycle), or if the walk goes deeper than maxDependenceDepth.
+     **/
+    function _checkDependencePath(
+        uint256 id,
+        address newCTContractAddress,
+        uint256 newCTID,
+        ICommanderToken CTContract,
+        uint256 CTID,
+        uint256 depth
+    ) internal view virtual {
+        if (address(CTContract) == address(this) && CTID == id)
+            revert DependenceCycle(id, newCTContractAddress, newCTID);
+
+        if (depth > maxDependenceDepth())
+            revert DependenceTooDeep(
+                id,
+                newCTContractAddress,
+                newCTID,
+                maxDependenceDepth()
+            );
+
+        (address[] memory CTContracts, uint256[] memory CTIDs) = CTContract
+            .getDependencies(CTID, 0, type(uint256).max);
+
+        for (uint256 i = 0; i < CTContracts.length; i++) {
+            _checkDependencePath(
+                id,
+                newCTContractAddress,
+                newCTID,
+                ICommanderToken(CTContracts[i]),
+                CTIDs[i],
+                depth + 1
+            );
+        }
+    }
+
+    /**
+     * @dev Adds to id dependency on CTID from contract CTContractAddress, without any checks
+     * @dev except that the dependency doesn't exist already.
+     */
+    function _setDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) internal virtual {
+        require(
+            _tokens[id].dependenciesIndex[CTContractAddress][CTID] == 0,
+            "Commander Token: id already depends on CTid from CTContractAddress"
+        );
+
+        // we add '1' to the index, since '0' is the value of a missing entry
+        _tokens[id].dependencies.push(
+            ExternalToken(ICommanderToken(CTContractAddress), CTID)
+        );
+        _tokens[id].dependenciesIndex[CTContractAddress][CTID] = _tokens[id]
+            .dependencies
+            .length;
+
+        emit NewDependence(id, CTContractAddress, CTID);
+    }
+
+    /**
+     * @dev Removes from id the dependency on CTID from contract CTContractAddress.
+     * @dev CTContractAddress can always remove it, and the controller of id only if CTID is transferable and burnable.
+     */
+    function removeDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) public virtual override {
+        ICommanderToken CTContract = ICommanderToken(CTContractAddress);
+
+        require(
+            (msg.sender == controllerOf(id) &&
+                msg.sender != address(0) &&
+                CTContract.isTransferable(CTID) &&
+                CTContract.isBurnable(CTID)) || msg.sender == CTContractAddress,
+            "Commander Token: sender is not permitted to remove dependency"
+        );
+
+        uint256 index = _tokens[id].dependenciesIndex[CTContractAddress][CTID];
+        require(
+            index > 0,
+            "Commander Token: id is not dependent on CTid from contract CTContractAddress"
+        );
+
+        // removes the dependency: copy the last element of the array to the place of
+        // what was removed, then remove the last element from the array
+        ExternalToken[] storage dependencies = _tokens[id].dependencies;
+        ExternalToken memory lastDependency = dependencies[
+            dependencies.length - 1
+        ];
+        dependencies[index - 1] = lastDependency;
+        _tokens[id].dependenciesIndex[address(lastDependency.tokensCollection)][
+            lastDependency.tokenID
+        ] = index;
+        dependencies.pop();
+
+        delete _tokens[id].dependenciesIndex[CTContractAddress][CTID];
+
+        emit RemovedDependence(id, CTContractAddress, CTID);
+    }
+
+    /**
+     * @dev Checks if id depends on CTID from CTContractAddress.
+     **/
+    function isDependent(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) public view virtual override returns (bool) {
+        return _tokens[id].dependenciesIndex[CTContractAddress][CTID] > 0;
+    }
+
+    /**
+     * @dev Returns the maximal length of a chain of dependencies starting at an id.
+     **/
+    function maxDependenceDepth()
+        public
+        view
+        virtual
+        override
+        returns (uint256)
+    {
+        return _maxDependenceDepth;
+    }
+
+    /**
+     * @dev Sets the maximal length of a chain of dependencies starting at an id.
+     * @dev Only new dependencies are checked against it.
+     **/
+    function _setMaxDependenceDepth(uint256 maxDepth) internal virtual {
+        _maxDependenceDepth = maxDepth;
+    }
+
+    /**
+     * @dev Returns the number of tokens id depends on.
+     **/
+    function getDependenciesCount(
+        uint256 id
+    ) public view virtual override returns (uint256) {
+        return _tokens[id].dependencies.length;
+    }
+
+    /**
+     * @dev Returns up to 'limit' of the tokens id depends on, starting from index 'offset'.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     * @dev Note: the order of the dependencies changes when a dependency is removed.
+     **/
+    function getDependencies(
+        uint256 id,
+        uint256 offset,
+        uint256 limit
+    )
+        public
+        view
+        virtual
+        override
+        returns (address[] memory, uint256[] memory)
+    {
+        ExternalToken[] storage dependencies = _tokens[id].dependencies;
+
+        uint256 count = offset < dependencies.length
+            ? dependencies.length - offset
+            : 0;
+        if (count > limit) count = limit;
+
+        address[] memory CTContracts = new address[](count);
+        uint256[] memory CTIDs = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            CTContracts[i] = address(dependencies[offset + i].tokensCollection);
+            CTIDs[i] = dependencies[offset + i].tokenID;
+        }
+
+        return (CTContracts, CTIDs);
+    }
+
+    /**
+     * @dev Sets the transferable property of id.
+     **/
+    function setTransferable(
+        uint256 id,
+        bool transferable
+    ) public virtual override onlyController(id) {
+        _tokens[id].nontransferable = !transferable;
+
+        emit TransferableSet(id, transferable);
+    }
+
+    /**
+     * @dev Sets the burnable property of id.
+     **/
+    function setBurnable(
+        uint256 id,
+        bool burnable
+    ) public virtual override onlyController(id) {
+        _tokens[id].nonburnable = !burnable;
+
+        emit BurnableSet(id, burnable);
+    }
+
+    /**
+     * @dev Sets the transferable property of id for holder only, on top of the transferable property of id.
+     **/
+    function setHolderTransferable(
+        uint256 id,
+        address holder,
+        bool transferable
+    ) public virtual override onlyController(id) {
+        _tokens[id].nontransferableHolders[holder] = !transferable;
+
+        emit HolderTransferableSet(id, holder, transferable);
+    }
+
+    /**
+     * @dev Sets the burnable property of id for holder only, on top of the burnable property of id.
+     **/
+    function setHolderBurnable(
+        uint256 id,
+        address holder,
+        bool burnable
+    ) public virtual override onlyController(id) {
+        _tokens[id].nonburnableHolders[holder] = !burnable;
+
+        emit HolderBurnableSet(id, holder, burnable);
+    }
+
+    /**
+     * @dev Checks the transferable property of id (only of the id itself, not of its dependencies or holders).
+     **/
+    function isTransferable(
+        uint256 id
+    ) public view virtual override returns (bool) {
+        return !_tokens[id].nontransferable;
+    }
+
+    /**
+     * @dev Checks the burnable property of id (only of the id itself, not of its dependencies or holders).
+     **/
+    function isBurnable(
+        uint256 id
+    ) public view virtual override returns (bool) {
+        return !_tokens[id].nonburnable;
+    }
+
+    /**
+     * @dev Checks the transferable property of id for holder (only the one set for holder).
+     **/
+    function isHolderTransferable(
+        uint256 id,
+        address holder
+    ) public view virtual override returns (bool) {
+        return !_tokens[id].nontransferableHolders[holder];
+    }
+
+    /**
+     * @dev Checks the burnable property of id for holder (only the one set for holder).
+     **/
+    function isHolderBurnable(
+        uint256 id,
+        address holder
+    ) public view virtual override returns (bool) {
+        return !_tokens[id].nonburnableHolders[holder];
+    }
+
+    /**
+     * @dev Checks if all the tokens that id depends on are transferable (only of the dependencies, not of the id).
+     **/
+    function isDependentTransferable(
+        uint256 id
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[id].dependencies.length; i++) {
+            ExternalToken storage CT = _tokens[id].dependencies[i];
+            if (!CT.tokensCollection.isTokenTransferable(CT.tokenID))
+                return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev Checks if all the tokens that id depends on are burnable (only of the dependencies, not of the id).
+     **/
+    function isDependentBurnable(
+        uint256 id
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[id].dependencies.length; i++) {
+            ExternalToken storage CT = _tokens[id].dependencies[i];
+            if (!CT.tokensCollection.isTokenBurnable(CT.tokenID)) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev Checks if id can be transferred (meaning, both the id itself and all of its dependencies are transferable).
+     **/
+    function isTokenTransferable(
+        uint256 id
+    ) public view virtual override returns (bool) {
+        return isTransferable(id) && isDependentTransferable(id);
+    }
+
+    /**
+     * @dev Checks if id can be burned (meaning, both the id itself and all of its dependencies are burnable).
+     **/
+    function isTokenBurnable(
+        uint256 id
+    ) public view virtual override returns (bool) {
+        return isBurnable(id) && isDependentBurnable(id);
+    }
+
+    /**************************
+     * Controller functions   *
+     **************************/
+
+    /**
+     * @dev Returns the address controlling the restrictions of id: its own controller if set,
+     * @dev or otherwise the collection controller.
+     **/
+    function controllerOf(
+        uint256 id
+    ) public view virtual override returns (address) {
+        address controller = _tokens[id].controller;
+        return controller != address(0) ? controller : _collectionController;
+    }
+
+    /**
+     * @dev Returns the address controlling the restrictions of ids without a controller of their own.
+     **/
+    function collectionController()
+        public
+        view
+        virtual
+        override
+        returns (address)
+    {
+        return _collectionController;
+    }
+
+    /**
+     * @dev Sets the controller of id, or removes it if newController is the zero address.
+     * @dev Only the current controller of id can call it.
+     **/
+    function setController(
+        uint256 id,
+        address newController
+    ) public virtual override onlyController(id) {
+        _setController(id, newController);
+    }
+
+    /**
+     * @dev Sets the controller of id without any checks, for the use of inheriting contracts.
+     **/
+    function _setController(
+        uint256 id,
+        address newController
+    ) internal virtual {
+        emit ControllerChanged(id, _tokens[id].controller, newController);
+
+        _tokens[id].controller = newController;
+    }
+
+    /**
+     * @dev Hands over the control of the collection. Only the current collection controller can call it.
+     **/
+    function setCollectionController(
+        address newController
+    ) public virtual override {
+        if (
+            _collectionController == address(0) ||
+            msg.sender != _collectionController
+        ) revert NotCollectionController(msg.sender);
+
+        _setCollectionController(newController);
+    }
+
+    /**
+     * @dev Sets the collection controller without any checks, for the use of inheriting contracts.
+     **/
+    function _setCollectionController(address newController) internal virtual {
+        emit CollectionControllerChanged(_collectionController, newController);
+
+        _collectionController = newController;
+    }
+
+    /**
+     * @dev Reverts if the sender doesn't control the restrictions of id, see {controllerOf}.
+     **/
+    function _checkController(uint256 id) internal view virtual {
+        address controller = controllerOf(id);
+        if (controller == address(0) || msg.sender != controller)
+            revert NotController(id, msg.sender);
+    }
+
+    /************************
+     * Whitelist functions  *
+     ************************/
+
+    /**
+     * @dev Adds or removes an address from the whitelist of id.
+     * @dev id can be transferred to whitelisted addresses even when it is set to be nontransferable.
+     **/
+    function setTransferWhitelist(
+        uint256 id,
+        address whitelistAddress,
+        bool isWhitelisted
+    ) public virtual override onlyController(id) {
+        Token storage token = _tokens[id];
+        uint256 index = token.whitelistIndex[whitelistAddress];
+
+        if (isWhitelisted && index == 0) {
+            // we add '1' to the index, see the comment in _setDependence for an explanation
+            token.whitelist.push(whitelistAddress);
+            token.whitelistIndex[whitelistAddress] = token.whitelist.length;
+        } else if (!isWhitelisted && index > 0) {
+            // removes the address: copy the last element of the array to the place of
+            // what was removed, then remove the last element from the array
+            address lastAddress = token.whitelist[token.whitelist.length - 1];
+            token.whitelist[index - 1] = lastAddress;
+            token.whitelistIndex[lastAddress] = index;
+            token.whitelist.pop();
+
+            delete token.whitelistIndex[whitelistAddress];
+        }
+
+        emit TransferWhitelistSet(id, whitelistAddress, isWhitelisted);
+    }
+
+    /**
+     * @dev Checks if an address is whitelisted.
+     **/
+    function isAddressWhitelisted(
+        uint256 id,
+        address whitelistAddress
+    ) public view virtual override returns (bool) {
+        return _tokens[id].whitelistIndex[whitelistAddress] > 0;
+    }
+
+    /**
+     * @dev Returns all the addresses in the whitelist of id.
+     **/
+    function getWhitelistedAddresses(
+        uint256 id
+    ) public view virtual override returns (address[] memory) {
+        return _tokens[id].whitelist;
+    }
+
+    /**
+     * @dev Checks if id can be transferred to transferToAddress, without taking its dependence into consideration.
+     **/
+    function isTransferableToAddress(
+        uint256 id,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        return
+            isTransferable(id) || isAddressWhitelisted(id, transferToAddress);
+    }
+
+    /**
+     * @dev Checks if all the dependences of id can be transferred to transferToAddress.
+     **/
+    function isDependentTransferableToAddress(
+        uint256 id,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[id].dependencies.length; i++) {
+            ExternalToken storage CT = _tokens[id].dependencies[i];
+            if (
+                !CT.tokensCollection.isTokenTransferableToAddress(
+                    CT.tokenID,
+                    transferToAddress
+                )
+            ) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev Checks if id can be transferred to transferToAddress (meaning, the id itself and all of its dependencies allow it).
+     **/
+    function isTokenTransferableToAddress(
+        uint256 id,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        return
+            isTransferableToAddress(id, transferToAddress) &&
+            isDependentTransferableToAddress(id, transferToAddress);
+    }
+
+    /**
+     * @dev Checks if the balance of `from` in id can be transferred to transferToAddress,
+     * @dev (meaning, the id itself, its restrictions for `from` and all of its dependencies allow it).
+     * @dev The whitelist of id applies to the holders for whom id is nontransferable as well.
+     **/
+    function isTokenTransferableFromToAddress(
+        uint256 id,
+        address from,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        return
+            (isHolderTransferable(id, from) ||
+                isAddressWhitelisted(id, transferToAddress)) &&
+            isTokenTransferableToAddress(id, transferToAddress);
+    }
+
+    /**
+     * @dev Checks if the balance of `from` in id can be burned,
+     * @dev (meaning, the id itself, its restrictions for `from` and all of its dependencies allow it).
+     **/
+    function isTokenBurnableFrom(
+        uint256 id,
+        address from
+    ) public view virtual override returns (bool) {
+        return isHolderBurnable(id, from) && isTokenBurnable(id);
+    }
+
+    /*****************************
+     * Explanations of blockings *
+     *****************************/
+
+    /**
+     * @dev Explains why id can't be transferred to transferToAddress.
+     * @dev Returns the path from id, through its dependencies, to the token that blocks the transfer,
+     * @dev or an empty array if id is transferable to transferToAddress.
+     **/
+    function whyNotTransferable(
+        uint256 id,
+        address transferToAddress
+    )
+        public
+        view
+        virtual
+        override
+        returns (ICommanderToken.BlockingToken[] memory)
+    {
+        if (!isTransferableToAddress(id, transferToAddress)) {
+            ICommanderToken.BlockReason reason = _tokens[id].whitelist.length >
+                0
+                ? ICommanderToken.BlockReason.NotWhitelisted
+                : ICommanderToken.BlockReason.Nontransferable;
+
+            return
+                _prependBlockingToken(
+                    id,
+                    reason,
+                    new ICommanderToken.BlockingToken[](0)
+                );
+        }
+
+        // returns the path through the first dependency that blocks the transfer
+        for (uint256 i = 0; i < _tokens[id].dependencies.length; i++) {
+            ExternalToken storage CT = _tokens[id].dependencies[i];
+
+            if (
+                !CT.tokensCollection.isTokenTransferableToAddress(
+                    CT.tokenID,
+                    transferToAddress
+                )
+            ) {
+                return
+                    _prependBlockingToken(
+                        id,
+                        ICommanderToken.BlockReason.Dependency,
+                        CT.tokensCollection.whyNotTransferable(
+                            CT.tokenID,
+                            transferToAddress
+                        )
+                    );
+            }
+        }
+
+        return new ICommanderToken.BlockingToken[](0);
+    }
+
+    /**
+     * @dev Explains why id can't be burned.
+     * @dev Returns the path from id, through its dependencies, to the token that blocks the burn,
+     * @dev or an empty array if id is burnable.
+     **/
+    function whyNotBurnable(
+        uint256 id
+    )
+        public
+        view
+        virtual
+        override
+        returns (ICommanderToken.BlockingToken[] memory)
+    {
+        if (!isBurnable(id)) {
+            return
+                _prependBlockingToken(
+                    id,
+                    ICommanderToken.BlockReason.Nonburnable,
+                    new ICommanderToken.BlockingToken[](0)
+                );
+        }
+
+        // returns the path through the first dependency that blocks the burn
+        for (uint256 i = 0; i < _tokens[id].dependencies.length; i++) {
+            ExternalToken storage CT = _tokens[id].dependencies[i];
+
+            if (!CT.tokensCollection.isTokenBurnable(CT.tokenID)) {
+                return
+                    _prependBlockingToken(
+                        id,
+                        ICommanderToken.BlockReason.Dependency,
+                        CT.tokensCollection.whyNotBurnable(CT.tokenID)
+                    );
+            }
+        }
+
+        return new ICommanderToken.BlockingToken[](0);
+    }
+
+    /**
+     * @dev Returns path with id from this contract added at its beginning.
+     **/
+    function _prependBlockingToken(
+        uint256 id,
+        ICommanderToken.BlockReason reason,
+        ICommanderToken.BlockingToken[] memory path
+    ) internal view virtual returns (ICommanderToken.BlockingToken[] memory) {
+        ICommanderToken.BlockingToken[]
+            memory newPath = new ICommanderToken.BlockingToken[](
+                path.length + 1
+            );
+
+        newPath[0] = ICommanderToken.BlockingToken(address(this), id, reason);
+        for (uint256 i = 0; i < path.length; i++) {
+            newPath[i + 1] = path[i];
+        }
+
+        return newPath;
+    }
+
+    /***********************************************
+     * Overrided functions from ERC165 and ERC1155 *
+     ***********************************************/
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    ) public view virtual override(ERC1155, IERC165) returns (bool) {
+        return
+            interfaceID == type(ICommanderToken1155).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev See {ERC1155Supply-exists}.
+     */
+    function exists(
+        uint256 id
+    )
+        public
+        view
+        virtual
+        override(ERC1155Supply, ICommanderToken1155)
+        returns (bool)
+    {
+        return super.exists(id);
+    }
+
+    /**
+     * @dev Hook that is called before any token transfer, including minting and burning, and batches of both.
+     * @dev Every id of a transfer must be transferable from `from` to `to`, and every id of a burn burnable from `from`.
+     * @dev Mints are not restricted.
+     */
+    function _beforeTokenTransfer(
+        address operator,
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory amounts,
+        bytes memory data
+    ) internal virtual override(ERC1155, ERC1155Supply) {
+        super._beforeTokenTransfer(operator, from, to, ids, amounts, data);
+
+        if (from == address(0)) return;
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (to == address(0)) _checkBurnable(ids[i], from);
+            else _checkTransferable(ids[i], from, to);
+        }
+    }
+
+    /**
+     * @dev Reverts if the balance of `from` in id can't be transferred to `to`, with the path to the blocking token.
+     */
+    function _checkTransferable(
+        uint256 id,
+        address from,
+        address to
+    ) internal view virtual {
+        // the blocking path is computed only when the transfer is blocked, to save gas
+        if (isTokenTransferableFromToAddress(id, from, to)) return;
+
+        if (!isHolderTransferable(id, from) && !isAddressWhitelisted(id, to))
+            revert TransferBlocked(
+                id,
+                from,
+                to,
+                _prependBlockingToken(
+                    id,
+                    ICommanderToken.BlockReason.Nontransferable,
+                    new ICommanderToken.BlockingToken[](0)
+                )
+            );
+
+        revert TransferBlocked(id, from, to, whyNotTransferable(id, to));
+    }
+
+    /**
+     * @dev Reverts if the balance of `from` in id can't be burned, with the path to the blocking token.
+     */
+    function _checkBurnable(uint256 id, address from) internal view virtual {
+        if (isTokenBurnableFrom(id, from)) return;
+
+        if (!isHolderBurnable(id, from))
+            revert BurnBlocked(
+                id,
+                from,
+                _prependBlockingToken(
+                    id,
+                    ICommanderToken.BlockReason.Nonburnable,
+                    new ICommanderToken.BlockingToken[](0)
+                )
+            );
+
+        revert BurnBlocked(id, from, whyNotBurnable(id));
+    }
+}
@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./interfaces/IERC4494.sol";
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title ERC721 with signed messages
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Implements ERC-4494 permits, and the EIP-712 signatures of the "WithSig" functions of Commander Token
+ * @dev and Locked Token, which let a relayer send a transaction on behalf of a token owner without ETH.
+ * @dev Every signature includes the nonce of the token it's about and a deadline. The nonce of a token is
+ * @dev incremented on every use of a signature and on every transfer, which invalidates older signatures.
+ */
+abstract contract ERC721Permit is IERC4494, ERC721, EIP712 {
+    /**
+     * @dev Thrown when a signature is used after its deadline.
+     */
+    error SignatureExpired(uint256 deadline);
+
+    /**
+     * @dev Thrown when the signer of a message about tokenID isn't allowed to do what the message says.
+     */
+    error UnauthorizedSigner(uint256 tokenID, address signer);
+
+    bytes32 private constant _PERMIT_TYPEHASH =
+        keccak256(
+            "Permit(address spender,uint256 tokenId,uint256 nonce,uint256 deadline)"
+        );
+
+    // Token ID -> the nonce of the next signature about the token
+    mapping(uint256 => uint256) private _nonces;
+
+    /**
+     * @dev Initializes the EIP-712 domain with the `name` of the token collection and version "1".
+     */
+    constructor(string memory name) EIP712(name, "1") {}
+
+    /**
+     * @dev See {IERC4494-permit}.
+     * @dev The signer must be the owner of tokenId or an operator of the owner.
+     */
+    function permit(
+        address spender,
+        uint256 tokenId,
+        uint256 deadline,
+        bytes memory sig
+    ) public virtual override {
+        address signer = _useSignature(
+            tokenId,
+            keccak256(
+                abi.encode(
+                    _PERMIT_TYPEHASH,
+                    spender,
+                    tokenId,
+                    nonces(tokenId),
+                    deadline
+                )
+            ),
+            deadline,
+            sig
+        );
+
+        address owner = ownerOf(tokenId);
+        if (signer != owner && !isApprovedForAll(owner, signer))
+            revert UnauthorizedSigner(tokenId, signer);
+
+        _approve(spender, tokenId);
+    }
+
+    /**
+     * @dev See {IERC4494-nonces}.
+     */
+    function nonces(
+        uint256 tokenId
+    ) public view virtual override returns (uint256) {
+        return _nonces[tokenId];
+    }
+
+    /**
+     * @dev See {IERC4494-DOMAIN_SEPARATOR}.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR()
+        external
+        view
+        virtual
+        override
+        returns (bytes32)
+    {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev Returns the signer of the EIP-712 message with structHash about tokenID, and increments the nonce of tokenID.
+     * @dev structHash must include the current nonce of tokenID, and the signature must be used before deadline.
+     * @dev The caller checks what the signer is allowed to do.
+     */
+    function _useSignature(
+        uint256 tokenID,
+        bytes32 structHash,
+        uint256 deadline,
+        bytes memory signature
+    ) internal virtual returns (address) {
+        // solhint-disable-next-line not-rely-on-time
+        if (block.timestamp > deadline) revert SignatureExpired(deadline);
+
+        _nonces[tokenID]++;
+
+        return ECDSA.recover(_hashTypedDataV4(structHash), signature);
+    }
+
+    /**
+     * @dev Increments the nonce of the transferred token, so signatures of its previous owner can't be used.
+     */
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenID,
+        uint256 batchSize
+    ) internal virtual override {
+        super._afterTokenTransfer(from, to, firstTokenID, batchSize);
+
+        _nonces[firstTokenID]++;
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    ) public view virtual override(ERC721, IERC165) returns (bool) {
+        return
+            interfaceID == type(IERC4494).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+}
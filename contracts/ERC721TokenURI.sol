@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./interfaces/IMetadataRenderer.sol";
+import "./ERC721Permit.sol";
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+
+/**
+ * @title ERC721 with configurable token URIs
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev The token URIs are either off-chain, a base URI followed by the token ID, or rendered on-chain
+ * @dev by a Metadata Renderer. The base URI takes precedence, and if neither is set the token URIs are empty.
+ * @dev Setting them is left to inheriting contracts, which decide who may do it.
+ * @dev It extends {ERC721Permit}, the base of both Commander Token and Locked Token, so a contract that is
+ * @dev both shares one implementation.
+ */
+abstract contract ERC721TokenURI is ERC721Permit {
+    /**
+     * @dev Thrown when a metadata renderer does not support the IMetadataRenderer interface.
+     */
+    error NotMetadataRenderer(address renderer);
+
+    /**
+     * @dev Emitted when the base URI of the collection is set.
+     */
+    event BaseURISet(string baseURI);
+
+    /**
+     * @dev Emitted when the metadata renderer of the collection is set, or removed if renderer is the zero address.
+     */
+    event MetadataRendererSet(address renderer);
+
+    // the prefix of the off-chain token URIs
+    string private _baseTokenURI;
+
+    // renders the token URIs on-chain when there is no base URI
+    IMetadataRenderer private _metadataRenderer;
+
+    /**
+     * @dev Returns the metadata renderer of the collection, or the zero address if it has none.
+     */
+    function metadataRenderer() public view virtual returns (address) {
+        return address(_metadataRenderer);
+    }
+
+    /**
+     * @dev See {IERC721Metadata-tokenURI}.
+     */
+    function tokenURI(
+        uint256 tokenID
+    ) public view virtual override returns (string memory) {
+        _requireMinted(tokenID);
+
+        if (
+            bytes(_baseTokenURI).length == 0 &&
+            address(_metadataRenderer) != address(0)
+        ) return _metadataRenderer.tokenURI(address(this), tokenID);
+
+        return super.tokenURI(tokenID);
+    }
+
+    /**
+     * @dev Sets the base URI of the off-chain token URIs, or removes it if baseURI is empty.
+     */
+    function _setBaseURI(string memory baseURI) internal virtual {
+        _baseTokenURI = baseURI;
+
+        emit BaseURISet(baseURI);
+    }
+
+    /**
+     * @dev Sets the metadata renderer of the collection, or removes it if renderer is the zero address.
+     * @dev The renderer must support the IMetadataRenderer interface.
+     */
+    function _setMetadataRenderer(address renderer) internal virtual {
+        if (
+            renderer != address(0) &&
+            !ERC165Checker.supportsInterface(
+                renderer,
+                type(IMetadataRenderer).interfaceId
+            )
+        ) revert NotMetadataRenderer(renderer);
+
+        _metadataRenderer = IMetadataRenderer(renderer);
+
+        emit MetadataRendererSet(renderer);
+    }
+
+    /**
+     * @dev See {ERC721-_baseURI}.
+     */
+    function _baseURI() internal view virtual override returns (string memory) {
+        return _baseTokenURI;
+    }
+}
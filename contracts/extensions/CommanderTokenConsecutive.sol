@@ -0,0 +1,221 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "../CommanderToken.sol";
+import {ERC721Consecutive} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Consecutive.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title Commander Token with consecutive mints
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A Commander Token that mints batches of consecutive tokens in its constructor, as in {ERC721Consecutive},
+ * @dev with initial restrictions for the whole batch, e.g. to airdrop soulbound tokens or tokens that depend on
+ * @dev a community token. Each batch emits a single {IERC2309-ConsecutiveTransfer}, and its tokens are issued
+ * @dev after their restrictions are set.
+ * @dev It leaves the constructor of CommanderToken to the inheriting contract.
+ */
+abstract contract CommanderTokenConsecutive is
+    CommanderToken,
+    ERC721Consecutive
+{
+    // The initial restrictions of the tokens of a batch
+    struct MintRestrictions {
+        bool nontransferable;
+        bool nonburnable;
+        // A Commander Token all the tokens of the batch depend on, or the zero address
+        address CTContractAddress;
+        uint256 CTID;
+    }
+
+    /**
+     * @dev Mints batchSize consecutive tokens to `to`, see {ERC721Consecutive-_mintConsecutive}, and sets the
+     * @dev restrictions of the batch after it is minted. Returns the first token ID of the batch.
+     * @dev The dependency in restrictions is checked once, as in {setDependence}, since the new tokens can't be
+     * @dev in its dependency tree. Tokens minted locked emit {IERC5192-Locked}, see {locked}.
+     * @dev The transfer policies are not notified about the tokens of a batch.
+     **/
+    function _mintConsecutive(
+        address to,
+        uint96 batchSize,
+        MintRestrictions memory restrictions
+    ) internal virtual returns (uint96) {
+        uint96 firstTokenID = super._mintConsecutive(to, batchSize);
+        if (batchSize == 0) return firstTokenID;
+
+        if (restrictions.CTContractAddress != address(0))
+            _checkDependence(
+                firstTokenID,
+                restrictions.CTContractAddress,
+                restrictions.CTID
+            );
+
+        BurnAuth auth;
+        for (
+            uint256 tokenID = firstTokenID;
+            tokenID < uint256(firstTokenID) + batchSize;
+            tokenID++
+        ) {
+            _setMintRestrictions(tokenID, restrictions);
+
+            // the tokens of the batch have the same restrictions, so they have the burn authorization of the first
+            if (tokenID == firstTokenID) auth = burnAuth(tokenID);
+            emit Issued(_msgSender(), to, tokenID, auth);
+        }
+
+        // a single increase for the whole batch, instead of one for each of its tokens
+        _increaseRestrictionsEpoch();
+
+        return firstTokenID;
+    }
+
+    /**
+     * @dev Sets the restrictions of tokenID, a token of a batch, see {_mintConsecutive}.
+     **/
+    function _setMintRestrictions(
+        uint256 tokenID,
+        MintRestrictions memory restrictions
+    ) internal virtual {
+        if (restrictions.nontransferable) {
+            _tokens[tokenID].nontransferable = true;
+            emit Locked(tokenID);
+        }
+        if (restrictions.nonburnable) _tokens[tokenID].nonburnable = true;
+
+        // emits {IERC5192-Locked} if the dependency makes the token nontransferable
+        if (restrictions.CTContractAddress != address(0))
+            _setDependence(
+                tokenID,
+                restrictions.CTContractAddress,
+                restrictions.CTID
+            );
+    }
+
+    /**
+     * @dev Mints a batch without restrictions, see {_mintConsecutive}, so every token of a batch is issued.
+     **/
+    function _mintConsecutive(
+        address to,
+        uint96 batchSize
+    ) internal virtual override returns (uint96) {
+        return
+            _mintConsecutive(
+                to,
+                batchSize,
+                MintRestrictions(false, false, address(0), 0)
+            );
+    }
+
+    function _ownerOf(
+        uint256 tokenID
+    )
+        internal
+        view
+        virtual
+        override(ERC721, ERC721Consecutive)
+        returns (address)
+    {
+        return super._ownerOf(tokenID);
+    }
+
+    function _mint(
+        address to,
+        uint256 tokenID
+    ) internal virtual override(ERC721, ERC721Consecutive) {
+        super._mint(to, tokenID);
+    }
+
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenID,
+        uint256 batchSize
+    ) internal virtual override(ERC721, CommanderToken) {
+        super._beforeTokenTransfer(from, to, firstTokenID, batchSize);
+    }
+
+    /**
+     * @dev The tokens minted in the constructor are batches, which are issued by {_mintConsecutive} after their
+     * @dev restrictions are set, and the hook of ERC721Consecutive does nothing on mints, so mints in the
+     * @dev constructor skip the hooks.
+     **/
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenID,
+        uint256 batchSize
+    ) internal virtual override(CommanderToken, ERC721Consecutive) {
+        if (from == address(0) && !Address.isContract(address(this))) return;
+
+        super._afterTokenTransfer(from, to, firstTokenID, batchSize);
+    }
+
+    function supportsInterface(
+        bytes4 interfaceID
+    ) public view virtual override(ERC721, CommanderToken) returns (bool) {
+        return super.supportsInterface(interfaceID);
+    }
+
+    function ownerOf(
+        uint256 tokenID
+    ) public view virtual override(ERC721, CommanderToken) returns (address) {
+        return super.ownerOf(tokenID);
+    }
+
+    function _isApprovedOrOwner(
+        address spender,
+        uint256 tokenID
+    ) internal view virtual override(ERC721, CommanderToken) returns (bool) {
+        return super._isApprovedOrOwner(spender, tokenID);
+    }
+
+    function approve(
+        address to,
+        uint256 tokenID
+    ) public virtual override(ERC721, CommanderToken) {
+        super.approve(to, tokenID);
+    }
+
+    function getApproved(
+        uint256 tokenID
+    ) public view virtual override(ERC721, CommanderToken) returns (address) {
+        return super.getApproved(tokenID);
+    }
+
+    function _approve(
+        address to,
+        uint256 tokenID
+    ) internal virtual override(ERC721, CommanderToken) {
+        super._approve(to, tokenID);
+    }
+
+    function _transfer(
+        address from,
+        address to,
+        uint256 tokenID
+    ) internal virtual override(ERC721, CommanderToken) {
+        super._transfer(from, to, tokenID);
+    }
+
+    function tokenURI(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override(ERC721, ERC721TokenURI)
+        returns (string memory)
+    {
+        return super.tokenURI(tokenID);
+    }
+
+    function _baseURI()
+        internal
+        view
+        virtual
+        override(ERC721, ERC721TokenURI)
+        returns (string memory)
+    {
+        return super._baseURI();
+    }
+}
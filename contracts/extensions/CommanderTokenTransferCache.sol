@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "../CommanderToken.sol";
+import "../interfaces/ITransferCache.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/**
+ * @title Commander Token with transfer caches
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A Commander Token that checks the transferability of a token with a valid transfer cache in bounded gas,
+ * @dev instead of walking its dependency tree, see {ITransferCache}. Tokens without a valid cache are checked
+ * @dev as in CommanderToken, and tokens of other Commander Token contracts that depend on a cached token
+ * @dev benefit from its cache too, since they check it with {isTokenTransferableToAddress}.
+ * @dev It leaves the constructor of CommanderToken to the inheriting contract.
+ */
+abstract contract CommanderTokenTransferCache is
+    CommanderToken,
+    ITransferCache
+{
+    // a token of a dependency tree, and its restrictions epoch when the cache was updated
+    struct CachedToken {
+        address collection;
+        uint96 epoch;
+        uint256 tokenID;
+    }
+
+    struct TransferCache {
+        // the cache is valid until this time, 0 if there is no cache
+        uint64 validUntil;
+        // the tokens of the dependency tree, including the token itself
+        CachedToken[] tokens;
+    }
+
+    // Token ID -> its transfer cache
+    mapping(uint256 => TransferCache) private _transferCaches;
+
+    /**
+     * @dev See {ITransferCache-updateTransferCache}.
+     * @dev The cache is a union of the tokens in the caches of the dependencies, so a token that is reached
+     * @dev through several dependencies is cached once.
+     */
+    function updateTransferCache(uint256 tokenID) public virtual override {
+        _requireMinted(tokenID);
+
+        if (
+            !isTransferable(tokenID) ||
+            transferPolicyOf(tokenID) != address(0) ||
+            collectionTransferPolicy() != address(0)
+        ) revert UncacheableTransferability(tokenID, address(this), tokenID);
+
+        uint64 validUntil = getTransferableSchedule(tokenID).end;
+        if (validUntil == 0) validUntil = type(uint64).max;
+
+        TransferCache storage cache = _transferCaches[tokenID];
+        delete cache.tokens;
+        _addToTransferCache(
+            cache,
+            address(this),
+            tokenID,
+            restrictionsEpoch(tokenID)
+        );
+
+        (
+            address[] memory CTContracts,
+            uint256[] memory CTIDs
+        ) = getDependencies(tokenID, 0, type(uint256).max);
+
+        for (uint256 i = 0; i < CTContracts.length; i++) {
+            if (
+                !ERC165Checker.supportsInterface(
+                    CTContracts[i],
+                    type(ITransferCache).interfaceId
+                ) ||
+                !ITransferCache(CTContracts[i]).isTransferCacheValid(CTIDs[i])
+            )
+                revert UncacheableTransferability(
+                    tokenID,
+                    CTContracts[i],
+                    CTIDs[i]
+                );
+
+            // the epochs in a valid cache are the current ones, so they agree with those already in the cache
+            (
+                uint64 dependencyValidUntil,
+                address[] memory collections,
+                uint256[] memory tokenIDs,
+                uint256[] memory epochs
+            ) = ITransferCache(CTContracts[i]).getTransferCache(CTIDs[i]);
+
+            if (dependencyValidUntil < validUntil)
+                validUntil = dependencyValidUntil;
+
+            for (uint256 j = 0; j < collections.length; j++) {
+                _addToTransferCache(
+                    cache,
+                    collections[j],
+                    tokenIDs[j],
+                    epochs[j]
+                );
+            }
+        }
+
+        cache.validUntil = validUntil;
+
+        emit TransferCacheUpdated(tokenID, validUntil);
+    }
+
+    /**
+     * @dev See {ITransferCache-isTransferCacheValid}.
+     * @dev The gas it uses grows with the number of tokens in the dependency tree of tokenID, by the reading
+     * @dev of their epochs rather than the checks of their restrictions.
+     */
+    function isTransferCacheValid(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        TransferCache storage cache = _transferCaches[tokenID];
+        if (block.timestamp >= cache.validUntil) return false;
+
+        for (uint256 i = 0; i < cache.tokens.length; i++) {
+            CachedToken storage cachedToken = cache.tokens[i];
+            uint256 epoch = cachedToken.collection == address(this)
+                ? restrictionsEpoch(cachedToken.tokenID)
+                : ICommanderToken(cachedToken.collection).restrictionsEpoch(
+                    cachedToken.tokenID
+                );
+
+            if (epoch != cachedToken.epoch) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev See {ITransferCache-getTransferCache}.
+     */
+    function getTransferCache(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override
+        returns (uint64, address[] memory, uint256[] memory, uint256[] memory)
+    {
+        TransferCache storage cache = _transferCaches[tokenID];
+
+        address[] memory collections = new address[](cache.tokens.length);
+        uint256[] memory tokenIDs = new uint256[](cache.tokens.length);
+        uint256[] memory epochs = new uint256[](cache.tokens.length);
+
+        for (uint256 i = 0; i < cache.tokens.length; i++) {
+            collections[i] = cache.tokens[i].collection;
+            tokenIDs[i] = cache.tokens[i].tokenID;
+            epochs[i] = cache.tokens[i].epoch;
+        }
+
+        return (cache.validUntil, collections, tokenIDs, epochs);
+    }
+
+    /**
+     * @dev See {ICommanderToken-isTokenTransferableToAddress}, a token with a valid cache is transferable to any address.
+     */
+    function isTokenTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        return
+            isTransferCacheValid(tokenID) ||
+            super.isTokenTransferableToAddress(tokenID, transferToAddress);
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    ) public view virtual override(CommanderToken, IERC165) returns (bool) {
+        return
+            interfaceID == type(ITransferCache).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev Burns tokenID and deletes its transfer cache.
+     */
+    function _burnCommanderToken(uint256 tokenID) internal virtual override {
+        super._burnCommanderToken(tokenID);
+
+        delete _transferCaches[tokenID];
+    }
+
+    /**
+     * @dev Adds tokenID from collection and its epoch to cache, unless the token is in it already.
+     * @dev The epoch is stored in 96 bits, next to the collection, so each cached token takes two slots.
+     */
+    function _addToTransferCache(
+        TransferCache storage cache,
+        address collection,
+        uint256 tokenID,
+        uint256 epoch
+    ) private {
+        for (uint256 i = 0; i < cache.tokens.length; i++) {
+            if (
+                cache.tokens[i].collection == collection &&
+                cache.tokens[i].tokenID == tokenID
+            ) return;
+        }
+
+        cache.tokens.push(
+            CachedToken(collection, SafeCast.toUint96(epoch), tokenID)
+        );
+    }
+}
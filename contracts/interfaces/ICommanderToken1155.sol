@@ -0,0 +1,376 @@
+// SPDX-License-Identifier: MIT
+// Interface for an ERC1155 collection whose tokens command other tokens or are commanded by other tokens
+
+pragma solidity >=0.8.17;
+
+import "./ICommanderToken.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+
+/**
+ * @title Commander Token for ERC1155
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev The ERC1155 edition of Commander Token, for fungible-per-id tokens such as community badges.
+ * @dev The restrictions apply to an id, i.e. to all of its holders: transferability, burnability, a whitelist and
+ * @dev dependencies on other Commander Tokens, of either standard. An id can also be made nontransferable or
+ * @dev nonburnable for some of its holders only.
+ * @dev The functions a Commander Token calls on the tokens it depends on (isTransferable, isBurnable,
+ * @dev isTokenTransferable, isTokenBurnable, isTokenTransferableToAddress, whyNotTransferable, whyNotBurnable and
+ * @dev getDependencies) have the same signatures as in ICommanderToken, so dependency graphs can mix both standards.
+ * @dev There is no owner of an id, so its restrictions are controlled by its controller, or by the collection controller.
+ */
+interface ICommanderToken1155 is IERC1155 {
+    /**
+     * @dev Thrown when the balance of `from` in id can't be transferred to `to`.
+     * @dev path leads from id, through its dependencies, to the token that blocks the transfer.
+     */
+    error TransferBlocked(
+        uint256 id,
+        address from,
+        address to,
+        ICommanderToken.BlockingToken[] path
+    );
+
+    /**
+     * @dev Thrown when the balance of `from` in id can't be burned.
+     * @dev path leads from id, through its dependencies, to the token that blocks the burn.
+     */
+    error BurnBlocked(
+        uint256 id,
+        address from,
+        ICommanderToken.BlockingToken[] path
+    );
+
+    /**
+     * @dev Thrown when sender tries to change the restrictions of id, but isn't its controller.
+     */
+    error NotController(uint256 id, address sender);
+
+    /**
+     * @dev Thrown when sender tries to hand over the control of the collection, but isn't its controller.
+     */
+    error NotCollectionController(address sender);
+
+    /**
+     * @dev Thrown when CTContractAddress supports neither ICommanderToken nor ICommanderToken1155.
+     */
+    error NotCommanderToken(address CTContractAddress);
+
+    /**
+     * @dev Thrown when CTID doesn't exist in CTContractAddress.
+     */
+    error NonexistentCommanderToken(address CTContractAddress, uint256 CTID);
+
+    /**
+     * @dev Thrown when making id depend on CTID from CTContractAddress would create a dependence cycle.
+     */
+    error DependenceCycle(uint256 id, address CTContractAddress, uint256 CTID);
+
+    /**
+     * @dev Thrown when making id depend on CTID from CTContractAddress would create a chain of
+     * @dev dependencies longer than maxDepth.
+     */
+    error DependenceTooDeep(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID,
+        uint256 maxDepth
+    );
+
+    /**
+     * @dev Emitted when a dependency on CTID from CTContractAddress is added to `id`.
+     */
+    event NewDependence(uint256 id, address CTContractAddress, uint256 CTID);
+
+    /**
+     * @dev Emitted when a dependency on CTID from CTContractAddress is removed from `id`.
+     */
+    event RemovedDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    );
+
+    /**
+     * @dev Emitted when the transferable property of `id` is set.
+     */
+    event TransferableSet(uint256 id, bool transferable);
+
+    /**
+     * @dev Emitted when the burnable property of `id` is set.
+     */
+    event BurnableSet(uint256 id, bool burnable);
+
+    /**
+     * @dev Emitted when the transferable property of `id` is set for `holder`.
+     */
+    event HolderTransferableSet(uint256 id, address holder, bool transferable);
+
+    /**
+     * @dev Emitted when the burnable property of `id` is set for `holder`.
+     */
+    event HolderBurnableSet(uint256 id, address holder, bool burnable);
+
+    /**
+     * @dev Emitted when `whitelistAddress` is added to or removed from the whitelist of `id`.
+     */
+    event TransferWhitelistSet(
+        uint256 id,
+        address whitelistAddress,
+        bool isWhitelisted
+    );
+
+    /**
+     * @dev Emitted when the controller of `id` is changed.
+     */
+    event ControllerChanged(
+        uint256 id,
+        address previousController,
+        address newController
+    );
+
+    /**
+     * @dev Emitted when the collection controller is changed.
+     */
+    event CollectionControllerChanged(
+        address previousController,
+        address newController
+    );
+
+    /**
+     * @dev Checks if id has been minted and not entirely burned.
+     */
+    function exists(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Adds to id dependency on CTID from contract CTContractAddress.
+     * @dev An id can be transfered or burned only if all the tokens it depends on are transferable or burnable, correspondingly.
+     * @dev The caller must be the controller of id.
+     * @dev CTContractAddress must support ICommanderToken or ICommanderToken1155 (checked with ERC165), and CTID must exist.
+     */
+    function setDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) external;
+
+    /**
+     * @dev Removes from id the dependency on CTID from contract CTContractAddress.
+     */
+    function removeDependence(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) external;
+
+    /**
+     * @dev Checks if id depends on CTID from CTContractAddress.
+     **/
+    function isDependent(
+        uint256 id,
+        address CTContractAddress,
+        uint256 CTID
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns the maximal length of a chain of dependencies starting at an id.
+     **/
+    function maxDependenceDepth() external view returns (uint256);
+
+    /**
+     * @dev Returns the number of tokens id depends on.
+     **/
+    function getDependenciesCount(uint256 id) external view returns (uint256);
+
+    /**
+     * @dev Returns up to 'limit' of the tokens id depends on, starting from index 'offset'.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     **/
+    function getDependencies(
+        uint256 id,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256[] memory);
+
+    /**
+     * @dev Sets the transferable property of id.
+     **/
+    function setTransferable(uint256 id, bool transferable) external;
+
+    /**
+     * @dev Sets the burnable property of id.
+     **/
+    function setBurnable(uint256 id, bool burnable) external;
+
+    /**
+     * @dev Sets the transferable property of id for holder only, on top of the transferable property of id.
+     **/
+    function setHolderTransferable(
+        uint256 id,
+        address holder,
+        bool transferable
+    ) external;
+
+    /**
+     * @dev Sets the burnable property of id for holder only, on top of the burnable property of id.
+     **/
+    function setHolderBurnable(
+        uint256 id,
+        address holder,
+        bool burnable
+    ) external;
+
+    /**
+     * @dev Checks the transferable property of id (only of the id itself, not of its dependencies or holders).
+     **/
+    function isTransferable(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Checks the burnable property of id (only of the id itself, not of its dependencies or holders).
+     **/
+    function isBurnable(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Checks the transferable property of id for holder (only the one set for holder).
+     **/
+    function isHolderTransferable(
+        uint256 id,
+        address holder
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks the burnable property of id for holder (only the one set for holder).
+     **/
+    function isHolderBurnable(
+        uint256 id,
+        address holder
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if all the tokens that id depends on are transferable (only of the dependencies, not of the id).
+     **/
+    function isDependentTransferable(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Checks if all the tokens that id depends on are burnable (only of the dependencies, not of the id).
+     **/
+    function isDependentBurnable(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Checks if id can be transferred (meaning, both the id itself and all of its dependencies are transferable).
+     **/
+    function isTokenTransferable(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Checks if id can be burned (meaning, both the id itself and all of its dependencies are burnable).
+     **/
+    function isTokenBurnable(uint256 id) external view returns (bool);
+
+    /**
+     * @dev Returns the address controlling the restrictions of id: its own controller if set,
+     * @dev or otherwise the collection controller.
+     **/
+    function controllerOf(uint256 id) external view returns (address);
+
+    /**
+     * @dev Returns the address controlling the restrictions of ids without a controller of their own.
+     **/
+    function collectionController() external view returns (address);
+
+    /**
+     * @dev Sets the controller of id, or removes it if newController is the zero address.
+     * @dev Only the current controller of id can call it.
+     **/
+    function setController(uint256 id, address newController) external;
+
+    /**
+     * @dev Hands over the control of the collection. Only the current collection controller can call it.
+     **/
+    function setCollectionController(address newController) external;
+
+    /**
+     * @dev Adds or removes an address from the whitelist of id.
+     * @dev id can be transferred to whitelisted addresses even when it is set to be nontransferable.
+     **/
+    function setTransferWhitelist(
+        uint256 id,
+        address whitelistAddress,
+        bool isWhitelisted
+    ) external;
+
+    /**
+     * @dev Checks if an address is whitelisted.
+     **/
+    function isAddressWhitelisted(
+        uint256 id,
+        address whitelistAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns all the addresses in the whitelist of id.
+     **/
+    function getWhitelistedAddresses(
+        uint256 id
+    ) external view returns (address[] memory);
+
+    /**
+     * @dev Checks if id can be transferred to transferToAddress, without taking its dependence into consideration.
+     **/
+    function isTransferableToAddress(
+        uint256 id,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if all the dependences of id can be transferred to transferToAddress.
+     **/
+    function isDependentTransferableToAddress(
+        uint256 id,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if id can be transferred to transferToAddress (meaning, the id itself and all of its dependencies allow it).
+     **/
+    function isTokenTransferableToAddress(
+        uint256 id,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if the balance of `from` in id can be transferred to transferToAddress,
+     * @dev (meaning, the id itself, its restrictions for `from` and all of its dependencies allow it).
+     **/
+    function isTokenTransferableFromToAddress(
+        uint256 id,
+        address from,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if the balance of `from` in id can be burned,
+     * @dev (meaning, the id itself, its restrictions for `from` and all of its dependencies allow it).
+     **/
+    function isTokenBurnableFrom(
+        uint256 id,
+        address from
+    ) external view returns (bool);
+
+    /**
+     * @dev Explains why id can't be transferred to transferToAddress.
+     * @dev Returns the path from id, through its dependencies, to the token that blocks the transfer,
+     * @dev or an empty array if id is transferable to transferToAddress.
+     **/
+    function whyNotTransferable(
+        uint256 id,
+        address transferToAddress
+    ) external view returns (ICommanderToken.BlockingToken[] memory);
+
+    /**
+     * @dev Explains why id can't be burned.
+     * @dev Returns the path from id, through its dependencies, to the token that blocks the burn,
+     * @dev or an empty array if id is burnable.
+     **/
+    function whyNotBurnable(
+        uint256 id
+    ) external view returns (ICommanderToken.BlockingToken[] memory);
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+// Interface of ERC-4494: permits for ERC721 tokens, see https://eips.ethereum.org/EIPS/eip-4494
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+/**
+ * @dev ERC-4494 extends ERC721 with approvals by signed messages, so the owner of a token
+ * @dev doesn't need to send a transaction (or hold ETH) to approve it.
+ * @dev The ERC165 interface ID of ERC-4494 is 0x5604e225.
+ */
+interface IERC4494 is IERC165 {
+    /**
+     * @dev Approves spender to use tokenId, given a signature of the owner of tokenId over
+     * @dev Permit(address spender,uint256 tokenId,uint256 nonce,uint256 deadline).
+     */
+    function permit(
+        address spender,
+        uint256 tokenId,
+        uint256 deadline,
+        bytes memory sig
+    ) external;
+
+    /**
+     * @dev Returns the current nonce of tokenId, which must be included in the next signature of tokenId.
+     * @dev The nonce is incremented on every use of a signature and on every transfer of the token.
+     */
+    function nonces(uint256 tokenId) external view returns (uint256);
+
+    /**
+     * @dev Returns the EIP-712 domain separator of the signatures.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+// Interface of ERC-5192: minimal soulbound NFTs, see https://eips.ethereum.org/EIPS/eip-5192
+
+pragma solidity >=0.8.17;
+
+/**
+ * @dev ERC-5192 lets wallets and marketplaces know if a token is soulbound, i.e. can't be transferred.
+ * @dev Note that "locked" in ERC-5192 means nontransferable, which is unrelated to locking a Locked Token
+ * @dev to another token (see {ILockedToken-isLocked}).
+ * @dev The ERC165 interface ID of ERC-5192 is 0xb45a3c0e.
+ */
+interface IERC5192 {
+    /**
+     * @dev Emitted when the locking status of `tokenId` changes to locked.
+     */
+    event Locked(uint256 tokenId);
+
+    /**
+     * @dev Emitted when the locking status of `tokenId` changes to unlocked.
+     */
+    event Unlocked(uint256 tokenId);
+
+    /**
+     * @dev Returns the locking status of tokenId, true if it is soulbound.
+     */
+    function locked(uint256 tokenId) external view returns (bool);
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+// Interface for a contract that renders the metadata of the tokens of other contracts
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+/**
+ * @title Metadata Renderer
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A Metadata Renderer builds the token URIs of a collection on-chain, so one renderer can serve
+ * @dev many collections. A collection returns the output of its renderer from tokenURI.
+ */
+interface IMetadataRenderer is IERC165 {
+    /**
+     * @dev Returns the token URI of tokenID from tokensCollection.
+     */
+    function tokenURI(
+        address tokensCollection,
+        uint256 tokenID
+    ) external view returns (string memory);
+}
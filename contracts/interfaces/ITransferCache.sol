@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+// Interface for a Commander Token collection that caches the transferability of its unrestricted tokens
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+/**
+ * @title Transfer Cache
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Checking the transferability of a token walks all the tokens it depends on, directly or indirectly,
+ * @dev so its gas grows with its dependency tree. A transfer cache records that a token and its whole
+ * @dev dependency tree are unrestricted: transferable, inside their transferable schedules and without transfer
+ * @dev policies, so the token is transferable to any address. Instead of the restrictions of the tokens of the
+ * @dev tree, the cache holds their restrictions epochs (see {ICommanderToken-restrictionsEpoch}), and is valid
+ * @dev while none of them changes and none of the schedules ends, which is checked by reading the epochs.
+ * @dev A cache is built from the caches of the dependencies, so the caches of a tree are built from its leaves.
+ */
+interface ITransferCache is IERC165 {
+    /**
+     * @dev Thrown when the transferability of tokenID can't be cached, because CTID from CTContractAddress,
+     * @dev which is tokenID itself or one of its dependencies, is restricted or doesn't have a valid cache.
+     */
+    error UncacheableTransferability(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    );
+
+    /**
+     * @dev Emitted when the transfer cache of tokenID is updated, validUntil is the end of the earliest
+     * @dev transferable schedule in its dependency tree, or the maximal uint64 if no schedule ends.
+     */
+    event TransferCacheUpdated(uint256 tokenID, uint64 validUntil);
+
+    /**
+     * @dev Caches that tokenID and all the tokens it depends on are unrestricted. Anyone can call it.
+     * @dev The dependencies of tokenID must be in collections that support ITransferCache, and have valid caches.
+     */
+    function updateTransferCache(uint256 tokenID) external;
+
+    /**
+     * @dev Checks if the transfer cache of tokenID is valid, meaning tokenID is transferable to any address.
+     */
+    function isTransferCacheValid(uint256 tokenID) external view returns (bool);
+
+    /**
+     * @dev Returns the transfer cache of tokenID: the time it ends, and the tokens of its dependency tree, as the
+     * @dev arrays of their collections and IDs, with their restrictions epochs when it was updated.
+     */
+    function getTransferCache(
+        uint256 tokenID
+    )
+        external
+        view
+        returns (uint64, address[] memory, uint256[] memory, uint256[] memory);
+}
@@ -0,0 +1,266 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "../interfaces/IMetadataRenderer.sol";
+import "../interfaces/ICommanderToken.sol";
+import "../interfaces/ILockedToken.sol";
+import "../utils/AddressesOrNFTs.sol";
+import {IERC721Metadata} from "@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata.sol";
+import {ERC165} from "@openzeppelin/contracts/utils/introspection/ERC165.sol";
+import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+
+// the JSON is built from single-quoted strings, which prettier prefers to double-quoted strings with escaped quotes
+// solhint-disable quotes
+
+/**
+ * @title Restrictions renderer
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Renders the restrictions of a token as a JSON data URI, so explorers can show them without indexing.
+ * @dev For a Commander Token it renders whether the token is transferable and burnable, its dependencies
+ * @dev and its whitelist, and for a Locked Token the token it is locked to. A collection that is both gets both.
+ * @dev Tokens and NFTs, including those with ID 0, are written as "contract:tokenID", see {AddressesOrNFTs-toString}.
+ */
+contract RestrictionsRenderer is IMetadataRenderer, ERC165 {
+    using AddressesOrNFTs for AddressesOrNFTs.AddressOrNFT;
+
+    bytes16 private constant _HEX_DIGITS = "0123456789abcdef";
+
+    /**
+     * @dev See {IMetadataRenderer-tokenURI}.
+     */
+    function tokenURI(
+        address tokensCollection,
+        uint256 tokenID
+    ) public view virtual override returns (string memory) {
+        return
+            string(
+                abi.encodePacked(
+                    "data:application/json;base64,",
+                    Base64.encode(bytes(tokenJSON(tokensCollection, tokenID)))
+                )
+            );
+    }
+
+    /**
+     * @dev Returns the metadata of tokenID from tokensCollection, before it is encoded into a data URI.
+     */
+    function tokenJSON(
+        address tokensCollection,
+        uint256 tokenID
+    ) public view virtual returns (string memory) {
+        bool isCommanderToken = ERC165Checker.supportsInterface(
+            tokensCollection,
+            type(ICommanderToken).interfaceId
+        );
+        bool isLockedToken = ERC165Checker.supportsInterface(
+            tokensCollection,
+            type(ILockedToken).interfaceId
+        );
+
+        string memory attributes = "";
+        string memory restrictions = "";
+
+        if (isCommanderToken) {
+            ICommanderToken CT = ICommanderToken(tokensCollection);
+            bool transferable = CT.isTokenTransferable(tokenID);
+            bool burnable = CT.isTokenBurnable(tokenID);
+
+            attributes = string(
+                abi.encodePacked(
+                    _attribute("Transferable", transferable),
+                    ",",
+                    _attribute("Burnable", burnable)
+                )
+            );
+            restrictions = string(
+                abi.encodePacked(
+                    ',"transferable":',
+                    _toString(transferable),
+                    ',"burnable":',
+                    _toString(burnable),
+                    ',"dependencies":',
+                    _dependencies(CT, tokenID),
+                    ',"whitelist":',
+                    _whitelist(CT, tokenID)
+                )
+            );
+        }
+
+        if (isLockedToken) {
+            (address LockingContract, uint256 LockingID) = ILockedToken(
+                tokensCollection
+            ).isLocked(tokenID);
+            bool locked = LockingContract != address(0);
+
+            attributes = string(
+                abi.encodePacked(
+                    attributes,
+                    isCommanderToken ? "," : "",
+                    _attribute("Locked", locked)
+                )
+            );
+            restrictions = string(
+                abi.encodePacked(
+                    restrictions,
+                    ',"lockedTo":',
+                    locked
+                        ? _quote(
+                            AddressesOrNFTs
+                                .fromNFT(LockingContract, LockingID)
+                                .toString()
+                        )
+                        : "null"
+                )
+            );
+        }
+
+        return
+            string(
+                abi.encodePacked(
+                    '{"name":',
+                    _quote(
+                        string(
+                            abi.encodePacked(
+                                IERC721Metadata(tokensCollection).name(),
+                                " #",
+                                Strings.toString(tokenID)
+                            )
+                        )
+                    ),
+                    ',"attributes":[',
+                    attributes,
+                    "]",
+                    restrictions,
+                    "}"
+                )
+            );
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    ) public view virtual override(ERC165, IERC165) returns (bool) {
+        return
+            interfaceID == type(IMetadataRenderer).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev Returns the tokens tokenID depends on, as a JSON array of strings.
+     */
+    function _dependencies(
+        ICommanderToken CT,
+        uint256 tokenID
+    ) internal view returns (string memory) {
+        (address[] memory contracts, uint256[] memory IDs) = CT.getDependencies(
+            tokenID,
+            0,
+            CT.getDependenciesCount(tokenID)
+        );
+
+        string[] memory entries = new string[](contracts.length);
+        for (uint256 i = 0; i < contracts.length; i++) {
+            entries[i] = AddressesOrNFTs
+                .fromNFT(contracts[i], IDs[i])
+                .toString();
+        }
+
+        return _array(entries);
+    }
+
+    /**
+     * @dev Returns the whitelisted addresses of tokenID followed by its whitelisted NFTs, as a JSON array of strings.
+     */
+    function _whitelist(
+        ICommanderToken CT,
+        uint256 tokenID
+    ) internal view returns (string memory) {
+        address[] memory addresses = CT.getWhitelistedAddresses(tokenID);
+        (address[] memory NFTContracts, uint256[] memory NFTIDs) = CT
+            .getWhitelistedNFTs(tokenID);
+
+        string[] memory entries = new string[](
+            addresses.length + NFTContracts.length
+        );
+        for (uint256 i = 0; i < addresses.length; i++) {
+            entries[i] = AddressesOrNFTs.fromAddress(addresses[i]).toString();
+        }
+        for (uint256 i = 0; i < NFTContracts.length; i++) {
+            entries[addresses.length + i] = AddressesOrNFTs
+                .fromNFT(NFTContracts[i], NFTIDs[i])
+                .toString();
+        }
+
+        return _array(entries);
+    }
+
+    /**
+     * @dev Returns a yes/no trait in the format explorers display.
+     */
+    function _attribute(
+        string memory traitType,
+        bool value
+    ) internal pure returns (string memory) {
+        return
+            string(
+                abi.encodePacked(
+                    '{"trait_type":"',
+                    traitType,
+                    '","value":"',
+                    value ? "Yes" : "No",
+                    '"}'
+                )
+            );
+    }
+
+    /**
+     * @dev Returns a JSON array of the strings in entries.
+     */
+    function _array(
+        string[] memory entries
+    ) internal pure returns (string memory) {
+        bytes memory array = "[";
+        for (uint256 i = 0; i < entries.length; i++) {
+            array = abi.encodePacked(
+                array,
+                i == 0 ? "" : ",",
+                _quote(entries[i])
+            );
+        }
+
+        return string(abi.encodePacked(array, "]"));
+    }
+
+    /**
+     * @dev Returns value as a JSON string, escaping its quotes and backslashes, and its control characters
+     * @dev as \u00XX, since JSON strings can't contain them.
+     */
+    function _quote(string memory value) internal pure returns (string memory) {
+        bytes memory input = bytes(value);
+        bytes memory output = '"';
+        for (uint256 i = 0; i < input.length; i++) {
+            uint8 char = uint8(input[i]);
+            if (char < 0x20)
+                output = abi.encodePacked(
+                    output,
+                    "\\u00",
+                    _HEX_DIGITS[char >> 4],
+                    _HEX_DIGITS[char & 0x0f]
+                );
+            else if (input[i] == '"' || input[i] == "\\")
+                output = abi.encodePacked(output, "\\", input[i]);
+            else output = abi.encodePacked(output, input[i]);
+        }
+
+        return string(abi.encodePacked(output, '"'));
+    }
+
+    function _toString(bool value) internal pure returns (string memory) {
+        return value ? "true" : "false";
+    }
+}
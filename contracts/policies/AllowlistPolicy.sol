@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./TransferPolicy.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title Allowlist policy
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Allows transfers only to addresses in an allowlist managed by the owner of the policy,
+ * @dev e.g., the members of a DAO.
+ */
+contract AllowlistPolicy is TransferPolicy, Ownable {
+    /**
+     * @dev Emitted when `account` is added to or removed from the allowlist.
+     */
+    event AllowlistSet(address account, bool isAllowed);
+
+    // the addresses tokens can be transferred to
+    mapping(address => bool) public isAllowlisted;
+
+    /**
+     * @dev Adds or removes an address from the allowlist.
+     */
+    function setAllowlisted(
+        address account,
+        bool isAllowed
+    ) public virtual onlyOwner {
+        isAllowlisted[account] = isAllowed;
+
+        emit AllowlistSet(account, isAllowed);
+    }
+
+    /**
+     * @dev Allows the transfer only if `to` is in the allowlist.
+     */
+    function isTransferAllowed(
+        address,
+        uint256,
+        address,
+        address to
+    ) public view virtual override returns (bool) {
+        return isAllowlisted[to];
+    }
+}
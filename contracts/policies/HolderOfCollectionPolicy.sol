@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./TransferPolicy.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+
+/**
+ * @title Holder of collection policy
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Allows transfers only to holders of at least one token of an ERC721 collection.
+ */
+contract HolderOfCollectionPolicy is TransferPolicy {
+    // the collection the recipient must hold a token of
+    IERC721 public immutable requiredCollection;
+
+    constructor(address requiredCollectionAddress) {
+        requiredCollection = IERC721(requiredCollectionAddress);
+    }
+
+    /**
+     * @dev Allows the transfer only if `to` holds a token of requiredCollection.
+     */
+    function isTransferAllowed(
+        address,
+        uint256,
+        address,
+        address to
+    ) public view virtual override returns (bool) {
+        return requiredCollection.balanceOf(to) > 0;
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "./TransferPolicy.sol";
+
+/**
+ * @title Max transfers policy
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Allows each token to be transferred at most maxTransfers times. Mints and burns are not counted.
+ */
+contract MaxTransfersPolicy is TransferPolicy {
+    // the number of transfers allowed for each token
+    uint256 public immutable maxTransfers;
+
+    // collection -> token ID -> the number of times the token was transferred
+    mapping(address => mapping(uint256 => uint256)) public transfersCount;
+
+    constructor(uint256 maxTransfers_) {
+        maxTransfers = maxTransfers_;
+    }
+
+    /**
+     * @dev Allows the transfer only if tokenID was transferred less than maxTransfers times.
+     */
+    function isTransferAllowed(
+        address tokensCollection,
+        uint256 tokenID,
+        address,
+        address
+    ) public view virtual override returns (bool) {
+        return transfersCount[tokensCollection][tokenID] < maxTransfers;
+    }
+
+    /**
+     * @dev Counts a transfer of tokenID in the calling collection.
+     */
+    function onTransfer(
+        uint256 tokenID,
+        address from,
+        address to
+    ) public virtual override {
+        if (from != address(0) && to != address(0))
+            transfersCount[msg.sender][tokenID]++;
+    }
+}
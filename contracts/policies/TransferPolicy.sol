@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity >=0.8.17;
+
+import "../interfaces/ITransferPolicy.sol";
+import {ERC165} from "@openzeppelin/contracts/utils/introspection/ERC165.sol";
+
+/**
+ * @title Transfer Policy base
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A base for Transfer Policies that allows everything, inherit it and override the rules you need.
+ */
+abstract contract TransferPolicy is ITransferPolicy, ERC165 {
+    /**
+     * @dev See {ITransferPolicy-isTransferAllowed}.
+     */
+    function isTransferAllowed(
+        address,
+        uint256,
+        address,
+        address
+    ) public view virtual override returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev See {ITransferPolicy-isBurnAllowed}.
+     */
+    function isBurnAllowed(
+        address,
+        uint256,
+        address
+    ) public view virtual override returns (bool) {
+        return true;
+    }
+
+    /**
+     * @dev See {ITransferPolicy-onTransfer}.
+     */
+    function onTransfer(uint256, address, address) public virtual override {}
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    ) public view virtual override(ERC165, IERC165) returns (bool) {
+        return
+            interfaceID == type(ITransferPolicy).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import {IERC721Receiver} from "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+
+contract ERC721ReceiverTest is IERC721Receiver {
+    event Received(
+        address collection,
+        address operator,
+        address from,
+        uint256 tokenID,
+        bytes data
+    );
+
+    // collection -> the token ID the receiver rejects, 0 for none
+    mapping(address => uint256) public rejectedTokens;
+
+    function setRejectedToken(address collection, uint256 tokenID) external {
+        rejectedTokens[collection] = tokenID;
+    }
+
+    function onERC721Received(
+        address operator,
+        address from,
+        uint256 tokenID,
+        bytes calldata data
+    ) external override returns (bytes4) {
+        require(
+            rejectedTokens[msg.sender] != tokenID,
+            "ERC721ReceiverTest: token rejected"
+        );
+
+        emit Received(msg.sender, operator, from, tokenID, data);
+        return IERC721Receiver.onERC721Received.selector;
+    }
+}
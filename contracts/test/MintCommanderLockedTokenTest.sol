@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../CommanderLockedToken.sol";
+
+contract MintCommanderLockedTokenTest is CommanderLockedToken {
+    constructor(
+        string memory name_,
+        string memory symbol_
+    ) CommanderLockedToken(name_, symbol_) {}
+
+    function mint(address to, uint256 tokenID) external {
+        // to do: change to _safeMint
+        _mint(to, tokenID);
+    }
+
+    function initCollectionController(address controller) external {
+        _setCollectionController(controller);
+    }
+
+    function setMetadataRenderer(address renderer) external {
+        _setMetadataRenderer(renderer);
+    }
+}
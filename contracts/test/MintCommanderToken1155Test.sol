@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../CommanderToken1155.sol";
+
+contract MintCommanderToken1155Test is CommanderToken1155 {
+    constructor(string memory uri_) CommanderToken1155(uri_) {}
+
+    function mint(address to, uint256 id, uint256 amount) external {
+        _mint(to, id, amount, "");
+    }
+
+    function mintBatch(
+        address to,
+        uint256[] memory ids,
+        uint256[] memory amounts
+    ) external {
+        _mintBatch(to, ids, amounts, "");
+    }
+
+    function setMaxDependenceDepth(uint256 maxDepth) external {
+        _setMaxDependenceDepth(maxDepth);
+    }
+
+    function initCollectionController(address controller) external {
+        _setCollectionController(controller);
+    }
+}
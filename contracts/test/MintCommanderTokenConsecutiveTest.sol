@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../extensions/CommanderTokenConsecutive.sol";
+
+contract MintCommanderTokenConsecutiveTest is CommanderTokenConsecutive {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        address[] memory receivers,
+        uint96[] memory amounts,
+        MintRestrictions memory restrictions
+    ) CommanderToken(name_, symbol_) {
+        for (uint256 i = 0; i < receivers.length; i++) {
+            _mintConsecutive(receivers[i], amounts[i], restrictions);
+        }
+    }
+
+    function mint(address to, uint256 tokenID) external {
+        _mint(to, tokenID);
+    }
+
+    function mintConsecutive(address to, uint96 batchSize) external {
+        _mintConsecutive(to, batchSize);
+    }
+}
@@ -13,4 +13,20 @@ contract MintCommanderTokenTest is CommanderToken {
         // to do: change to _safeMint
         _mint(to, tokenID);
     }
+
+    function setMaxDependenceDepth(uint256 maxDepth) external {
+        _setMaxDependenceDepth(maxDepth);
+    }
+
+    function initCollectionController(address controller) external {
+        _setCollectionController(controller);
+    }
+
+    function setBaseURI(string calldata baseURI) external {
+        _setBaseURI(baseURI);
+    }
+
+    function setMetadataRenderer(address renderer) external {
+        _setMetadataRenderer(renderer);
+    }
 }
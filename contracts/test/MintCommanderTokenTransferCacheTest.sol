@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../extensions/CommanderTokenTransferCache.sol";
+
+contract MintCommanderTokenTransferCacheTest is CommanderTokenTransferCache {
+    constructor(
+        string memory name_,
+        string memory symbol_
+    ) CommanderToken(name_, symbol_) {}
+
+    function mint(address to, uint256 tokenID) external {
+        _mint(to, tokenID);
+    }
+
+    function setMaxDependenceDepth(uint256 maxDepth) external {
+        _setMaxDependenceDepth(maxDepth);
+    }
+
+    function initCollectionController(address controller) external {
+        _setCollectionController(controller);
+    }
+}
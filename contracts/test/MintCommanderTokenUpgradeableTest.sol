@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../upgradeable/CommanderTokenUpgradeable.sol";
+
+contract MintCommanderTokenUpgradeableTest is CommanderTokenUpgradeable {
+    // disables the initializers of the implementation itself, so only proxies can be initialized
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_
+    ) external initializer {
+        __CommanderToken_init(name_, symbol_);
+    }
+
+    function mint(address to, uint256 tokenID) external {
+        _mint(to, tokenID);
+    }
+
+    function setMaxDependenceDepth(uint256 maxDepth) external {
+        _setMaxDependenceDepth(maxDepth);
+    }
+
+    function initCollectionController(address controller) external {
+        _setCollectionController(controller);
+    }
+
+    function setBaseURI(string calldata baseURI) external {
+        _setBaseURI(baseURI);
+    }
+
+    function setMetadataRenderer(address renderer) external {
+        _setMetadataRenderer(renderer);
+    }
+}
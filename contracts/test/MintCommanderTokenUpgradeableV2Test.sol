@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "./MintCommanderTokenUpgradeableTest.sol";
+
+// the next version of MintCommanderTokenUpgradeableTest, which adds a variable to the storage layout
+contract MintCommanderTokenUpgradeableV2Test is
+    MintCommanderTokenUpgradeableTest
+{
+    uint256 private _upgradeBlock;
+
+    function initializeV2() external reinitializer(2) {
+        _upgradeBlock = block.number;
+    }
+
+    function upgradeBlock() external view returns (uint256) {
+        return _upgradeBlock;
+    }
+}
@@ -13,4 +13,25 @@ contract MintLockedTokenTest is LockedToken {
         // to do: change to _safeMint
         _mint(to, tokenID);
     }
+
+    function mintLockedBatch(
+        uint256 firstTokenID,
+        uint256 count,
+        address LockingContract,
+        uint256 LockingID
+    ) external {
+        _mintLockedBatch(firstTokenID, count, LockingContract, LockingID);
+    }
+
+    function setMaxLockingDepth(uint256 maxDepth) external {
+        _setMaxLockingDepth(maxDepth);
+    }
+
+    function setBaseURI(string calldata baseURI) external {
+        _setBaseURI(baseURI);
+    }
+
+    function setMetadataRenderer(address renderer) external {
+        _setMetadataRenderer(renderer);
+    }
 }
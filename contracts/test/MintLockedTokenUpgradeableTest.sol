@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../upgradeable/LockedTokenUpgradeable.sol";
+
+contract MintLockedTokenUpgradeableTest is LockedTokenUpgradeable {
+    // disables the initializers of the implementation itself, so only proxies can be initialized
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_
+    ) external initializer {
+        __LockedToken_init(name_, symbol_);
+    }
+
+    function mint(address to, uint256 tokenID) external {
+        _mint(to, tokenID);
+    }
+
+    function mintLockedBatch(
+        uint256 firstTokenID,
+        uint256 count,
+        address LockingContract,
+        uint256 LockingID
+    ) external {
+        _mintLockedBatch(firstTokenID, count, LockingContract, LockingID);
+    }
+
+    function setMaxLockingDepth(uint256 maxDepth) external {
+        _setMaxLockingDepth(maxDepth);
+    }
+
+    function setBaseURI(string calldata baseURI) external {
+        _setBaseURI(baseURI);
+    }
+
+    function setMetadataRenderer(address renderer) external {
+        _setMetadataRenderer(renderer);
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "./MintLockedTokenUpgradeableTest.sol";
+
+// the next version of MintLockedTokenUpgradeableTest, which adds a variable to the storage layout
+contract MintLockedTokenUpgradeableV2Test is MintLockedTokenUpgradeableTest {
+    uint256 private _upgradeBlock;
+
+    function initializeV2() external reinitializer(2) {
+        _upgradeBlock = block.number;
+    }
+
+    function upgradeBlock() external view returns (uint256) {
+        return _upgradeBlock;
+    }
+}
@@ -0,0 +1,1869 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/CommanderToken.sol by `npx hardhat transpile`, edit that file instead.
+
+pragma solidity >=0.8.17;
+
+import "./interfaces/ICommanderTokenUpgradeable.sol";
+import "./interfaces/ICommanderToken1155Upgradeable.sol";
+import "./interfaces/ITransferPolicyUpgradeable.sol";
+import "./interfaces/IERC5192Upgradeable.sol";
+import "./interfaces/IERC5484Upgradeable.sol";
+import "./ERC721TokenURIUpgradeable.sol";
+import "./utils/AddressesOrNFTsUpgradeable.sol";
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import {AddressUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
+import {ERC165CheckerUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/introspection/ERC165CheckerUpgradeable.sol";
+import {MulticallUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/MulticallUpgradeable.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+/**
+ * @title Commander Token Reference Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Commander Tokens is an extension to ERC721 with the ability to create non-transferable or non-burnable tokens.
+ * @dev For this cause, we add a new mechanism enabling a token to depend on another token.
+ * @dev If Token A depends on B, then if Token B is nontransferable or unburnable, so does Token A.
+ * @dev If token B depedns on token A, we again call A a Commander Token (CT).
+ */
+contract CommanderTokenUpgradeable is
+    Initializable,
+    ICommanderTokenUpgradeable,
+    IERC5192Upgradeable,
+    IERC5484Upgradeable,
+    ERC721TokenURIUpgradeable,
+    MulticallUpgradeable
+{
+    using AddressUpgradeable for address;
+    using AddressesOrNFTsUpgradeable for AddressesOrNFTsUpgradeable.AddressOrNFT;
+
+    struct ExternalToken {
+        ICommanderTokenUpgradeable tokensCollection;
+        uint256 tokenID;
+    }
+
+    struct Token {
+        bool nontransferable;
+        bool nonburnable;
+        // The Commander Tokens this Token struct depends on
+        ExternalToken[] dependencies;
+        // A mapping to manage the indices of "dependencies"
+        mapping(address => mapping(uint256 => uint256)) dependenciesIndex;
+        // A whitelist of addresses the token can be transferred to regardless of the value of "nontransferable",
+        // and of NFTs whose owners the token can be transferred to
+        // Note: an address can be whitelisted but the token still won't be transferable to this address
+        // if it depends on a nontransferable token
+        AddressesOrNFTsUpgradeable.AddressOrNFT[] whitelist;
+        // A mapping to manage the indices of "whitelist", by the keys of its entries, see {AddressesOrNFTs-key}
+        mapping(bytes32 => uint256) whitelistIndex;
+        // The address controlling the restrictions of the token, overrides the collection controller
+        address controller;
+        // A policy adding rules to the transfers and burns of the token, on top of the collection policy
+        ITransferPolicyUpgradeable transferPolicy;
+        // The NFT owning the token, if the token is bound to one, see {bindToNFT}
+        AddressesOrNFTsUpgradeable.AddressOrNFT boundTo;
+        // The time windows in which the token is transferable or burnable
+        Schedule transferableSchedule;
+        Schedule burnableSchedule;
+        // The owner of the NFT who approved an address to manage the token while it is bound, as the approval lapses
+        // when the NFT changes hands, see {getApproved}
+        address boundApprover;
+    }
+
+    modifier approvedOrOwner(uint256 tokenID) virtual {
+        require(
+            _isApprovedOrOwner(msg.sender, tokenID),
+            "ERC721: caller is not token owner or approved"
+        );
+        _;
+    }
+
+    // verifies that the sender controls the restrictions of a token: its controller if
+    // it has one, or otherwise its owner (or an approved address)
+    modifier controllerOrOwner(uint256 tokenID) {
+        _checkControllerOrOwner(tokenID);
+        _;
+    }
+
+    bytes32 private constant _SET_DEPENDENCE_TYPEHASH =
+        keccak256(
+            "SetDependence(uint256 tokenID,address CTContractAddress,uint256 CTID,uint256 nonce,uint256 deadline)"
+        );
+
+    bytes32 private constant _SET_TRANSFER_WHITELIST_TYPEHASH =
+        keccak256(
+            "SetTransferWhitelist(uint256 tokenID,address whitelistAddress,bool isWhitelisted,uint256 nonce,uint256 deadline)"
+        );
+
+    // Token ID -> token's data
+    mapping(uint256 => Token) internal _tokens;
+
+    // The maximal length of a chain of dependencies, which bounds the gas of checking transferability
+    uint256 private _maxDependenceDepth;
+
+    // The address controlling the restrictions of all the tokens without a controller of their own
+    address private _collectionController;
+
+    // true only during a recovery transfer, which ignores transferability
+    bool private _recovering;
+
+    // A policy adding rules to the transfers and burns of all the tokens
+    ITransferPolicyUpgradeable private _collectionTransferPolicy;
+
+    // Increased on every change that may restrict the transfers of all the tokens, see {restrictionsEpoch}
+    uint256 private _restrictionsEpoch;
+
+    // Token ID -> increased on every change that may restrict the transfers of the token, see {restrictionsEpoch}.
+    // It isn't deleted when the token is burned, so a token that is minted again doesn't repeat its epochs
+    mapping(uint256 => uint256) private _tokenRestrictionsEpochs;
+
+    /**
+     * @dev Initializes the contract by setting a `name` and a `symbol` to the token collection.
+     */
+    function __CommanderToken_init(
+        string memory name,
+        string memory symbol
+    ) internal onlyInitializing {
+        __ERC721_init_unchained(name, symbol);
+        __EIP712_init_unchained(name, "1");
+        __ERC721Permit_init_unchained(name);
+        __CommanderToken_init_unchained(name, symbol);
+    }
+
+    function __CommanderToken_init_unchained(
+        string memory,
+        string memory
+    ) internal onlyInitializing {
+        _maxDependenceDepth = 10;
+    }
+
+    /**
+     * @dev Adds to tokenID dependency on CTID from contract CTContractAddress.
+     * @dev A token can be transfered or burned only if all the tokens it depends on are transferable or burnable, correspondingly.
+     * @dev The caller must be the owner, opertaor or approved to use tokenID.
+     * @dev CTContractAddress must support ICommanderToken or ICommanderToken1155 (checked with ERC165), and CTID must exist.
+     */
+    function setDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) public virtual override approvedOrOwner(tokenID) {
+        _checkDependence(tokenID, CTContractAddress, CTID);
+        _setDependence(tokenID, CTContractAddress, CTID);
+    }
+
+    /**
+     * @dev Same as {setDependence}, on behalf of the signer of an EIP-712 message
+     * @dev SetDependence(uint256 tokenID,address CTContractAddress,uint256 CTID,uint256 nonce,uint256 deadline),
+     * @dev where nonce is the current nonce of tokenID. The signer must be the owner, operator or approved to use tokenID.
+     */
+    function setDependenceWithSig(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID,
+        uint256 deadline,
+        bytes memory signature
+    ) public virtual override {
+        address signer = _useSignature(
+            tokenID,
+            keccak256(
+                abi.encode(
+                    _SET_DEPENDENCE_TYPEHASH,
+                    tokenID,
+                    CTContractAddress,
+                    CTID,
+                    nonces(tokenID),
+                    deadline
+                )
+            ),
+            deadline,
+            signature
+        );
+        if (!_isApprovedOrOwner(signer, tokenID))
+            revert UnauthorizedSigner(tokenID, signer);
+
+        _checkDependence(tokenID, CTContractAddress, CTID);
+        _setDependence(tokenID, CTContractAddress, CTID);
+    }
+
+    /**
+     * @dev Reverts if the sender doesn't control the restrictions of tokenID, see {controllerOrOwner}.
+     * @dev The check is a function rather than inlined in the modifier to keep the contract size down.
+     */
+    function _checkControllerOrOwner(uint256 tokenID) internal view virtual {
+        address controller = controllerOf(tokenID);
+        if (controller == address(0))
+            require(
+                _isApprovedOrOwner(msg.sender, tokenID),
+                "ERC721: caller is not token owner or approved"
+            );
+        else if (msg.sender != controller)
+            revert NotController(tokenID, msg.sender);
+    }
+
+    /**
+     * @dev Checks that CTID from CTContractAddress is an existing Commander Token of either standard, and that
+     * @dev making tokenID depend on it doesn't create a cycle or a too long chain of dependencies.
+     */
+    function _checkDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) internal view virtual {
+        // checks that CTID from CTContractAddress is an existing Commander Token, of either standard
+        bool exists;
+        if (
+            ERC165CheckerUpgradeable.supportsInterface(
+                CTContractAddress,
+                type(ICommanderToken1155Upgradeable).interfaceId
+            )
+        ) {
+            exists = ICommanderToken1155Upgradeable(CTContractAddress).exists(
+                CTID
+            );
+        } else if (
+            ERC165CheckerUpgradeable.supportsInterface(
+                CTContractAddress,
+                type(ICommanderTokenUpgradeable).interfaceId
+            )
+        ) {
+            try IERC721Upgradeable(CTContractAddress).ownerOf(CTID) returns (
+                address
+            ) {
+                exists = true;
+            } catch {}
+        } else {
+            revert NotCommanderToken(CTContractAddress);
+        }
+        if (!exists) revert NonexistentCommanderToken(CTContractAddress, CTID);
+
+        // checks that the new dependency doesn't create a cycle or a too long chain of dependencies
+        _checkDependencePath(
+            tokenID,
+            CTContractAddress,
+            CTID,
+            ICommanderTokenUpgradeable(CTContractAddress),
+            CTID,
+            1
+        );
+    }
+
+    /**
+     * @dev Adds to tokenID dependency on CTID from contract CTContractAddress, without checking
+     * @dev that CTContractAddress is a Commander Token and that CTID exists.
+     * @dev Use it only for contracts that implement the functions of ICommanderToken without supporting
+     * @dev its ERC165 interface (e.g., older versions of Commander Token).
+     * @dev Warning: dependence cycles and the maximal dependence depth are not checked either.
+     * @dev The caller must be the owner, opertaor or approved to use tokenID.
+     */
+    function setDependenceUnsafe(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) public virtual override approvedOrOwner(tokenID) {
+        _setDependence(tokenID, CTContractAddress, CTID);
+    }
+
+    /**
+     * @dev Adds to tokenID dependency on CTID from contract CTContractAddress, without any checks
+     * @dev except that the dependency doesn't exist already.
+     */
+    function _setDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) internal virtual {
+        // checks that tokenID is not dependent already on CTID
+        require(
+            _tokens[tokenID].dependenciesIndex[CTContractAddress][CTID] == 0,
+            "Commander Token: tokenID already depends on CTid from CTContractAddress"
+        );
+
+        bool wasLocked = !isTokenTransferable(tokenID);
+
+        // creates ExternalToken variable to express the new dependency
+        ExternalToken memory newDependency;
+        newDependency.tokensCollection = ICommanderTokenUpgradeable(
+            CTContractAddress
+        );
+        newDependency.tokenID = CTID;
+
+        // saves the index of the new dependency
+        // we need to add '1' to the index since the first index is '0', but '0' is also
+        // the default value of uint256, so if we add '1' in
+        // order to differentiate the first index from an empty mapping entry.
+        _tokens[tokenID].dependenciesIndex[CTContractAddress][CTID] =
+            _tokens[tokenID].dependencies.length +
+            1;
+
+        // adds dependency
+        _tokens[tokenID].dependencies.push(newDependency);
+
+        emit NewDependence(tokenID, CTContractAddress, CTID);
+
+        _updateLockStatus(tokenID, wasLocked);
+    }
+
+    /**
+     * @dev Removes from tokenID the dependency on CTID from contract CTContractAddress.
+     */
+    function removeDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) public virtual override {
+        // casts CTContractAddress to type ICommanderToken
+        ICommanderTokenUpgradeable CTContract = ICommanderTokenUpgradeable(
+            CTContractAddress
+        );
+
+        // CTContractAddress can always remove the dependency, but the owner
+        // of tokenID can remove it only if CTID is transferable & burnable
+        require(
+            (_isApprovedOrOwner(msg.sender, tokenID) &&
+                CTContract.isTransferable(CTID) &&
+                CTContract.isBurnable(CTID)) ||
+                (msg.sender == CTContractAddress),
+            "Commander Token: sender is not permitted to remove dependency"
+        );
+
+        // checks that tokenID is indeed dependent on CTID
+        require(
+            _tokens[tokenID].dependenciesIndex[CTContractAddress][CTID] > 0,
+            "Commander Token: tokenID is not dependent on CTid from contract CTContractAddress"
+        );
+
+        bool wasLocked = !isTokenTransferable(tokenID);
+
+        // gets the index of the token we are about to remove from dependencies
+        // we remove '1' because we added '1' when saving the index in setDependence,
+        // see the comment in setDependence for an explanation
+        uint256 dependencyIndex = _tokens[tokenID].dependenciesIndex[
+            CTContractAddress
+        ][CTID] - 1;
+
+        // clears dependenciesIndex for this token
+        delete _tokens[tokenID].dependenciesIndex[CTContractAddress][CTID];
+
+        // removes dependency: copy the last element of the array to the place of
+        // what was removed, then remove the last element from the array
+        uint256 lastDependecyIndex = _tokens[tokenID].dependencies.length - 1;
+        if (dependencyIndex != lastDependecyIndex) {
+            ExternalToken memory lastDependency = _tokens[tokenID].dependencies[
+                lastDependecyIndex
+            ];
+            _tokens[tokenID].dependencies[dependencyIndex] = lastDependency;
+
+            // the last element moved, so update its index
+            _tokens[tokenID].dependenciesIndex[
+                address(lastDependency.tokensCollection)
+            ][lastDependency.tokenID] = dependencyIndex + 1;
+        }
+        _tokens[tokenID].dependencies.pop();
+
+        emit RemovedDependence(tokenID, CTContractAddress, CTID);
+
+        _updateLockStatus(tokenID, wasLocked);
+    }
+
+    /**
+     * @dev Checks if tokenID depends on CTID from CTContractAddress.
+     **/
+    function isDependent(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) public view virtual override returns (bool) {
+        return
+            _tokens[tokenID].dependenciesIndex[CTContractAddress][CTID] > 0
+                ? true
+                : false;
+    }
+
+    /**
+     * @dev Returns the maximal length of a chain of dependencies starting at a token.
+     **/
+    function maxDependenceDepth()
+        public
+        view
+        virtual
+        override
+        returns (uint256)
+    {
+        return _maxDependenceDepth;
+    }
+
+    /**
+     * @dev Sets the maximal length of a chain of dependencies starting at a token.
+     * @dev Only new dependencies are checked against it.
+     **/
+    function _setMaxDependenceDepth(uint256 maxDepth) internal virtual {
+        _maxDependenceDepth = maxDepth;
+    }
+
+    /**
+     * @dev Walks the dependencies of CTID from CTContract, which is 'depth' steps away from tokenID
+     * @dev in the dependency tree tokenID will have after depending on newCTID from newCTContractAddress.
+     * @dev Reverts if tokenID is reachable (a cycle), or if the walk goes deeper than maxDependenceDepth.
+     * @dev Note: only the chains starting at tokenID are checked, not those of the tokens depending on it.
+     **/
+    function _checkDependencePath(
+        uint256 tokenID,
+        address newCTContractAddress,
+        uint256 newCTID,
+        ICommanderTokenUpgradeable CTContract,
+        uint256 CTID,
+        uint256 depth
+    ) internal view virtual {
+        if (address(CTContract) == address(this) && CTID == tokenID)
+            revert DependenceCycle(tokenID, newCTContractAddress, newCTID);
+
+        if (depth > maxDependenceDepth())
+            revert DependenceTooDeep(
+                tokenID,
+                newCTContractAddress,
+                newCTID,
+                maxDependenceDepth()
+            );
+
+        (address[] memory CTContracts, uint256[] memory CTIDs) = CTContract
+            .getDependencies(CTID, 0, type(uint256).max);
+
+        for (uint256 i = 0; i < CTContracts.length; i++) {
+            _checkDependencePath(
+                tokenID,
+                newCTContractAddress,
+                newCTID,
+                ICommanderTokenUpgradeable(CTContracts[i]),
+                CTIDs[i],
+                depth + 1
+            );
+        }
+    }
+
+    /**
+     * @dev Returns the number of tokens tokenID depends on.
+     **/
+    function getDependenciesCount(
+        uint256 tokenID
+    ) public view virtual override returns (uint256) {
+        return _tokens[tokenID].dependencies.length;
+    }
+
+    /**
+     * @dev Returns up to 'limit' of the tokens tokenID depends on, starting from index 'offset'.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     * @dev Note: the order of the dependencies changes when a dependency is removed.
+     **/
+    function getDependencies(
+        uint256 tokenID,
+        uint256 offset,
+        uint256 limit
+    )
+        public
+        view
+        virtual
+        override
+        returns (address[] memory, uint256[] memory)
+    {
+        ExternalToken[] storage dependencies = _tokens[tokenID].dependencies;
+
+        uint256 count = offset < dependencies.length
+            ? dependencies.length - offset
+            : 0;
+        if (count > limit) count = limit;
+
+        address[] memory CTContracts = new address[](count);
+        uint256[] memory CTIDs = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            CTContracts[i] = address(dependencies[offset + i].tokensCollection);
+            CTIDs[i] = dependencies[offset + i].tokenID;
+        }
+
+        return (CTContracts, CTIDs);
+    }
+
+    /**
+     * @dev Sets the transferable property of tokenID.
+     **/
+    function setTransferable(
+        uint256 tokenID,
+        bool transferable
+    ) public virtual override controllerOrOwner(tokenID) {
+        bool wasLocked = !isTokenTransferable(tokenID);
+
+        _tokens[tokenID].nontransferable = !transferable;
+
+        emit TransferableSet(tokenID, transferable);
+
+        _updateLockStatus(tokenID, wasLocked);
+    }
+
+    /**
+     * @dev Sets the burnable status of tokenID.
+     **/
+    function setBurnable(
+        uint256 tokenID,
+        bool burnable
+    ) public virtual override controllerOrOwner(tokenID) {
+        _tokens[tokenID].nonburnable = !burnable;
+
+        emit BurnableSet(tokenID, burnable);
+    }
+
+    /**
+     * @dev Sets the time window in which tokenID is transferable, 'end' of 0 means the window never ends.
+     * @dev Outside the window tokenID is nontransferable, inside it the transferable property applies.
+     **/
+    function setTransferableSchedule(
+        uint256 tokenID,
+        uint64 start,
+        uint64 end
+    ) public virtual override controllerOrOwner(tokenID) {
+        bool wasLocked = !isTokenTransferable(tokenID);
+
+        _tokens[tokenID].transferableSchedule = _validSchedule(start, end);
+
+        emit TransferableScheduleSet(tokenID, start, end);
+
+        _updateLockStatus(tokenID, wasLocked);
+    }
+
+    /**
+     * @dev Sets the time window in which tokenID is burnable, 'end' of 0 means the window never ends.
+     * @dev Outside the window tokenID is nonburnable, inside it the burnable property applies.
+     **/
+    function setBurnableSchedule(
+        uint256 tokenID,
+        uint64 start,
+        uint64 end
+    ) public virtual override controllerOrOwner(tokenID) {
+        _tokens[tokenID].burnableSchedule = _validSchedule(start, end);
+
+        emit BurnableScheduleSet(tokenID, start, end);
+    }
+
+    /**
+     * @dev Returns the time window in which tokenID is transferable.
+     **/
+    function getTransferableSchedule(
+        uint256 tokenID
+    ) public view virtual override returns (Schedule memory) {
+        return _tokens[tokenID].transferableSchedule;
+    }
+
+    /**
+     * @dev Returns the time window in which tokenID is burnable.
+     **/
+    function getBurnableSchedule(
+        uint256 tokenID
+    ) public view virtual override returns (Schedule memory) {
+        return _tokens[tokenID].burnableSchedule;
+    }
+
+    /**
+     * @dev Checks the transferable property of tokenID, including its transferable schedule
+     * @dev (only of the token itself, not of its dependencies).
+     **/
+    function isTransferable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        return
+            !_tokens[tokenID].nontransferable &&
+            _isInSchedule(_tokens[tokenID].transferableSchedule);
+    }
+
+    /**
+     * @dev Checks the burnable property of tokenID, including its burnable schedule
+     * @dev (only of the token itself, not of its dependencies).
+     **/
+    function isBurnable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        return
+            !_tokens[tokenID].nonburnable &&
+            _isInSchedule(_tokens[tokenID].burnableSchedule);
+    }
+
+    /**
+     * @dev Returns a schedule of the window [start, end), reverts if it ends before it starts.
+     **/
+    function _validSchedule(
+        uint64 start,
+        uint64 end
+    ) internal pure virtual returns (Schedule memory) {
+        if (end != 0 && end <= start) revert InvalidSchedule(start, end);
+
+        return Schedule(start, end);
+    }
+
+    /**
+     * @dev Checks if the current block is inside the window of schedule.
+     **/
+    function _isInSchedule(
+        Schedule storage schedule
+    ) internal view virtual returns (bool) {
+        return
+            block.timestamp >= schedule.start &&
+            (schedule.end == 0 || block.timestamp < schedule.end);
+    }
+
+    /**
+     * @dev Checks if all the tokens that tokenID depends on are transferable or not
+     * @dev (only of the dependencies, not of the token).
+     **/
+    function isDependentTransferable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[tokenID].dependencies.length; i++) {
+            ICommanderTokenUpgradeable CTContract = _tokens[tokenID]
+                .dependencies[i]
+                .tokensCollection;
+            uint256 CTID = _tokens[tokenID].dependencies[i].tokenID;
+            if (!CTContract.isTokenTransferable(CTID)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev Checks all the tokens that tokenID depends on are burnable
+     * @dev (only of the dependencies, not of the token).
+     **/
+    function isDependentBurnable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[tokenID].dependencies.length; i++) {
+            ICommanderTokenUpgradeable CTContract = _tokens[tokenID]
+                .dependencies[i]
+                .tokensCollection;
+            uint256 CTID = _tokens[tokenID].dependencies[i].tokenID;
+            if (!CTContract.isTokenBurnable(CTID)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev Checks if tokenID can be transferred
+     * @dev (meaning, both the token itself and all of its dependncies are transferable).
+     **/
+    function isTokenTransferable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        return isTransferable(tokenID) && isDependentTransferable(tokenID);
+    }
+
+    /**
+     * @dev Checks if tokenID can be burned.
+     * @dev (meaning, the token itself, its transfer policies and all of its dependncies are burnable).
+     **/
+    function isTokenBurnable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        return
+            isBurnable(tokenID) &&
+            isDependentBurnable(tokenID) &&
+            isPolicyBurnable(tokenID);
+    }
+
+    /*******************************************
+     * Soulbound functions (ERC-5192, 5484)    *
+     *******************************************/
+
+    /**
+     * @dev See {IERC5192-locked}, tokenID is locked if it isn't transferable, see {isTokenTransferable}.
+     * @dev A locked token may still be transferable to the addresses and NFT owners in its whitelist.
+     **/
+    function locked(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        _requireMinted(tokenID);
+        return !isTokenTransferable(tokenID);
+    }
+
+    /**
+     * @dev See {IERC5484-burnAuth}, the owner of tokenID can burn it only if it is burnable, see {isTokenBurnable}.
+     **/
+    function burnAuth(
+        uint256 tokenID
+    ) public view virtual override returns (BurnAuth) {
+        _requireMinted(tokenID);
+        return isTokenBurnable(tokenID) ? BurnAuth.OwnerOnly : BurnAuth.Neither;
+    }
+
+    /**
+     * @dev Emits {IERC5192-Locked} or {IERC5192-Unlocked} if the locking status of tokenID is not wasLocked anymore.
+     * @dev It is called by the functions that change the transferability of tokenID, so changes that come from
+     * @dev the dependencies of tokenID, or from the time reaching the start or end of its schedule, emit nothing.
+     * @dev It also increases the restrictions epoch of tokenID, see {restrictionsEpoch}.
+     **/
+    function _updateLockStatus(
+        uint256 tokenID,
+        bool wasLocked
+    ) internal virtual {
+        _increaseTokenRestrictionsEpoch(tokenID);
+
+        bool isNowLocked = !isTokenTransferable(tokenID);
+        if (isNowLocked == wasLocked) return;
+
+        if (isNowLocked) emit Locked(tokenID);
+        else emit Unlocked(tokenID);
+    }
+
+    /**
+     * @dev burns tokenID.
+     * @dev isTokenBurnable must return 'true'.
+     **/
+    function burn(
+        uint256 tokenID
+    ) public virtual override approvedOrOwner(tokenID) {
+        _burnCommanderToken(tokenID);
+    }
+
+    /**
+     * @dev Burns tokenID without checking the sender, for the use of inheriting contracts.
+     * @dev isTokenBurnable must return 'true'.
+     * @dev Its dependencies and whitelist are removed first, with the events of their removal.
+     **/
+    function _burnCommanderToken(uint256 tokenID) internal virtual {
+        if (!isTokenBurnable(tokenID))
+            revert BurnBlocked(tokenID, whyNotBurnable(tokenID));
+
+        // 'delete' in solidity doesn't work on mappings, so we delete the mapping items manually
+        for (uint i = 0; i < _tokens[tokenID].dependencies.length; i++) {
+            ExternalToken memory CT = _tokens[tokenID].dependencies[i];
+            delete _tokens[tokenID].dependenciesIndex[
+                address(CT.tokensCollection)
+            ][CT.tokenID];
+
+            emit RemovedDependence(
+                tokenID,
+                address(CT.tokensCollection),
+                CT.tokenID
+            );
+        }
+
+        for (uint i = 0; i < _tokens[tokenID].whitelist.length; i++) {
+            AddressesOrNFTsUpgradeable.AddressOrNFT memory entry = _tokens[
+                tokenID
+            ].whitelist[i];
+            delete _tokens[tokenID].whitelistIndex[entry.key()];
+
+            if (!entry.isNFT)
+                emit TransferWhitelistSet(
+                    tokenID,
+                    entry.addressOrNftContract,
+                    false
+                );
+            else
+                emit TransferWhitelistNFTSet(
+                    tokenID,
+                    entry.addressOrNftContract,
+                    entry.tokenID,
+                    false
+                );
+        }
+
+        // delete the rest, including the binding of a bound token, which this contract holds
+        delete _tokens[tokenID];
+
+        _burn(tokenID);
+    }
+
+    /**************************
+     * Controller functions   *
+     **************************/
+
+    /**
+     * @dev Returns the address controlling the restrictions of tokenID: its own controller if set,
+     * @dev or otherwise the collection controller. If neither is set, the owner controls them.
+     **/
+    function controllerOf(
+        uint256 tokenID
+    ) public view virtual override returns (address) {
+        address controller = _tokens[tokenID].controller;
+        return controller != address(0) ? controller : _collectionController;
+    }
+
+    /**
+     * @dev Returns the address controlling the restrictions of tokens without a controller of their own.
+     **/
+    function collectionController()
+        public
+        view
+        virtual
+        override
+        returns (address)
+    {
+        return _collectionController;
+    }
+
+    /**
+     * @dev Sets the controller of tokenID, or removes it if newController is the zero address.
+     * @dev Only the current controller of tokenID can call it, or its owner if it has no controller,
+     * @dev so an owner who hands over control can't take it back.
+     **/
+    function setController(
+        uint256 tokenID,
+        address newController
+    ) public virtual override controllerOrOwner(tokenID) {
+        emit ControllerChanged(
+            tokenID,
+            _tokens[tokenID].controller,
+            newController
+        );
+
+        _tokens[tokenID].controller = newController;
+    }
+
+    /**
+     * @dev Hands over the control of the collection. Only the current collection controller can call it.
+     **/
+    function setCollectionController(
+        address newController
+    ) public virtual override {
+        // the sender is never the zero address, so it also reverts when there is no collection controller
+        if (msg.sender != _collectionController)
+            revert NotCollectionController(msg.sender);
+
+        _setCollectionController(newController);
+    }
+
+    /**
+     * @dev Sets the collection controller without any checks, for the use of inheriting contracts.
+     **/
+    function _setCollectionController(address newController) internal virtual {
+        emit CollectionControllerChanged(_collectionController, newController);
+
+        _collectionController = newController;
+    }
+
+    /**
+     * @dev Transfers tokenID to `to` regardless of its transferability, its dependencies and its whitelist.
+     * @dev Only the controller of tokenID can call it, e.g. for a community recovering a soulbound token.
+     **/
+    function recover(uint256 tokenID, address to) public virtual override {
+        address controller = controllerOf(tokenID);
+        // the sender is never the zero address, so it also reverts when tokenID has no controller
+        if (msg.sender != controller) revert NotController(tokenID, msg.sender);
+
+        // a bound token is recovered from this contract, which holds it, see {bindToNFT}
+        address from = ERC721Upgradeable.ownerOf(tokenID);
+
+        _recovering = true;
+        _transfer(from, to, tokenID);
+        _recovering = false;
+
+        emit Recovered(tokenID, from, to);
+    }
+
+    /************************
+     * Whitelist functions  *
+     ************************/
+
+    /**
+     * @dev Adds or removes an address from the whitelist of tokenID.
+     * @dev tokenID can be transferred to whitelisted addresses even when its set to be nontransferable.
+     **/
+    function setTransferWhitelist(
+        uint256 tokenID,
+        address whitelistAddress,
+        bool isWhitelisted
+    ) public virtual override controllerOrOwner(tokenID) {
+        _setTransferWhitelist(tokenID, whitelistAddress, isWhitelisted);
+    }
+
+    /**
+     * @dev Same as {setTransferWhitelist}, on behalf of the signer of an EIP-712 message
+     * @dev SetTransferWhitelist(uint256 tokenID,address whitelistAddress,bool isWhitelisted,uint256 nonce,uint256 deadline),
+     * @dev where nonce is the current nonce of tokenID. The signer must control the restrictions of tokenID.
+     **/
+    function setTransferWhitelistWithSig(
+        uint256 tokenID,
+        address whitelistAddress,
+        bool isWhitelisted,
+        uint256 deadline,
+        bytes memory signature
+    ) public virtual override {
+        address signer = _useSignature(
+            tokenID,
+            keccak256(
+                abi.encode(
+                    _SET_TRANSFER_WHITELIST_TYPEHASH,
+                    tokenID,
+                    whitelistAddress,
+                    isWhitelisted,
+                    nonces(tokenID),
+                    deadline
+                )
+            ),
+            deadline,
+            signature
+        );
+
+        address controller = controllerOf(tokenID);
+        if (
+            controller == address(0)
+                ? !_isApprovedOrOwner(signer, tokenID)
+                : signer != controller
+        ) revert UnauthorizedSigner(tokenID, signer);
+
+        _setTransferWhitelist(tokenID, whitelistAddress, isWhitelisted);
+    }
+
+    /**
+     * @dev Adds or removes an address from the whitelist of tokenID without checking the sender.
+     **/
+    function _setTransferWhitelist(
+        uint256 tokenID,
+        address whitelistAddress,
+        bool isWhitelisted
+    ) internal virtual {
+        _setWhitelistEntry(
+            tokenID,
+            AddressesOrNFTsUpgradeable.fromAddress(whitelistAddress),
+            isWhitelisted
+        );
+
+        emit TransferWhitelistSet(tokenID, whitelistAddress, isWhitelisted);
+    }
+
+    /**
+     * @dev Adds or removes NFTID from NFTContract to the whitelist of tokenID.
+     * @dev tokenID can be transferred to the owner of a whitelisted NFT even when its set to be nontransferable.
+     **/
+    function setTransferWhitelistNFT(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID,
+        bool isWhitelisted
+    ) public virtual override controllerOrOwner(tokenID) {
+        if (isWhitelisted && !NFTContract.isContract())
+            revert NotNFT(NFTContract, NFTID);
+
+        _setWhitelistEntry(
+            tokenID,
+            AddressesOrNFTsUpgradeable.fromNFT(NFTContract, NFTID),
+            isWhitelisted
+        );
+
+        emit TransferWhitelistNFTSet(
+            tokenID,
+            NFTContract,
+            NFTID,
+            isWhitelisted
+        );
+    }
+
+    /**
+     * @dev Adds or removes an address or an NFT from the whitelist of tokenID.
+     **/
+    function _setWhitelistEntry(
+        uint256 tokenID,
+        AddressesOrNFTsUpgradeable.AddressOrNFT memory entry,
+        bool isWhitelisted
+    ) internal virtual {
+        Token storage token = _tokens[tokenID];
+        bytes32 entryKey = entry.key();
+        uint256 index = token.whitelistIndex[entryKey];
+
+        if (isWhitelisted && index == 0) {
+            // we add '1' to the index, see the comment in setDependence for an explanation
+            token.whitelist.push(entry);
+            token.whitelistIndex[entryKey] = token.whitelist.length;
+        } else if (!isWhitelisted && index > 0) {
+            // removes the entry: copy the last element of the array to the place of
+            // what was removed, then remove the last element from the array
+            AddressesOrNFTsUpgradeable.AddressOrNFT memory lastEntry = token
+                .whitelist[token.whitelist.length - 1];
+            token.whitelist[index - 1] = lastEntry;
+            token.whitelistIndex[lastEntry.key()] = index;
+            token.whitelist.pop();
+
+            delete token.whitelistIndex[entryKey];
+        }
+    }
+
+    /**
+     * @dev Checks if an address is whitelisted.
+     **/
+    function isAddressWhitelisted(
+        uint256 tokenID,
+        address whitelistAddress
+    ) public view virtual override returns (bool) {
+        return
+            _tokens[tokenID].whitelistIndex[
+                AddressesOrNFTsUpgradeable.fromAddress(whitelistAddress).key()
+            ] > 0;
+    }
+
+    /**
+     * @dev Checks if NFTID from NFTContract is whitelisted.
+     **/
+    function isNFTWhitelisted(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID
+    ) public view virtual override returns (bool) {
+        return
+            _tokens[tokenID].whitelistIndex[
+                AddressesOrNFTsUpgradeable.fromNFT(NFTContract, NFTID).key()
+            ] > 0;
+    }
+
+    /**
+     * @dev Checks if an address is the owner of one of the NFTs in the whitelist of tokenID.
+     * @dev Whitelisted NFTs that don't exist, e.g. were burned, are ignored.
+     **/
+    function isWhitelistedNFTOwner(
+        uint256 tokenID,
+        address owner
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[tokenID].whitelist.length; i++) {
+            AddressesOrNFTsUpgradeable.AddressOrNFT storage entry = _tokens[
+                tokenID
+            ].whitelist[i];
+            if (!entry.isNFT) continue;
+
+            try
+                IERC721Upgradeable(entry.addressOrNftContract).ownerOf(
+                    entry.tokenID
+                )
+            returns (address NFTOwner) {
+                if (NFTOwner == owner) return true;
+            } catch {}
+        }
+
+        return false;
+    }
+
+    /**
+     * @dev Returns all the addresses in the whitelist of tokenID.
+     **/
+    function getWhitelistedAddresses(
+        uint256 tokenID
+    ) public view virtual override returns (address[] memory) {
+        AddressesOrNFTsUpgradeable.AddressOrNFT[] storage whitelist = _tokens[
+            tokenID
+        ].whitelist;
+        address[] memory addresses = new address[](
+            whitelist.length - _countWhitelistedNFTs(tokenID)
+        );
+        uint256 count = 0;
+
+        for (uint256 i = 0; i < whitelist.length; i++) {
+            if (!whitelist[i].isNFT)
+                addresses[count++] = whitelist[i].addressOrNftContract;
+        }
+
+        return addresses;
+    }
+
+    /**
+     * @dev Returns all the NFTs in the whitelist of tokenID, as the arrays of their contracts and IDs.
+     **/
+    function getWhitelistedNFTs(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override
+        returns (address[] memory, uint256[] memory)
+    {
+        AddressesOrNFTsUpgradeable.AddressOrNFT[] storage whitelist = _tokens[
+            tokenID
+        ].whitelist;
+        uint256 NFTsCount = _countWhitelistedNFTs(tokenID);
+        address[] memory NFTContracts = new address[](NFTsCount);
+        uint256[] memory NFTIDs = new uint256[](NFTsCount);
+        uint256 count = 0;
+
+        for (uint256 i = 0; i < whitelist.length; i++) {
+            if (whitelist[i].isNFT) {
+                NFTContracts[count] = whitelist[i].addressOrNftContract;
+                NFTIDs[count++] = whitelist[i].tokenID;
+            }
+        }
+
+        return (NFTContracts, NFTIDs);
+    }
+
+    /**
+     * @dev Returns the number of NFTs in the whitelist of tokenID, the rest of its entries are addresses.
+     **/
+    function _countWhitelistedNFTs(
+        uint256 tokenID
+    ) internal view virtual returns (uint256 count) {
+        for (uint256 i = 0; i < _tokens[tokenID].whitelist.length; i++) {
+            if (_tokens[tokenID].whitelist[i].isNFT) count++;
+        }
+    }
+
+    /**
+     * @dev Checks if tokenID can be transferred to addressToTransferTo, without taking its dependence into consideration.
+     **/
+    function isTransferableToAddress(
+        uint256 tokenID,
+        address addressToTransferTo
+    ) public view virtual override returns (bool) {
+        // either token is transferable (to all addresses, and specifically to 'addressToTransferTo')
+        // or otherwise the address is whitelisted, or owns a whitelisted NFT
+        return (isTransferable(tokenID) ||
+            isAddressWhitelisted(tokenID, addressToTransferTo) ||
+            isWhitelistedNFTOwner(tokenID, addressToTransferTo));
+    }
+
+    /**
+     * @dev Checks if all the dependences of tokenID can be transferred to addressToTransferTo,
+     **/
+    function isDependentTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        for (uint256 i = 0; i < _tokens[tokenID].dependencies.length; i++) {
+            ICommanderTokenUpgradeable STContract = _tokens[tokenID]
+                .dependencies[i]
+                .tokensCollection;
+            uint256 STID = _tokens[tokenID].dependencies[i].tokenID;
+
+            if (
+                !STContract.isTokenTransferableToAddress(
+                    STID,
+                    transferToAddress
+                )
+            ) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * @dev Checks if tokenID can be transferred to addressToTransferTo,
+     * @dev (meaning, the token itself, its transfer policies and all of its dependencies allow it).
+     **/
+    function isTokenTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        return
+            isTransferableToAddress(tokenID, transferToAddress) &&
+            isPolicyTransferableToAddress(tokenID, transferToAddress) &&
+            isDependentTransferableToAddress(tokenID, transferToAddress);
+    }
+
+    /**
+     * @dev Returns a counter that increases on every change that may restrict the transfers of tokenID: of its
+     * @dev transferable property or schedule, its dependencies or its transfer policy, or of the collection policy.
+     * @dev While it and the epochs of its dependencies don't change, an unrestricted token stays unrestricted,
+     * @dev see {ITransferCache}.
+     **/
+    function restrictionsEpoch(
+        uint256 tokenID
+    ) public view virtual override returns (uint256) {
+        return _restrictionsEpoch + _tokenRestrictionsEpochs[tokenID];
+    }
+
+    /**
+     * @dev Increases the restrictions epoch of all the tokens, for the functions of inheriting contracts
+     * @dev that may restrict the transfers of all the tokens.
+     **/
+    function _increaseRestrictionsEpoch() internal virtual {
+        _restrictionsEpoch++;
+    }
+
+    /**
+     * @dev Increases the restrictions epoch of tokenID, for the functions of inheriting contracts
+     * @dev that may restrict its transfers.
+     **/
+    function _increaseTokenRestrictionsEpoch(uint256 tokenID) internal virtual {
+        _tokenRestrictionsEpochs[tokenID]++;
+    }
+
+    /************************************
+     * Token-bound ownership functions  *
+     ************************************/
+
+    /**
+     * @dev Binds tokenID to NFTID from NFTContract, so ownerOf(tokenID) is the owner of the NFT.
+     * @dev Binding is a transfer of tokenID to the owner of the NFT, which its restrictions must allow.
+     * @dev The contract holds the bound token, and the owner of the NFT (or its operators) can manage
+     * @dev it, or transfer it out of the contract, which unbinds it.
+     **/
+    function bindToNFT(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID
+    ) public virtual override approvedOrOwner(tokenID) {
+        require(
+            !_isBound(tokenID),
+            "Commander Token: tokenID is already bound to an NFT"
+        );
+
+        if (!NFTContract.isContract()) revert NotNFT(NFTContract, NFTID);
+
+        _checkBindingPath(tokenID, NFTContract, NFTID);
+
+        address from = ERC721Upgradeable.ownerOf(tokenID);
+        _tokens[tokenID].boundTo = AddressesOrNFTsUpgradeable.fromNFT(
+            NFTContract,
+            NFTID
+        );
+        _transfer(from, address(this), tokenID);
+
+        emit BoundToNFT(tokenID, NFTContract, NFTID);
+    }
+
+    /**
+     * @dev Unbinds tokenID from the NFT it is bound to, and transfers it to the owner of the NFT.
+     **/
+    function unbindFromNFT(
+        uint256 tokenID
+    ) public virtual override approvedOrOwner(tokenID) {
+        require(
+            _isBound(tokenID),
+            "Commander Token: tokenID is not bound to an NFT"
+        );
+
+        _transfer(address(this), ownerOf(tokenID), tokenID);
+    }
+
+    /**
+     * @dev Returns the NFT tokenID is bound to, or (address(0), 0) if it isn't bound.
+     **/
+    function boundNFTOf(
+        uint256 tokenID
+    ) public view virtual override returns (address, uint256) {
+        return (
+            _tokens[tokenID].boundTo.addressOrNftContract,
+            _tokens[tokenID].boundTo.tokenID
+        );
+    }
+
+    /**
+     * @dev Checks if tokenID is bound to an NFT.
+     **/
+    function _isBound(uint256 tokenID) internal view virtual returns (bool) {
+        return _tokens[tokenID].boundTo.addressOrNftContract != address(0);
+    }
+
+    /**
+     * @dev Checks that NFTID from NFTContract isn't owned by tokenID, through a chain of bound Commander Tokens,
+     * @dev otherwise the owner of tokenID can't be resolved.
+     **/
+    function _checkBindingPath(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID
+    ) internal view virtual {
+        address ownerContract = NFTContract;
+        uint256 ownerID = NFTID;
+
+        // every binding in the chain was checked when it was made, so the chain ends
+        while (ownerContract != address(0)) {
+            if (ownerContract == address(this) && ownerID == tokenID)
+                revert BindingCycle(tokenID, NFTContract, NFTID);
+
+            if (
+                !ERC165CheckerUpgradeable.supportsInterface(
+                    ownerContract,
+                    type(ICommanderTokenUpgradeable).interfaceId
+                )
+            ) return;
+
+            (ownerContract, ownerID) = ICommanderTokenUpgradeable(ownerContract)
+                .boundNFTOf(ownerID);
+        }
+    }
+
+    /******************************
+     * Transfer policy functions  *
+     ******************************/
+
+    /**
+     * @dev Attaches a transfer policy to tokenID, or detaches it if policy is the zero address.
+     * @dev The policy must support the ITransferPolicy interface.
+     **/
+    function setTransferPolicy(
+        uint256 tokenID,
+        address policy
+    ) public virtual override controllerOrOwner(tokenID) {
+        _tokens[tokenID].transferPolicy = _validTransferPolicy(policy);
+        _increaseTokenRestrictionsEpoch(tokenID);
+
+        emit TransferPolicySet(tokenID, policy);
+    }
+
+    /**
+     * @dev Attaches a transfer policy to the whole collection. Only the collection controller can call it.
+     **/
+    function setCollectionTransferPolicy(
+        address policy
+    ) public virtual override {
+        // the sender is never the zero address, so it also reverts when there is no collection controller
+        if (msg.sender != _collectionController)
+            revert NotCollectionController(msg.sender);
+
+        _setCollectionTransferPolicy(policy);
+    }
+
+    /**
+     * @dev Attaches a transfer policy to the whole collection without checking the sender,
+     * @dev for the use of inheriting contracts.
+     **/
+    function _setCollectionTransferPolicy(address policy) internal virtual {
+        _collectionTransferPolicy = _validTransferPolicy(policy);
+        _increaseRestrictionsEpoch();
+
+        emit CollectionTransferPolicySet(policy);
+    }
+
+    /**
+     * @dev Returns the transfer policy attached to tokenID.
+     **/
+    function transferPolicyOf(
+        uint256 tokenID
+    ) public view virtual override returns (address) {
+        return address(_tokens[tokenID].transferPolicy);
+    }
+
+    /**
+     * @dev Returns the transfer policy attached to the whole collection.
+     **/
+    function collectionTransferPolicy()
+        public
+        view
+        virtual
+        override
+        returns (address)
+    {
+        return address(_collectionTransferPolicy);
+    }
+
+    /**
+     * @dev Checks if the transfer policies of tokenID and of the collection allow transferring it
+     * @dev from its owner to transferToAddress.
+     **/
+    function isPolicyTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) public view virtual override returns (bool) {
+        return
+            _isPolicyAllowed(
+                _collectionTransferPolicy,
+                tokenID,
+                transferToAddress,
+                false
+            ) &&
+            _isPolicyAllowed(
+                _tokens[tokenID].transferPolicy,
+                tokenID,
+                transferToAddress,
+                false
+            );
+    }
+
+    /**
+     * @dev Checks if the transfer policies of tokenID and of the collection allow burning it.
+     **/
+    function isPolicyBurnable(
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        return
+            _isPolicyAllowed(
+                _collectionTransferPolicy,
+                tokenID,
+                address(0),
+                true
+            ) &&
+            _isPolicyAllowed(
+                _tokens[tokenID].transferPolicy,
+                tokenID,
+                address(0),
+                true
+            );
+    }
+
+    /**
+     * @dev Checks if policy allows burning tokenID, or transferring it from its owner to transferToAddress.
+     * @dev A token without a policy (the zero address) is allowed anything.
+     **/
+    function _isPolicyAllowed(
+        ITransferPolicyUpgradeable policy,
+        uint256 tokenID,
+        address transferToAddress,
+        bool isBurn
+    ) internal view virtual returns (bool) {
+        if (address(policy) == address(0)) return true;
+
+        address owner = _ownerOf(tokenID);
+        return
+            isBurn
+                ? policy.isBurnAllowed(address(this), tokenID, owner)
+                : policy.isTransferAllowed(
+                    address(this),
+                    tokenID,
+                    owner,
+                    transferToAddress
+                );
+    }
+
+    /**
+     * @dev Returns policy as ITransferPolicy, reverts if it's neither the zero address nor a transfer policy.
+     **/
+    function _validTransferPolicy(
+        address policy
+    ) internal view virtual returns (ITransferPolicyUpgradeable) {
+        if (
+            policy != address(0) &&
+            !ERC165CheckerUpgradeable.supportsInterface(
+                policy,
+                type(ITransferPolicyUpgradeable).interfaceId
+            )
+        ) revert NotTransferPolicy(policy);
+
+        return ITransferPolicyUpgradeable(policy);
+    }
+
+    /*****************************
+     * Explanations of blockings *
+     *****************************/
+
+    /**
+     * @dev Explains why tokenID can't be transferred to transferToAddress.
+     * @dev Returns the path from tokenID, through its dependencies, to the token that blocks the transfer,
+     * @dev or an empty array if tokenID is transferable to transferToAddress.
+     **/
+    function whyNotTransferable(
+        uint256 tokenID,
+        address transferToAddress
+    ) public view virtual override returns (BlockingToken[] memory) {
+        if (!isTransferableToAddress(tokenID, transferToAddress)) {
+            BlockReason reason = _tokens[tokenID].whitelist.length > 0
+                ? BlockReason.NotWhitelisted
+                : BlockReason.Nontransferable;
+
+            return
+                _prependBlockingToken(tokenID, reason, new BlockingToken[](0));
+        }
+
+        if (!isPolicyTransferableToAddress(tokenID, transferToAddress)) {
+            return
+                _prependBlockingToken(
+                    tokenID,
+                    BlockReason.Policy,
+                    new BlockingToken[](0)
+                );
+        }
+
+        // returns the path through the first dependency that blocks the transfer
+        for (uint256 i = 0; i < _tokens[tokenID].dependencies.length; i++) {
+            ICommanderTokenUpgradeable CTContract = _tokens[tokenID]
+                .dependencies[i]
+                .tokensCollection;
+            uint256 CTID = _tokens[tokenID].dependencies[i].tokenID;
+
+            if (
+                !CTContract.isTokenTransferableToAddress(
+                    CTID,
+                    transferToAddress
+                )
+            ) {
+                return
+                    _prependBlockingToken(
+                        tokenID,
+                        BlockReason.Dependency,
+                        CTContract.whyNotTransferable(CTID, transferToAddress)
+                    );
+            }
+        }
+
+        return new BlockingToken[](0);
+    }
+
+    /**
+     * @dev Explains why tokenID can't be burned.
+     * @dev Returns the path from tokenID, through its dependencies, to the token that blocks the burn,
+     * @dev or an empty array if tokenID is burnable.
+     **/
+    function whyNotBurnable(
+        uint256 tokenID
+    ) public view virtual override returns (BlockingToken[] memory) {
+        if (!isBurnable(tokenID)) {
+            return
+                _prependBlockingToken(
+                    tokenID,
+                    BlockReason.Nonburnable,
+                    new BlockingToken[](0)
+                );
+        }
+
+        if (!isPolicyBurnable(tokenID)) {
+            return
+                _prependBlockingToken(
+                    tokenID,
+                    BlockReason.Policy,
+                    new BlockingToken[](0)
+                );
+        }
+
+        // returns the path through the first dependency that blocks the burn
+        for (uint256 i = 0; i < _tokens[tokenID].dependencies.length; i++) {
+            ICommanderTokenUpgradeable CTContract = _tokens[tokenID]
+                .dependencies[i]
+                .tokensCollection;
+            uint256 CTID = _tokens[tokenID].dependencies[i].tokenID;
+
+            if (!CTContract.isTokenBurnable(CTID)) {
+                return
+                    _prependBlockingToken(
+                        tokenID,
+                        BlockReason.Dependency,
+                        CTContract.whyNotBurnable(CTID)
+                    );
+            }
+        }
+
+        return new BlockingToken[](0);
+    }
+
+    /**
+     * @dev Returns path with tokenID from this contract added at its beginning.
+     **/
+    function _prependBlockingToken(
+        uint256 tokenID,
+        BlockReason reason,
+        BlockingToken[] memory path
+    ) internal view virtual returns (BlockingToken[] memory) {
+        BlockingToken[] memory newPath = new BlockingToken[](path.length + 1);
+
+        newPath[0] = BlockingToken(address(this), tokenID, reason);
+        for (uint256 i = 0; i < path.length; i++) {
+            newPath[i + 1] = path[i];
+        }
+
+        return newPath;
+    }
+
+    /**********************
+     * Batch functions    *
+     **********************/
+
+    /**
+     * @dev Batch version of {setDependence}.
+     **/
+    function setDependenceBatch(
+        uint256[] calldata tokenIDs,
+        address[] calldata CTContractAddresses,
+        uint256[] calldata CTIDs
+    ) public virtual override {
+        require(
+            tokenIDs.length == CTContractAddresses.length &&
+                tokenIDs.length == CTIDs.length,
+            "Commander Token: the arrays have different lengths"
+        );
+
+        for (uint256 i = 0; i < tokenIDs.length; i++) {
+            setDependence(tokenIDs[i], CTContractAddresses[i], CTIDs[i]);
+        }
+    }
+
+    /**
+     * @dev Batch version of {setTransferable}.
+     **/
+    function setTransferableBatch(
+        uint256[] calldata tokenIDs,
+        bool[] calldata transferable
+    ) public virtual override {
+        require(
+            tokenIDs.length == transferable.length,
+            "Commander Token: the arrays have different lengths"
+        );
+
+        for (uint256 i = 0; i < tokenIDs.length; i++) {
+            setTransferable(tokenIDs[i], transferable[i]);
+        }
+    }
+
+    /**
+     * @dev Batch version of {setBurnable}.
+     **/
+    function setBurnableBatch(
+        uint256[] calldata tokenIDs,
+        bool[] calldata burnable
+    ) public virtual override {
+        require(
+            tokenIDs.length == burnable.length,
+            "Commander Token: the arrays have different lengths"
+        );
+
+        for (uint256 i = 0; i < tokenIDs.length; i++) {
+            setBurnable(tokenIDs[i], burnable[i]);
+        }
+    }
+
+    /**
+     * @dev Batch version of {setTransferWhitelist}.
+     **/
+    function setTransferWhitelistBatch(
+        uint256[] calldata tokenIDs,
+        address[] calldata whitelistAddresses,
+        bool[] calldata isWhitelisted
+    ) public virtual override {
+        require(
+            tokenIDs.length == whitelistAddresses.length &&
+                tokenIDs.length == isWhitelisted.length,
+            "Commander Token: the arrays have different lengths"
+        );
+
+        for (uint256 i = 0; i < tokenIDs.length; i++) {
+            setTransferWhitelist(
+                tokenIDs[i],
+                whitelistAddresses[i],
+                isWhitelisted[i]
+            );
+        }
+    }
+
+    /***********************************************
+     * Overrided functions from ERC165 and ERC721  *
+     ***********************************************/
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    )
+        public
+        view
+        virtual
+        override(ERC721PermitUpgradeable, IERC165Upgradeable)
+        returns (bool)
+    {
+        return
+            interfaceID == type(ICommanderTokenUpgradeable).interfaceId ||
+            interfaceID == type(IERC5192Upgradeable).interfaceId ||
+            interfaceID == type(IERC5484Upgradeable).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev Returns the owner of tokenID, which is the owner of the NFT tokenID is bound to, if it is bound to one.
+     */
+    function ownerOf(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override(ERC721Upgradeable, IERC721Upgradeable)
+        returns (address)
+    {
+        if (_isBound(tokenID))
+            return
+                IERC721Upgradeable(
+                    _tokens[tokenID].boundTo.addressOrNftContract
+                ).ownerOf(_tokens[tokenID].boundTo.tokenID);
+
+        return super.ownerOf(tokenID);
+    }
+
+    /**
+     * @dev See {IERC721-approve}, where the owner of the NFT a bound token is bound to, and its operators,
+     * @dev approve addresses to manage the bound token.
+     */
+    function approve(
+        address to,
+        uint256 tokenID
+    ) public virtual override(ERC721Upgradeable, IERC721Upgradeable) {
+        address owner = ownerOf(tokenID);
+        require(to != owner, "ERC721: approval to current owner");
+        require(
+            _msgSender() == owner || isApprovedForAll(owner, _msgSender()),
+            "ERC721: approve caller is not token owner or approved for all"
+        );
+
+        _approve(to, tokenID);
+    }
+
+    /**
+     * @dev Returns the address approved for tokenID. The approval of a bound token is given by the owner of its NFT,
+     * @dev and lapses when the NFT changes hands.
+     */
+    function getApproved(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override(ERC721Upgradeable, IERC721Upgradeable)
+        returns (address)
+    {
+        if (
+            _isBound(tokenID) &&
+            _tokens[tokenID].boundApprover != ownerOf(tokenID)
+        ) return address(0);
+
+        return super.getApproved(tokenID);
+    }
+
+    /**
+     * @dev Approves an address to manage tokenID, on behalf of the owner of the NFT if tokenID is bound to one.
+     * @dev Like its {Transfer} events, the {Approval} events of a bound token name this contract, which holds it,
+     * @dev as its owner.
+     */
+    function _approve(address to, uint256 tokenID) internal virtual override {
+        if (_isBound(tokenID))
+            _tokens[tokenID].boundApprover = ownerOf(tokenID);
+
+        super._approve(to, tokenID);
+    }
+
+    /**
+     * @dev Checks if spender can manage tokenID, where the owner of the NFT a bound token is bound to,
+     * @dev its operators, and the address it approved, can manage the bound token.
+     */
+    function _isApprovedOrOwner(
+        address spender,
+        uint256 tokenID
+    ) internal view virtual override returns (bool) {
+        address owner = ownerOf(tokenID);
+        return
+            spender == owner ||
+            isApprovedForAll(owner, spender) ||
+            getApproved(tokenID) == spender;
+    }
+
+    /**
+     * @dev Transfers tokenID, where a transfer of a bound token from the owner of its NFT is a transfer
+     * @dev from this contract, which holds the token, so the transfer unbinds it.
+     */
+    function _transfer(
+        address from,
+        address to,
+        uint256 tokenID
+    ) internal virtual override {
+        if (
+            ERC721Upgradeable.ownerOf(tokenID) == address(this) &&
+            from == ownerOf(tokenID)
+        ) from = address(this);
+
+        super._transfer(from, to, tokenID);
+    }
+
+    /**
+     * @dev Hook that is called before any token transfer. This includes minting and burning. If {ERC721Consecutive} is
+     * used, the hook may be called as part of a consecutive (batch) mint, as indicated by `batchSize` greater than 1.
+     *
+     * Calling conditions:
+     *
+     * - When `from` and `to` are both non-zero, ``from``'s tokens will be transferred to `to`.
+     * - When `from` is zero, the tokens will be minted for `to`.
+     * - When `to` is zero, ``from``'s tokens will be burned.
+     * - `from` and `to` are never both zero.
+     * - `batchSize` is non-zero.
+     *
+     * To learn more about hooks, head to xref:ROOT:extending-contracts.adoc#using-hooks[Using Hooks].
+     */
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 tokenID,
+        uint256 batchSize
+    ) internal virtual override {
+        super._beforeTokenTransfer(from, to, tokenID, batchSize);
+
+        // mints are not restricted, the initial restrictions of a token are set after it is minted. Burns are not
+        // transfers, so a nontransferable token may still be burned: they are checked by {_burnCommanderToken},
+        // with {isTokenBurnable}, which includes the burn checks of the transfer policies, and a bound token is
+        // burned by the owner of its NFT (see {_isApprovedOrOwner}). Only consecutive mints have a batchSize
+        // larger than 1, so a transfer is of tokenID alone
+        if (_recovering || from == address(0) || to == address(0)) return;
+
+        // a bound token is held by this contract for the owner of its NFT, so binding it is a transfer
+        // to the owner of the NFT, and unbinding it to the owner of the NFT doesn't change its owner
+        address recipient = to;
+        if (_isBound(tokenID)) {
+            if (to == address(this)) recipient = ownerOf(tokenID);
+            else if (from == address(this) && to == ownerOf(tokenID)) return;
+        }
+
+        // the blocking path is computed only when the transfer is blocked, to save gas
+        if (!isTokenTransferableToAddress(tokenID, recipient))
+            revert TransferBlocked(
+                tokenID,
+                recipient,
+                whyNotTransferable(tokenID, recipient)
+            );
+    }
+
+    /**
+     * @dev Hook that is called after any token transfer, see {_beforeTokenTransfer} for the calling conditions.
+     * @dev Notifies the transfer policies of the token and of the collection about the transfer.
+     */
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenID,
+        uint256 batchSize
+    ) internal virtual override {
+        super._afterTokenTransfer(from, to, firstTokenID, batchSize);
+
+        if (from == address(0))
+            emit Issued(_msgSender(), to, firstTokenID, burnAuth(firstTokenID));
+
+        // a transfer out of this contract unbinds a bound token
+        if (from == address(this) && _isBound(firstTokenID)) {
+            AddressesOrNFTsUpgradeable.AddressOrNFT storage NFT = _tokens[
+                firstTokenID
+            ].boundTo;
+            emit UnboundFromNFT(
+                firstTokenID,
+                NFT.addressOrNftContract,
+                NFT.tokenID,
+                to
+            );
+            delete _tokens[firstTokenID].boundTo;
+        }
+
+        _notifyTransferPolicy(
+            _collectionTransferPolicy,
+            firstTokenID,
+            from,
+            to
+        );
+
+        // the restrictions of a burned token, including its policy, were deleted by {_burnCommanderToken}
+        _notifyTransferPolicy(
+            _tokens[firstTokenID].transferPolicy,
+            firstTokenID,
+            from,
+            to
+        );
+    }
+
+    /**
+     * @dev Notifies policy about the transfer of tokenID, if it isn't the zero address.
+     **/
+    function _notifyTransferPolicy(
+        ITransferPolicyUpgradeable policy,
+        uint256 tokenID,
+        address from,
+        address to
+    ) internal virtual {
+        if (address(policy) != address(0)) policy.onTransfer(tokenID, from, to);
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[44] private __gap;
+}
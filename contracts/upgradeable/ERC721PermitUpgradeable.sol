@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/ERC721Permit.sol by `npx hardhat transpile`, edit that file instead.
+
+pragma solidity >=0.8.17;
+
+import "./interfaces/IERC4494Upgradeable.sol";
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import {IERC165Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/introspection/IERC165Upgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {ECDSAUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+/**
+ * @title ERC721 with signed messages
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Implements ERC-4494 permits, and the EIP-712 signatures of the "WithSig" functions of Commander Token
+ * @dev and Locked Token, which let a relayer send a transaction on behalf of a token owner without ETH.
+ * @dev Every signature includes the nonce of the token it's about and a deadline. The nonce of a token is
+ * @dev incremented on every use of a signature and on every transfer, which invalidates older signatures.
+ */
+abstract contract ERC721PermitUpgradeable is
+    Initializable,
+    IERC4494Upgradeable,
+    ERC721Upgradeable,
+    EIP712Upgradeable
+{
+    /**
+     * @dev Thrown when a signature is used after its deadline.
+     */
+    error SignatureExpired(uint256 deadline);
+
+    /**
+     * @dev Thrown when the signer of a message about tokenID isn't allowed to do what the message says.
+     */
+    error UnauthorizedSigner(uint256 tokenID, address signer);
+
+    bytes32 private constant _PERMIT_TYPEHASH =
+        keccak256(
+            "Permit(address spender,uint256 tokenId,uint256 nonce,uint256 deadline)"
+        );
+
+    // Token ID -> the nonce of the next signature about the token
+    mapping(uint256 => uint256) private _nonces;
+
+    /**
+     * @dev Initializes the EIP-712 domain with the `name` of the token collection and version "1".
+     */
+    function __ERC721Permit_init(string memory name) internal onlyInitializing {
+        __EIP712_init_unchained(name, "1");
+    }
+
+    function __ERC721Permit_init_unchained(
+        string memory
+    ) internal onlyInitializing {}
+
+    /**
+     * @dev See {IERC4494-permit}.
+     * @dev The signer must be the owner of tokenId or an operator of the owner.
+     */
+    function permit(
+        address spender,
+        uint256 tokenId,
+        uint256 deadline,
+        bytes memory sig
+    ) public virtual override {
+        address signer = _useSignature(
+            tokenId,
+            keccak256(
+                abi.encode(
+                    _PERMIT_TYPEHASH,
+                    spender,
+                    tokenId,
+                    nonces(tokenId),
+                    deadline
+                )
+            ),
+            deadline,
+            sig
+        );
+
+        address owner = ownerOf(tokenId);
+        if (signer != owner && !isApprovedForAll(owner, signer))
+            revert UnauthorizedSigner(tokenId, signer);
+
+        _approve(spender, tokenId);
+    }
+
+    /**
+     * @dev See {IERC4494-nonces}.
+     */
+    function nonces(
+        uint256 tokenId
+    ) public view virtual override returns (uint256) {
+        return _nonces[tokenId];
+    }
+
+    /**
+     * @dev See {IERC4494-DOMAIN_SEPARATOR}.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR()
+        external
+        view
+        virtual
+        override
+        returns (bytes32)
+    {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev Returns the signer of the EIP-712 message with structHash about tokenID, and increments the nonce of tokenID.
+     * @dev structHash must include the current nonce of tokenID, and the signature must be used before deadline.
+     * @dev The caller checks what the signer is allowed to do.
+     */
+    function _useSignature(
+        uint256 tokenID,
+        bytes32 structHash,
+        uint256 deadline,
+        bytes memory signature
+    ) internal virtual returns (address) {
+        // solhint-disable-next-line not-rely-on-time
+        if (block.timestamp > deadline) revert SignatureExpired(deadline);
+
+        _nonces[tokenID]++;
+
+        return
+            ECDSAUpgradeable.recover(_hashTypedDataV4(structHash), signature);
+    }
+
+    /**
+     * @dev Increments the nonce of the transferred token, so signatures of its previous owner can't be used.
+     */
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenID,
+        uint256 batchSize
+    ) internal virtual override {
+        super._afterTokenTransfer(from, to, firstTokenID, batchSize);
+
+        _nonces[firstTokenID]++;
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    )
+        public
+        view
+        virtual
+        override(ERC721Upgradeable, IERC165Upgradeable)
+        returns (bool)
+    {
+        return
+            interfaceID == type(IERC4494Upgradeable).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[49] private __gap;
+}
@@ -0,0 +1,867 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/LockedToken.sol by `npx hardhat transpile`, edit that file instead.
+
+pragma solidity >=0.8.17;
+
+import "./interfaces/ILockedTokenUpgradeable.sol";
+import "./interfaces/ICommanderTokenUpgradeable.sol";
+import "./ERC721TokenURIUpgradeable.sol";
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import {ERC165CheckerUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/introspection/ERC165CheckerUpgradeable.sol";
+import {MulticallUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/MulticallUpgradeable.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+/**
+ * @title Locked Token Reference Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Locked Tokens enable the automatic transfer of tokens.
+ * @dev If token A is locked to B, then:
+ * @dev 1. A cannot be transferred or burned unless B is transferred or burned, and,
+ * @dev 2. every transfer of B, also transfers A.
+ * @dev Locking is possible if and only if both tokens have the same owner.
+ * @dev LockedTokenBase leaves the ERC721 and ERC721Permit constructors to the inheriting contract, so it can be
+ * @dev combined with other ERC721 implementations, see {CommanderLockedToken}.
+ */
+abstract contract LockedTokenBaseUpgradeable is
+    Initializable,
+    ILockedTokenUpgradeable,
+    ERC721TokenURIUpgradeable,
+    MulticallUpgradeable
+{
+    struct ExternalLockedToken {
+        ILockedTokenUpgradeable tokensCollection;
+        uint256 tokenID;
+    }
+
+    struct LockedTokenData {
+        ExternalLockedToken[] lockedTokens; // array of tokens locked to this token
+        // A mapping to manage the indices of "lockedTokens"
+        mapping(address => mapping(uint256 => uint256)) lockingsIndex;
+        // 0 if this token is unlocked, or otherwise holds the information of the locking token
+        ExternalLockedToken locked;
+    }
+
+    // verifies that the sender owns a token
+    modifier approvedOrOwner(uint256 tokenID) virtual {
+        require(
+            _isApprovedOrOwner(msg.sender, tokenID),
+            "ERC721: caller is not token owner or approved"
+        );
+        _;
+    }
+
+    // verifies that two tokens have the same owner
+    modifier sameOwner(
+        uint256 token1ID,
+        address Token2ContractAddress,
+        uint256 Token2ID
+    ) {
+        require(
+            ERC721Upgradeable.ownerOf(token1ID) ==
+                ERC721Upgradeable(Token2ContractAddress).ownerOf(Token2ID),
+            "Locked Token: the tokens do not have the same owner"
+        );
+        _;
+    }
+
+    modifier onlyContract(address contractAddress) {
+        require(
+            contractAddress == msg.sender,
+            "Locked Token: transaction is not sent from the correct contract"
+        );
+        _;
+    }
+
+    modifier isApproveOwnerOrLockingContract(uint256 tokenID) {
+        _checkApproveOwnerOrLockingContract(tokenID);
+        _;
+    }
+
+    // Token ID -> token's data
+    mapping(uint256 => LockedTokenData) private _tokens;
+
+    // The maximal length of a chain of lockings, which bounds the gas of transferring and burning
+    uint256 private _maxLockingDepth;
+
+    // true only during a safe transfer, so the tokens locked to the transferred token are transferred safely too
+    bool private _safeTransferring;
+
+    bytes32 private constant _LOCK_TYPEHASH =
+        keccak256(
+            "Lock(uint256 tokenID,address LockingContract,uint256 LockingID,uint256 nonce,uint256 deadline)"
+        );
+
+    function __LockedTokenBase_init() internal onlyInitializing {
+        __LockedTokenBase_init_unchained();
+    }
+
+    function __LockedTokenBase_init_unchained() internal onlyInitializing {
+        _maxLockingDepth = 10;
+    }
+
+    /**
+     * @dev Locks tokenID CTID from contract CTContract. Both tokens must have the same owner.
+     * @dev
+     * @dev With such a lock in place, tokenID transfer and burn functions can't be called by
+     * @dev its owner as long as the locking is in place.
+     * @dev
+     * @dev If LockingID is transferred or burned, it also transfers or burns tokenID.
+     * @dev If tokenID is nontransferable or unburnable, then a call to the transfer or
+     * @dev burn function of the LockingID unlocks the tokenID.
+     */
+    function lock(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    ) public virtual override approvedOrOwner(tokenID) {
+        _lock(tokenID, LockingContract, LockingID);
+    }
+
+    /**
+     * @dev Same as {lock}, on behalf of the signer of an EIP-712 message
+     * @dev Lock(uint256 tokenID,address LockingContract,uint256 LockingID,uint256 nonce,uint256 deadline),
+     * @dev where nonce is the current nonce of tokenID. The signer must be the owner, operator or approved to use tokenID.
+     */
+    function lockWithSig(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID,
+        uint256 deadline,
+        bytes memory signature
+    ) public virtual override {
+        address signer = _useSignature(
+            tokenID,
+            keccak256(
+                abi.encode(
+                    _LOCK_TYPEHASH,
+                    tokenID,
+                    LockingContract,
+                    LockingID,
+                    nonces(tokenID),
+                    deadline
+                )
+            ),
+            deadline,
+            signature
+        );
+        if (!_isApprovedOrOwner(signer, tokenID))
+            revert UnauthorizedSigner(tokenID, signer);
+
+        _lock(tokenID, LockingContract, LockingID);
+    }
+
+    /**
+     * @dev Reverts if the sender can't transfer or burn tokenID: if tokenID is locked, only the contract
+     * @dev of the locking token can, and otherwise only its owner or an approved address.
+     * @dev The check is a function rather than inlined in the modifier to keep the contract size down.
+     */
+    function _checkApproveOwnerOrLockingContract(
+        uint256 tokenID
+    ) internal view virtual {
+        (, uint256 lockedCT) = isLocked(tokenID);
+        if (lockedCT > 0)
+            require(
+                msg.sender == address(_tokens[tokenID].locked.tokensCollection),
+                "Locked Token: tokenID is locked and caller is not the contract holding the locking token"
+            );
+        else
+            require(
+                _isApprovedOrOwner(_msgSender(), tokenID),
+                "ERC721: caller is not token owner or approved"
+            );
+    }
+
+    /**
+     * @dev Locks tokenID to LockingID from LockingContract without checking the sender.
+     */
+    function _lock(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    ) internal virtual sameOwner(tokenID, LockingContract, LockingID) {
+        // check that tokenID is unlocked
+        (, uint256 lockedCT) = isLocked(tokenID);
+        require(lockedCT == 0, "Locked Token: token is already locked");
+
+        // check that LockingID is not locked, directly or through other tokens, to tokenID,
+        // otherwise the locking enters a deadlock, and that the chain of lockings is not too long
+        _checkLockingPath(tokenID, LockingContract, LockingID);
+
+        // lock token
+        _tokens[tokenID].locked.tokensCollection = ILockedTokenUpgradeable(
+            LockingContract
+        );
+        _tokens[tokenID].locked.tokenID = LockingID;
+
+        // nofity LockingID in LockingContract that tokenID is locked to it
+        ILockedTokenUpgradeable(LockingContract).addLockedToken(
+            LockingID,
+            address(this),
+            tokenID
+        );
+
+        emit NewLocking(tokenID, LockingContract, LockingID);
+    }
+
+    /**
+     * @dev Mints count tokens with consecutive IDs starting at firstTokenID to the owner of LockingID
+     * @dev from LockingContract, and locks each of them to it in the same transaction.
+     */
+    function _mintLockedBatch(
+        uint256 firstTokenID,
+        uint256 count,
+        address LockingContract,
+        uint256 LockingID
+    ) internal virtual {
+        address owner = IERC721Upgradeable(LockingContract).ownerOf(LockingID);
+
+        for (
+            uint256 tokenID = firstTokenID;
+            tokenID < firstTokenID + count;
+            tokenID++
+        ) {
+            _mint(owner, tokenID);
+            _lock(tokenID, LockingContract, LockingID);
+        }
+    }
+
+    /**
+     * @dev Batch version of {lock}, locks tokenIDs[i] to LockingIDs[i] from LockingContracts[i].
+     */
+    function lockBatch(
+        uint256[] calldata tokenIDs,
+        address[] calldata LockingContracts,
+        uint256[] calldata LockingIDs
+    ) public virtual override {
+        require(
+            tokenIDs.length == LockingContracts.length &&
+                tokenIDs.length == LockingIDs.length,
+            "Locked Token: the arrays have different lengths"
+        );
+
+        for (uint256 i = 0; i < tokenIDs.length; i++) {
+            lock(tokenIDs[i], LockingContracts[i], LockingIDs[i]);
+        }
+    }
+
+    /**
+     * @dev unlocks a a token.
+     * @dev This function must be called from the contract that locked tokenID.
+     */
+    function unlock(
+        uint256 tokenID
+    )
+        public
+        virtual
+        override
+        onlyContract(address(_tokens[tokenID].locked.tokensCollection))
+    {
+        ExternalLockedToken memory locking = _tokens[tokenID].locked;
+
+        // remove locking
+        _tokens[tokenID].locked.tokensCollection = ILockedTokenUpgradeable(
+            address(0)
+        );
+        _tokens[tokenID].locked.tokenID = 0;
+
+        emit RemovedLocking(
+            tokenID,
+            address(locking.tokensCollection),
+            locking.tokenID
+        );
+    }
+
+    /**
+     * @dev returns (0x0, 0) if token is unlocked or the locking token (contract and id) otherwise
+     */
+    function isLocked(
+        uint256 tokenID
+    ) public view virtual override returns (address, uint256) {
+        return (
+            address(_tokens[tokenID].locked.tokensCollection),
+            _tokens[tokenID].locked.tokenID
+        );
+    }
+
+    /**
+     * @dev Returns the maximal length of a chain of lockings, from the top locking token to the bottom locked token.
+     */
+    function maxLockingDepth() public view virtual override returns (uint256) {
+        return _maxLockingDepth;
+    }
+
+    /**
+     * @dev Sets the maximal length of a chain of lockings.
+     * @dev Only new lockings are checked against it.
+     */
+    function _setMaxLockingDepth(uint256 maxDepth) internal virtual {
+        _maxLockingDepth = maxDepth;
+    }
+
+    /**
+     * @dev Walks from LockingID up to the top of its chain of lockings, and reverts if tokenID is on
+     * @dev the way (a cycle), or if locking tokenID, together with the tokens locked to it, to LockingID
+     * @dev makes the chain longer than maxLockingDepth.
+     */
+    function _checkLockingPath(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    ) internal view virtual {
+        // the length of the chain from LockingID to the bottom of the tokens locked to tokenID
+        uint256 depth = 1 +
+            _lockingHeight(
+                ILockedTokenUpgradeable(address(this)),
+                tokenID,
+                maxLockingDepth()
+            );
+
+        address ancestorContract = LockingContract;
+        uint256 ancestorID = LockingID;
+
+        while (ancestorContract != address(0)) {
+            if (ancestorContract == address(this) && ancestorID == tokenID)
+                revert LockingCycle(tokenID, LockingContract, LockingID);
+
+            if (depth > maxLockingDepth())
+                revert LockingTooDeep(
+                    tokenID,
+                    LockingContract,
+                    LockingID,
+                    maxLockingDepth()
+                );
+
+            (ancestorContract, ancestorID) = ILockedTokenUpgradeable(
+                ancestorContract
+            ).isLocked(ancestorID);
+            depth++;
+        }
+    }
+
+    /**
+     * @dev Returns the length of the longest chain of tokens locked to tokenID from contract LockedContract.
+     * @dev The walk stops once the chain is longer than maxHeight, so in that case the result is only
+     * @dev guaranteed to be larger than maxHeight.
+     */
+    function _lockingHeight(
+        ILockedTokenUpgradeable LockedContract,
+        uint256 tokenID,
+        uint256 maxHeight
+    ) internal view virtual returns (uint256 height) {
+        (
+            address[] memory LockedContracts,
+            uint256[] memory LockedIDs
+        ) = LockedContract.getLockedTokens(tokenID, 0, type(uint256).max);
+
+        for (uint256 i = 0; i < LockedContracts.length; i++) {
+            if (maxHeight == 0) return 1;
+
+            uint256 childHeight = 1 +
+                _lockingHeight(
+                    ILockedTokenUpgradeable(LockedContracts[i]),
+                    LockedIDs[i],
+                    maxHeight - 1
+                );
+            if (childHeight > height) height = childHeight;
+        }
+    }
+
+    /**
+     * @dev Returns the number of tokens locked to tokenID.
+     */
+    function getLockedTokensCount(
+        uint256 tokenID
+    ) public view virtual override returns (uint256) {
+        return _tokens[tokenID].lockedTokens.length;
+    }
+
+    /**
+     * @dev Returns up to 'limit' of the tokens locked to tokenID, starting from index 'offset'.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     * @dev Note: the order of the locked tokens changes when a token is unlocked.
+     */
+    function getLockedTokens(
+        uint256 tokenID,
+        uint256 offset,
+        uint256 limit
+    )
+        public
+        view
+        virtual
+        override
+        returns (address[] memory, uint256[] memory)
+    {
+        ExternalLockedToken[] storage lockedTokens = _tokens[tokenID]
+            .lockedTokens;
+
+        uint256 count = offset < lockedTokens.length
+            ? lockedTokens.length - offset
+            : 0;
+        if (count > limit) count = limit;
+
+        address[] memory LockedContracts = new address[](count);
+        uint256[] memory LockedIDs = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            LockedContracts[i] = address(
+                lockedTokens[offset + i].tokensCollection
+            );
+            LockedIDs[i] = lockedTokens[offset + i].tokenID;
+        }
+
+        return (LockedContracts, LockedIDs);
+    }
+
+    /**
+     * @dev Returns the bundle of tokenID: tokenID itself, followed by all the tokens locked to it, directly
+     * @dev or through other tokens, in depth-first order. The bundle is transferred and burned together.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     */
+    function getBundle(
+        uint256 tokenID
+    )
+        public
+        view
+        virtual
+        override
+        returns (address[] memory, uint256[] memory)
+    {
+        return _getBundle(ILockedTokenUpgradeable(address(this)), tokenID);
+    }
+
+    /**
+     * @dev Returns the bundle of tokenID from contract LockedContract, see {getBundle}.
+     */
+    function _getBundle(
+        ILockedTokenUpgradeable LockedContract,
+        uint256 tokenID
+    )
+        internal
+        view
+        virtual
+        returns (address[] memory BundleContracts, uint256[] memory BundleIDs)
+    {
+        (
+            address[] memory LockedContracts,
+            uint256[] memory LockedIDs
+        ) = LockedContract.getLockedTokens(tokenID, 0, type(uint256).max);
+
+        // the bundles of the tokens locked to tokenID
+        address[][] memory SubbundleContracts = new address[][](
+            LockedContracts.length
+        );
+        uint256[][] memory SubbundleIDs = new uint256[][](
+            LockedContracts.length
+        );
+
+        uint256 size = 1;
+        for (uint256 i = 0; i < LockedContracts.length; i++) {
+            (SubbundleContracts[i], SubbundleIDs[i]) = _getBundle(
+                ILockedTokenUpgradeable(LockedContracts[i]),
+                LockedIDs[i]
+            );
+            size += SubbundleContracts[i].length;
+        }
+
+        BundleContracts = new address[](size);
+        BundleIDs = new uint256[](size);
+        BundleContracts[0] = address(LockedContract);
+        BundleIDs[0] = tokenID;
+
+        uint256 next = 1;
+        for (uint256 i = 0; i < SubbundleContracts.length; i++) {
+            for (uint256 j = 0; j < SubbundleContracts[i].length; j++) {
+                BundleContracts[next] = SubbundleContracts[i][j];
+                BundleIDs[next] = SubbundleIDs[i][j];
+                next++;
+            }
+        }
+    }
+
+    /**
+     * @dev Checks if spender is the owner of the root of the bundle tokenID is in (the top token of its
+     * @dev chain of lockings), or is approved for it. Approving the root implicitly approves its whole bundle.
+     */
+    function isApprovedForBundle(
+        address spender,
+        uint256 tokenID
+    ) public view virtual override returns (bool) {
+        // walk up to the root of the bundle
+        IERC721Upgradeable RootContract = this;
+        uint256 RootID = tokenID;
+        (address LockingContract, uint256 LockingID) = isLocked(tokenID);
+
+        while (LockingContract != address(0)) {
+            RootContract = IERC721Upgradeable(LockingContract);
+            RootID = LockingID;
+            (LockingContract, LockingID) = ILockedTokenUpgradeable(
+                LockingContract
+            ).isLocked(LockingID);
+        }
+
+        address owner = RootContract.ownerOf(RootID);
+        return
+            spender == owner ||
+            RootContract.isApprovedForAll(owner, spender) ||
+            RootContract.getApproved(RootID) == spender;
+    }
+
+    /**
+     * @dev addLockedToken notifies a Token that another token (LockedID), with the same owner, is locked to it.
+     */
+    function addLockedToken(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    )
+        public
+        virtual
+        override
+        sameOwner(tokenID, LockedContract, LockedID)
+        onlyContract(LockedContract)
+    {
+        // check that LockedID from LockedContract is not locked already to tokenID
+        require(
+            _tokens[tokenID].lockingsIndex[LockedContract][LockedID] == 0,
+            "Locked Token: tokenID is already locked to LockedID from contract LockedContract"
+        );
+
+        // create ExternalLockedToken variable to express the locking
+        ExternalLockedToken memory newLocking;
+        newLocking.tokensCollection = ILockedTokenUpgradeable(LockedContract);
+        newLocking.tokenID = LockedID;
+
+        // save the index of the new dependency
+        // we need to add '1' to the index since the first index is '0', but '0' is also
+        // the default value of uint256, so if we add '1' in
+        // order to differentiate the first index from an empty mapping entry.
+        _tokens[tokenID].lockingsIndex[LockedContract][LockedID] =
+            _tokens[tokenID].lockedTokens.length +
+            1;
+
+        // add a locked token
+        _tokens[tokenID].lockedTokens.push(newLocking);
+    }
+
+    /**
+     * @dev removeLockedToken removes a token that was locked to the tokenID.
+     * @dev Only LockedContract can call it, otherwise anyone could free the tokens locked to tokenID.
+     */
+    function removeLockedToken(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    ) public virtual override onlyContract(LockedContract) {
+        _removeLockedToken(tokenID, LockedContract, LockedID);
+    }
+
+    /**
+     * @dev Removes LockedID from LockedContract from the tokens locked to tokenID without checking the sender,
+     * @dev and notifies LockedContract to unlock it.
+     */
+    function _removeLockedToken(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    ) internal virtual {
+        // check that LockedID from LockedContract is indeed locked to tokenID
+        require(
+            _tokens[tokenID].lockingsIndex[LockedContract][LockedID] > 0,
+            "Locked Token: LockedID in contract LockedContract is not locked to tokenID"
+        );
+
+        // get the index of the token we are about to remove from locked tokens
+        // we remove '1' because we added '1' when saving the index in addLockedToken,
+        // see the comment in addLockedToken for an explanation
+        uint256 lockIndex = _tokens[tokenID].lockingsIndex[LockedContract][
+            LockedID
+        ] - 1;
+
+        // clear lockingsIndex for this token
+        _tokens[tokenID].lockingsIndex[LockedContract][LockedID] = 0;
+
+        // remove locking: copy the last element of the array to the place of what was removed, then remove the last element from the array
+        uint256 lastLockingsIndex = _tokens[tokenID].lockedTokens.length - 1;
+        if (lockIndex != lastLockingsIndex) {
+            ExternalLockedToken memory lastLocking = _tokens[tokenID]
+                .lockedTokens[lastLockingsIndex];
+            _tokens[tokenID].lockedTokens[lockIndex] = lastLocking;
+
+            // the last element moved, so update its index
+            _tokens[tokenID].lockingsIndex[
+                address(lastLocking.tokensCollection)
+            ][lastLocking.tokenID] = lockIndex + 1;
+        }
+        _tokens[tokenID].lockedTokens.pop();
+
+        // notify LockedContract that locking was removed
+        ILockedTokenUpgradeable(LockedContract).unlock(LockedID);
+    }
+
+    /**
+     * @dev Unlocks LockedID from LockedContract, which is locked to tokenID, when it can't be
+     * @dev transferred or burned together with tokenID, so it doesn't block tokenID.
+     */
+    function _releaseLockedToken(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    ) internal virtual {
+        _removeLockedToken(tokenID, LockedContract, LockedID);
+
+        emit LockedTokenReleased(tokenID, LockedContract, LockedID);
+    }
+
+    /**
+     * @dev Checks if the restrictions of LockedID from LockedContract let it be transferred to `to` together
+     * @dev with the token it is locked to. Only Commander Tokens (checked with ERC165) have such restrictions.
+     */
+    function _isLockedTokenTransferable(
+        ILockedTokenUpgradeable LockedContract,
+        uint256 LockedID,
+        address to
+    ) internal view virtual returns (bool) {
+        return
+            !ERC165CheckerUpgradeable.supportsInterface(
+                address(LockedContract),
+                type(ICommanderTokenUpgradeable).interfaceId
+            ) ||
+            ICommanderTokenUpgradeable(address(LockedContract))
+                .isTokenTransferableToAddress(LockedID, to);
+    }
+
+    /**
+     * @dev Checks if the restrictions of LockedID from LockedContract let it be burned together with the
+     * @dev token it is locked to. Only Commander Tokens (checked with ERC165) have such restrictions.
+     */
+    function _isLockedTokenBurnable(
+        ILockedTokenUpgradeable LockedContract,
+        uint256 LockedID
+    ) internal view virtual returns (bool) {
+        return
+            !ERC165CheckerUpgradeable.supportsInterface(
+                address(LockedContract),
+                type(ICommanderTokenUpgradeable).interfaceId
+            ) ||
+            ICommanderTokenUpgradeable(address(LockedContract)).isTokenBurnable(
+                LockedID
+            );
+    }
+
+    /**
+     * @dev Burns the tokenID and all the tokens locked to it.
+     * @dev If a locked token is unburnable, it unlocks it.
+     **/
+    function burn(
+        uint256 tokenID
+    ) public virtual override isApproveOwnerOrLockingContract(tokenID) {
+        _burnLockedToken(tokenID);
+    }
+
+    /**
+     * @dev Burns the tokenID and all the tokens locked to it without checking the sender,
+     * @dev for the use of inheriting contracts.
+     **/
+    function _burnLockedToken(uint256 tokenID) internal virtual {
+        _burnLockedTokens(tokenID);
+
+        _burn(tokenID);
+    }
+
+    /**
+     * @dev Burns all the tokens locked to tokenID and deletes its lockings, without burning tokenID itself,
+     * @dev for inheriting contracts that burn it on their own, see {CommanderLockedToken-burn}.
+     **/
+    function _burnLockedTokens(uint256 tokenID) internal virtual {
+        // burn each token locked to tokenID
+        // if the token is unburnable, then simply unlock it, and any other failure reverts the burn
+        uint i;
+        while (i < _tokens[tokenID].lockedTokens.length) {
+            ILockedTokenUpgradeable STContract = _tokens[tokenID]
+                .lockedTokens[i]
+                .tokensCollection;
+            uint256 STID = _tokens[tokenID].lockedTokens[i].tokenID;
+            if (_isLockedTokenBurnable(STContract, STID)) {
+                STContract.burn(STID);
+                i++;
+            } else {
+                // releasing the token moves the last locked token to index i
+                _releaseLockedToken(tokenID, address(STContract), STID);
+            }
+        }
+
+        // 'delete' in solidity doesn't work on mappings, so we delete the mapping items manually
+        for (i = 0; i < _tokens[tokenID].lockedTokens.length; i++) {
+            ExternalLockedToken memory CT = _tokens[tokenID].lockedTokens[i];
+            delete _tokens[tokenID].lockingsIndex[address(CT.tokensCollection)][
+                CT.tokenID
+            ];
+        }
+
+        // delete the rest
+        delete _tokens[tokenID];
+    }
+
+    /***********************************************
+     * Overrided functions from ERC165 and ERC721  *
+     ***********************************************/
+
+    /**
+     * @dev we reimplement this function to add the isApproveOwnerOrLockingContract modifier
+     * @dev See {IERC721-transferFrom}.
+     */
+    function transferFrom(
+        address from,
+        address to,
+        uint256 tokenID
+    )
+        public
+        virtual
+        override(IERC721Upgradeable, ERC721Upgradeable)
+        isApproveOwnerOrLockingContract(tokenID)
+    {
+        //solhint-disable-next-line max-line-length
+
+        _transfer(from, to, tokenID);
+    }
+
+    /**
+     * @dev we reimplement this function to add the isApproveOwnerOrLockingContract modifier
+     * @dev See {IERC721-safeTransferFrom}.
+     */
+    function safeTransferFrom(
+        address from,
+        address to,
+        uint256 tokenID,
+        bytes memory data
+    )
+        public
+        virtual
+        override(IERC721Upgradeable, ERC721Upgradeable)
+        isApproveOwnerOrLockingContract(tokenID)
+    {
+        // the tokens locked to tokenID are transferred with safeTransferFrom too (with empty data), see _beforeTokenTransfer.
+        // the previous value is restored since a locked token from this contract is transferred in a nested call
+        bool previousSafeTransferring = _safeTransferring;
+        _safeTransferring = true;
+
+        _safeTransfer(from, to, tokenID, data);
+
+        _safeTransferring = previousSafeTransferring;
+    }
+
+    /**
+     * @dev Checks if spender can manage tokenID, where approving a token implicitly approves
+     * @dev all the tokens locked to it, see {isApprovedForBundle}.
+     */
+    function _isApprovedOrOwner(
+        address spender,
+        uint256 tokenID
+    ) internal view virtual override returns (bool) {
+        return isApprovedForBundle(spender, tokenID);
+    }
+
+    /**
+     * @dev Hook that is called before any token transfer. This includes minting and burning. If {ERC721Consecutive} is
+     * used, the hook may be called as part of a consecutive (batch) mint, as indicated by `batchSize` greater than 1.
+     *
+     * Calling conditions:
+     *
+     * - When `from` and `to` are both non-zero, ``from``'s tokens will be transferred to `to`.
+     * - When `from` is zero, the tokens will be minted for `to`.
+     * - When `to` is zero, ``from``'s tokens will be burned.
+     * - `from` and `to` are never both zero.
+     * - `batchSize` is non-zero.
+     *
+     * To learn more about hooks, head to xref:ROOT:extending-contracts.adoc#using-hooks[Using Hooks].
+     */
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 tokenID,
+        uint256 batchSize
+    ) internal virtual override {
+        super._beforeTokenTransfer(from, to, tokenID, batchSize);
+
+        // a minted token has no locked tokens yet, and the tokens locked to a burned token
+        // were already burned or released by {_burnLockedToken}
+        if (from == address(0) || to == address(0)) return;
+
+        // transfer each token locked to tokenID
+        // if the token is nontransferable, then simply unlock it, and any other failure (e.g. a receiver
+        // that rejects the token) reverts the transfer, so a locked token never stays behind while locked
+        uint i;
+        while (i < _tokens[tokenID].lockedTokens.length) {
+            ILockedTokenUpgradeable STContract = _tokens[tokenID]
+                .lockedTokens[i]
+                .tokensCollection;
+            uint256 STID = _tokens[tokenID].lockedTokens[i].tokenID;
+
+            if (!_isLockedTokenTransferable(STContract, STID, to)) {
+                // releasing the token moves the last locked token to index i
+                _releaseLockedToken(tokenID, address(STContract), STID);
+                continue;
+            }
+
+            if (_safeTransferring) STContract.safeTransferFrom(from, to, STID);
+            else STContract.transferFrom(from, to, STID);
+            i++;
+        }
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceID
+    )
+        public
+        view
+        virtual
+        override(ERC721PermitUpgradeable, IERC165Upgradeable)
+        returns (bool)
+    {
+        return
+            interfaceID == type(ILockedTokenUpgradeable).interfaceId ||
+            super.supportsInterface(interfaceID);
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[47] private __gap;
+}
+
+/**
+ * @title Locked Token Reference Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev See {LockedTokenBase}.
+ */
+contract LockedTokenUpgradeable is Initializable, LockedTokenBaseUpgradeable {
+    /**
+     * @dev Initializes the contract by setting a `name` and a `symbol` to the token collection.
+     */
+    function __LockedToken_init(
+        string memory name,
+        string memory symbol
+    ) internal onlyInitializing {
+        __ERC721_init_unchained(name, symbol);
+        __EIP712_init_unchained(name, "1");
+        __ERC721Permit_init_unchained(name);
+        __LockedTokenBase_init_unchained();
+    }
+
+    function __LockedToken_init_unchained(
+        string memory,
+        string memory
+    ) internal onlyInitializing {}
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[50] private __gap;
+}
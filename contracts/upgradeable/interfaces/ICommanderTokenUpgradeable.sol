@@ -0,0 +1,677 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/interfaces/ICommanderToken.sol by `npx hardhat transpile`, edit that file instead.
+// Interface for an NFT that command another NFT or be commanded by another NFT
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts-upgradeable/token/ERC721/IERC721Upgradeable.sol";
+
+/**
+ * @title Commander Token Simple Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @notice This is the simplest implementation of Commander Token, you should inherent in order to extend it for complex use cases
+ * @dev Commander Tokens is an extenntion to ERC721 with the ability to create non-transferable or non-burnable tokens.
+ * @dev For this cause we add a new mechniasm enabling a token to depend on another token.
+ * @dev If Token A depends on B, then if Token B is nontransferable or unburnable, so does Token A.
+ * @dev if token B depedns on token A, we again call A a Commander Token (CT).
+ */
+interface ICommanderTokenUpgradeable is IERC721Upgradeable {
+    /**
+     * @dev The reason a token blocks a transfer or a burn.
+     * @dev Nontransferable: the token is nontransferable and has no whitelist.
+     * @dev NotWhitelisted: the token is nontransferable and the recipient is not in its whitelist.
+     * @dev Nonburnable: the token is nonburnable.
+     * @dev Dependency: one of the tokens the token depends on blocks the transfer or burn.
+     * @dev Policy: a transfer policy attached to the token or to its collection blocks the transfer or burn.
+     */
+    enum BlockReason {
+        None,
+        Nontransferable,
+        NotWhitelisted,
+        Nonburnable,
+        Dependency,
+        Policy
+    }
+
+    /**
+     * @dev A step in the path from a token to the token that blocks its transfer or burn.
+     */
+    struct BlockingToken {
+        address tokensCollection;
+        uint256 tokenID;
+        BlockReason reason;
+    }
+
+    /**
+     * @dev A time window, in seconds since the epoch, in which a token is transferable or burnable.
+     * @dev The window starts at 'start' (inclusive) and ends at 'end' (exclusive), an 'end' of 0 means it never ends.
+     */
+    struct Schedule {
+        uint64 start;
+        uint64 end;
+    }
+
+    /**
+     * @dev Thrown when tokenID can't be transferred to `to`.
+     * @dev path leads from tokenID, through its dependencies, to the token that blocks the transfer.
+     */
+    error TransferBlocked(uint256 tokenID, address to, BlockingToken[] path);
+
+    /**
+     * @dev Thrown when tokenID can't be burned.
+     * @dev path leads from tokenID, through its dependencies, to the token that blocks the burn.
+     */
+    error BurnBlocked(uint256 tokenID, BlockingToken[] path);
+
+    /**
+     * @dev Thrown when a schedule ends before it starts.
+     */
+    error InvalidSchedule(uint64 start, uint64 end);
+
+    /**
+     * @dev Thrown when sender tries to change the restrictions of tokenID, but isn't its controller.
+     */
+    error NotController(uint256 tokenID, address sender);
+
+    /**
+     * @dev Thrown when sender tries to hand over the control of the collection, but isn't its controller.
+     */
+    error NotCollectionController(address sender);
+
+    /**
+     * @dev Thrown when policy doesn't support the ITransferPolicy interface.
+     */
+    error NotTransferPolicy(address policy);
+
+    /**
+     * @dev Thrown when CTContractAddress supports neither ICommanderToken nor ICommanderToken1155.
+     */
+    error NotCommanderToken(address CTContractAddress);
+
+    /**
+     * @dev Thrown when tokenID of NFTContract can't be whitelisted as an NFT, or bound to,
+     * @dev since NFTContract isn't a contract.
+     */
+    error NotNFT(address NFTContract, uint256 tokenID);
+
+    /**
+     * @dev Thrown when CTID doesn't exist in CTContractAddress.
+     */
+    error NonexistentCommanderToken(address CTContractAddress, uint256 CTID);
+
+    /**
+     * @dev Thrown when making tokenID depend on CTID from CTContractAddress would create a dependence cycle.
+     */
+    error DependenceCycle(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    );
+
+    /**
+     * @dev Thrown when making tokenID depend on CTID from CTContractAddress would create a chain of
+     * @dev dependencies longer than maxDepth.
+     */
+    error DependenceTooDeep(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID,
+        uint256 maxDepth
+    );
+
+    /**
+     * @dev Thrown when binding tokenID to NFTID from NFTContract would make tokenID own itself,
+     * @dev directly or through other bound tokens.
+     */
+    error BindingCycle(uint256 tokenID, address NFTContract, uint256 NFTID);
+
+    /**
+     * @dev Emitted when a dependency on CTID from CTContractAddress is added to `tokenID`.
+     */
+    event NewDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    );
+
+    /**
+     * @dev Emitted when a dependency on CTID from CTContractAddress is removed to `tokenID`.
+     */
+    event RemovedDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    );
+
+    /**
+     * @dev Emitted when the transferable property of `tokenID` is set.
+     */
+    event TransferableSet(uint256 tokenID, bool transferable);
+
+    /**
+     * @dev Emitted when the burnable property of `tokenID` is set.
+     */
+    event BurnableSet(uint256 tokenID, bool burnable);
+
+    /**
+     * @dev Emitted when `whitelistAddress` is added to or removed from the whitelist of `tokenID`.
+     */
+    event TransferWhitelistSet(
+        uint256 tokenID,
+        address whitelistAddress,
+        bool isWhitelisted
+    );
+
+    /**
+     * @dev Emitted when `NFTID` from `NFTContract` is added to or removed from the whitelist of `tokenID`.
+     */
+    event TransferWhitelistNFTSet(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID,
+        bool isWhitelisted
+    );
+
+    /**
+     * @dev Emitted when the time window in which `tokenID` is transferable is set.
+     */
+    event TransferableScheduleSet(uint256 tokenID, uint64 start, uint64 end);
+
+    /**
+     * @dev Emitted when the time window in which `tokenID` is burnable is set.
+     */
+    event BurnableScheduleSet(uint256 tokenID, uint64 start, uint64 end);
+
+    /**
+     * @dev Emitted when the controller of `tokenID` is changed.
+     */
+    event ControllerChanged(
+        uint256 tokenID,
+        address previousController,
+        address newController
+    );
+
+    /**
+     * @dev Emitted when the collection controller is changed.
+     */
+    event CollectionControllerChanged(
+        address previousController,
+        address newController
+    );
+
+    /**
+     * @dev Emitted when the controller of `tokenID` transfers it from `from` to `to`, regardless of its transferability.
+     */
+    event Recovered(uint256 tokenID, address from, address to);
+
+    /**
+     * @dev Emitted when `tokenID` is bound to `NFTID` from `NFTContract`, so it is owned by the owner of the NFT.
+     */
+    event BoundToNFT(uint256 tokenID, address NFTContract, uint256 NFTID);
+
+    /**
+     * @dev Emitted when `tokenID` is unbound from `NFTID` from `NFTContract`, and transferred to `to`.
+     */
+    event UnboundFromNFT(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID,
+        address to
+    );
+
+    /**
+     * @dev Emitted when a transfer policy is attached to `tokenID`, or detached from it if policy is the zero address.
+     */
+    event TransferPolicySet(uint256 tokenID, address policy);
+
+    /**
+     * @dev Emitted when a transfer policy is attached to the whole collection, or detached from it if policy is the zero address.
+     */
+    event CollectionTransferPolicySet(address policy);
+
+    /**
+     * @dev Adds to tokenID dependency on CTID from contract CTContractAddress.
+     * @dev A token can be transfered or burned only if all the tokens it depends on are transferable or burnable, correspondingly.
+     * @dev The caller must be the owner, opertaor or approved to use tokenID.
+     * @dev CTContractAddress must support ICommanderToken or ICommanderToken1155 (checked with ERC165), and CTID must exist.
+     */
+    function setDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) external;
+
+    /**
+     * @dev Same as {setDependence}, on behalf of the signer of an EIP-712 message
+     * @dev SetDependence(uint256 tokenID,address CTContractAddress,uint256 CTID,uint256 nonce,uint256 deadline),
+     * @dev where nonce is the current nonce of tokenID. The signer must be the owner, operator or approved to use tokenID.
+     */
+    function setDependenceWithSig(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID,
+        uint256 deadline,
+        bytes memory signature
+    ) external;
+
+    /**
+     * @dev Adds to tokenID dependency on CTID from contract CTContractAddress, without checking
+     * @dev that CTContractAddress is a Commander Token and that CTID exists.
+     * @dev Use it only for contracts that implement the functions of ICommanderToken without supporting its ERC165 interface.
+     * @dev The caller must be the owner, opertaor or approved to use tokenID.
+     */
+    function setDependenceUnsafe(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) external;
+
+    /**
+     * @dev Removes from tokenID the dependency on CTID from contract CTContractAddress.
+     */
+    function removeDependence(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) external;
+
+    /**
+     * @dev Checks if tokenID depends on CTID from CTContractAddress.
+     **/
+    function isDependent(
+        uint256 tokenID,
+        address CTContractAddress,
+        uint256 CTID
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns the maximal length of a chain of dependencies starting at a token.
+     **/
+    function maxDependenceDepth() external view returns (uint256);
+
+    /**
+     * @dev Returns the number of tokens tokenID depends on.
+     **/
+    function getDependenciesCount(
+        uint256 tokenID
+    ) external view returns (uint256);
+
+    /**
+     * @dev Returns up to 'limit' of the tokens tokenID depends on, starting from index 'offset'.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     **/
+    function getDependencies(
+        uint256 tokenID,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256[] memory);
+
+    /**
+     * These functions are for managing the effect of dependence of tokens.
+     * If a token is untransferable, then all the tokens depending on it are untransferable as well.
+     * If a token is unburnable, then all the tokens depending on it are unburnable as well.
+     */
+
+    /**
+     * @dev Sets the transferable property of tokenID.
+     **/
+    function setTransferable(uint256 tokenID, bool transferable) external;
+
+    /**
+     * @dev Sets the burnable status of tokenID.
+     **/
+    function setBurnable(uint256 tokenID, bool burnable) external;
+
+    /**
+     * @dev Sets the time window in which tokenID is transferable, 'end' of 0 means the window never ends.
+     * @dev Outside the window tokenID is nontransferable, inside it the transferable property applies.
+     **/
+    function setTransferableSchedule(
+        uint256 tokenID,
+        uint64 start,
+        uint64 end
+    ) external;
+
+    /**
+     * @dev Sets the time window in which tokenID is burnable, 'end' of 0 means the window never ends.
+     * @dev Outside the window tokenID is nonburnable, inside it the burnable property applies.
+     **/
+    function setBurnableSchedule(
+        uint256 tokenID,
+        uint64 start,
+        uint64 end
+    ) external;
+
+    /**
+     * @dev Returns the time window in which tokenID is transferable.
+     **/
+    function getTransferableSchedule(
+        uint256 tokenID
+    ) external view returns (Schedule memory);
+
+    /**
+     * @dev Returns the time window in which tokenID is burnable.
+     **/
+    function getBurnableSchedule(
+        uint256 tokenID
+    ) external view returns (Schedule memory);
+
+    /**
+     * @dev Checks the transferable property of tokenID, including its transferable schedule
+     * @dev (only of the token itself, not of its dependencies).
+     **/
+    function isTransferable(uint256 tokenID) external view returns (bool);
+
+    /**
+     * @dev Checks the burnable property of tokenID, including its burnable schedule
+     * @dev (only of the token itself, not of its dependencies).
+     **/
+    function isBurnable(uint256 tokenID) external view returns (bool);
+
+    /**
+     * @dev Checks if all the tokens that tokenID depends on are transferable or not
+     * @dev (only of the dependencies, not of the token).
+     **/
+    function isDependentTransferable(
+        uint256 tokenID
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks all the tokens that tokenID depends on are burnable
+     * @dev (only of the dependencies, not of the token).
+     **/
+    function isDependentBurnable(uint256 tokenID) external view returns (bool);
+
+    /**
+     * @dev Checks if tokenID can be transferred
+     * @dev (meaning, both the token itself and all of its dependncies are transferable).
+     **/
+    function isTokenTransferable(uint256 tokenID) external view returns (bool);
+
+    /**
+     * @dev Checks if tokenID can be burned.
+     * @dev (meaning, the token itself, its transfer policies and all of its dependncies are burnable).
+     **/
+    function isTokenBurnable(uint256 tokenID) external view returns (bool);
+
+    /**
+     * A controller mechanism. The restrictions of a token (transferability, burnability, schedules and
+     * whitelist) are controlled by its controller, if it has one, or by its owner otherwise.
+     * A controller can be set per token, or for the whole collection, and can be an address, a multisig
+     * or a contract. The controller can also recover the token, i.e. transfer it regardless of its restrictions.
+     */
+
+    /**
+     * @dev Returns the address controlling the restrictions of tokenID: its own controller if set,
+     * @dev or otherwise the collection controller. If neither is set, the owner controls them.
+     **/
+    function controllerOf(uint256 tokenID) external view returns (address);
+
+    /**
+     * @dev Returns the address controlling the restrictions of tokens without a controller of their own.
+     **/
+    function collectionController() external view returns (address);
+
+    /**
+     * @dev Sets the controller of tokenID, or removes it if newController is the zero address.
+     * @dev Only the current controller of tokenID can call it, or its owner if it has no controller.
+     **/
+    function setController(uint256 tokenID, address newController) external;
+
+    /**
+     * @dev Hands over the control of the collection. Only the current collection controller can call it.
+     **/
+    function setCollectionController(address newController) external;
+
+    /**
+     * @dev Transfers tokenID to `to` regardless of its transferability, its dependencies and its whitelist.
+     * @dev Only the controller of tokenID can call it.
+     **/
+    function recover(uint256 tokenID, address to) external;
+
+    /**
+     * A whitelist mechanism. If an address is whitelisted it means the token can be transferred
+     * to it, regardless of the value of 'isTokenTransferable'. If an NFT is whitelisted, the
+     * token can be transferred to whoever owns the NFT at the time of the transfer.
+     */
+
+    /**
+     * @dev Adds or removes an address from the whitelist of tokenID.
+     * @dev tokenID can be transferred to whitelisted addresses even when its set to be nontransferable.
+     **/
+    function setTransferWhitelist(
+        uint256 tokenID,
+        address whitelistAddress,
+        bool isWhitelisted
+    ) external;
+
+    /**
+     * @dev Same as {setTransferWhitelist}, on behalf of the signer of an EIP-712 message
+     * @dev SetTransferWhitelist(uint256 tokenID,address whitelistAddress,bool isWhitelisted,uint256 nonce,uint256 deadline),
+     * @dev where nonce is the current nonce of tokenID. The signer must control the restrictions of tokenID.
+     **/
+    function setTransferWhitelistWithSig(
+        uint256 tokenID,
+        address whitelistAddress,
+        bool isWhitelisted,
+        uint256 deadline,
+        bytes memory signature
+    ) external;
+
+    /**
+     * @dev Checks if an address is whitelisted.
+     **/
+    function isAddressWhitelisted(
+        uint256 tokenID,
+        address whitelistAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns all the addresses in the whitelist of tokenID.
+     **/
+    function getWhitelistedAddresses(
+        uint256 tokenID
+    ) external view returns (address[] memory);
+
+    /**
+     * @dev Adds or removes NFTID from NFTContract to the whitelist of tokenID.
+     * @dev tokenID can be transferred to the owner of a whitelisted NFT even when its set to be nontransferable.
+     **/
+    function setTransferWhitelistNFT(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID,
+        bool isWhitelisted
+    ) external;
+
+    /**
+     * @dev Checks if NFTID from NFTContract is whitelisted.
+     **/
+    function isNFTWhitelisted(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns all the NFTs in the whitelist of tokenID, as the arrays of their contracts and IDs.
+     **/
+    function getWhitelistedNFTs(
+        uint256 tokenID
+    ) external view returns (address[] memory, uint256[] memory);
+
+    /**
+     * @dev Checks if an address is the owner of one of the NFTs in the whitelist of tokenID.
+     **/
+    function isWhitelistedNFTOwner(
+        uint256 tokenID,
+        address owner
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if tokenID can be transferred to addressToTransferTo, without taking its dependence into consideration.
+     **/
+    function isTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if all the dependences of tokenID can be transferred to addressToTransferTo,
+     **/
+    function isDependentTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if tokenID can be transferred to addressToTransferTo,
+     * @dev (meaning, the token itself, its transfer policies and all of its dependencies allow it).
+     **/
+    function isTokenTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns a counter that increases on every change that may restrict the transfers of tokenID,
+     * @dev so the transferability of unrestricted tokens can be cached, see {ITransferCache}.
+     **/
+    function restrictionsEpoch(uint256 tokenID) external view returns (uint256);
+
+    /**
+     * A token-bound ownership mechanism. A token bound to an NFT is owned by whoever owns the NFT, and
+     * its ownership moves with the NFT, e.g. a soulbound token attached to a name.
+     */
+
+    /**
+     * @dev Binds tokenID to NFTID from NFTContract, so ownerOf(tokenID) is the owner of the NFT.
+     * @dev Binding is a transfer of tokenID to the owner of the NFT, which its restrictions must allow.
+     **/
+    function bindToNFT(
+        uint256 tokenID,
+        address NFTContract,
+        uint256 NFTID
+    ) external;
+
+    /**
+     * @dev Unbinds tokenID from the NFT it is bound to, and transfers it to the owner of the NFT.
+     **/
+    function unbindFromNFT(uint256 tokenID) external;
+
+    /**
+     * @dev Returns the NFT tokenID is bound to, or (address(0), 0) if it isn't bound.
+     **/
+    function boundNFTOf(
+        uint256 tokenID
+    ) external view returns (address, uint256);
+
+    /**
+     * A transfer policy mechanism. A transfer policy is a contract implementing ITransferPolicy, attached to
+     * a token or to the whole collection, that adds rules to the transfers and burns of the token.
+     */
+
+    /**
+     * @dev Attaches a transfer policy to tokenID, or detaches it if policy is the zero address.
+     **/
+    function setTransferPolicy(uint256 tokenID, address policy) external;
+
+    /**
+     * @dev Attaches a transfer policy to the whole collection. Only the collection controller can call it.
+     **/
+    function setCollectionTransferPolicy(address policy) external;
+
+    /**
+     * @dev Returns the transfer policy attached to tokenID.
+     **/
+    function transferPolicyOf(uint256 tokenID) external view returns (address);
+
+    /**
+     * @dev Returns the transfer policy attached to the whole collection.
+     **/
+    function collectionTransferPolicy() external view returns (address);
+
+    /**
+     * @dev Checks if the transfer policies of tokenID and of the collection allow transferring it
+     * @dev from its owner to transferToAddress.
+     **/
+    function isPolicyTransferableToAddress(
+        uint256 tokenID,
+        address transferToAddress
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if the transfer policies of tokenID and of the collection allow burning it.
+     **/
+    function isPolicyBurnable(uint256 tokenID) external view returns (bool);
+
+    /**
+     * @dev Explains why tokenID can't be transferred to transferToAddress.
+     * @dev Returns the path from tokenID, through its dependencies, to the token that blocks the transfer,
+     * @dev or an empty array if tokenID is transferable to transferToAddress.
+     **/
+    function whyNotTransferable(
+        uint256 tokenID,
+        address transferToAddress
+    ) external view returns (BlockingToken[] memory);
+
+    /**
+     * @dev Explains why tokenID can't be burned.
+     * @dev Returns the path from tokenID, through its dependencies, to the token that blocks the burn,
+     * @dev or an empty array if tokenID is burnable.
+     **/
+    function whyNotBurnable(
+        uint256 tokenID
+    ) external view returns (BlockingToken[] memory);
+
+    /**
+     * Batch functions. Each function applies its single-token version to the i'th item of all the arrays,
+     * so the arrays must have the same length, and emits the same events.
+     */
+
+    /**
+     * @dev Batch version of {setDependence}.
+     **/
+    function setDependenceBatch(
+        uint256[] calldata tokenIDs,
+        address[] calldata CTContractAddresses,
+        uint256[] calldata CTIDs
+    ) external;
+
+    /**
+     * @dev Batch version of {setTransferable}.
+     **/
+    function setTransferableBatch(
+        uint256[] calldata tokenIDs,
+        bool[] calldata transferable
+    ) external;
+
+    /**
+     * @dev Batch version of {setBurnable}.
+     **/
+    function setBurnableBatch(
+        uint256[] calldata tokenIDs,
+        bool[] calldata burnable
+    ) external;
+
+    /**
+     * @dev Batch version of {setTransferWhitelist}.
+     **/
+    function setTransferWhitelistBatch(
+        uint256[] calldata tokenIDs,
+        address[] calldata whitelistAddresses,
+        bool[] calldata isWhitelisted
+    ) external;
+
+    /**
+     * Mint and burn are not part of ERC721, since the standard doesn't specify any
+     * rules for how they're done (or if they're done at all). However, we add a burn function to
+     * ICommanderToken, since its implementation depends on the dependence system.
+     */
+
+    /**
+     * @dev burns tokenID.
+     * @dev isTokenBurnable must return 'true'.
+     **/
+    function burn(uint256 tokenID) external;
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/interfaces/IERC5484.sol by `npx hardhat transpile`, edit that file instead.
+// Interface of ERC-5484: consensual soulbound tokens, see https://eips.ethereum.org/EIPS/eip-5484
+
+pragma solidity >=0.8.17;
+
+/**
+ * @dev ERC-5484 lets wallets and marketplaces know who can burn a soulbound token.
+ * @dev The ERC165 interface ID of ERC-5484 is 0x0489b56f.
+ */
+interface IERC5484Upgradeable {
+    /**
+     * @dev Who can burn a token.
+     */
+    enum BurnAuth {
+        IssuerOnly,
+        OwnerOnly,
+        Both,
+        Neither
+    }
+
+    /**
+     * @dev Emitted when `tokenId` is issued by `from` to `to`, with the burn authorization `burnAuth`.
+     */
+    event Issued(
+        address indexed from,
+        address indexed to,
+        uint256 indexed tokenId,
+        BurnAuth burnAuth
+    );
+
+    /**
+     * @dev Returns who can burn tokenId.
+     */
+    function burnAuth(uint256 tokenId) external view returns (BurnAuth);
+}
@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/interfaces/ILockedToken.sol by `npx hardhat transpile`, edit that file instead.
+// Interface for an NFT that command another NFT or be commanded by another NFT
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts-upgradeable/token/ERC721/IERC721Upgradeable.sol";
+
+/**
+ * @title Locked Token Reference Implementation
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev Locked Tokens enable the automatic transfer of tokens.
+ * @dev If token A is locked to B, then:
+ * @dev 1. A cannot be transferred or burned unless B is transferred or burned, and,
+ * @dev 2. every transfer of B, also transfers A.
+ * @dev Locking is possible if and only if both tokens have the same owner.
+ */
+interface ILockedTokenUpgradeable is IERC721Upgradeable {
+    /**
+     * @dev Emitted when tokenID is locked to LockingID from LockingContract.
+     */
+    event NewLocking(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    );
+
+    /**
+     * @dev Emitted when a locking tokenID to LockingID from LockingContract is removed.
+     * @dev Not named Unlocked, which is the event of ERC-5192 for tokens that become transferable.
+     */
+    event RemovedLocking(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    );
+
+    /**
+     * @dev Emitted when LockedID from LockedContract, which is locked to tokenID, couldn't be transferred
+     * @dev or burned together with tokenID, and was unlocked instead.
+     */
+    event LockedTokenReleased(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    );
+
+    /**
+     * @dev Thrown when locking tokenID to LockingID from LockingContract would create a locking cycle.
+     */
+    error LockingCycle(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    );
+
+    /**
+     * @dev Thrown when locking tokenID to LockingID from LockingContract would create a chain of
+     * @dev lockings longer than maxDepth.
+     */
+    error LockingTooDeep(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID,
+        uint256 maxDepth
+    );
+
+    /**
+     * @dev Locks tokenID CTID from contract CTContract. Both tokens must have the same owner.
+     * @dev
+     * @dev With such a lock in place, tokenID transfer and burn functions can't be called by
+     * @dev its owner as long as the locking is in place.
+     * @dev
+     * @dev If LockingID is transferred or burned, it also transfers or burns tokenID.
+     * @dev If tokenID is nontransferable or unburnable, then a call to the transfer or
+     * @dev burn function of the LockingID unlocks the tokenID.
+     */
+    function lock(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID
+    ) external;
+
+    /**
+     * @dev Same as {lock}, on behalf of the signer of an EIP-712 message
+     * @dev Lock(uint256 tokenID,address LockingContract,uint256 LockingID,uint256 nonce,uint256 deadline),
+     * @dev where nonce is the current nonce of tokenID. The signer must be the owner, operator or approved to use tokenID.
+     */
+    function lockWithSig(
+        uint256 tokenID,
+        address LockingContract,
+        uint256 LockingID,
+        uint256 deadline,
+        bytes memory signature
+    ) external;
+
+    /**
+     * @dev Batch version of {lock}, locks tokenIDs[i] to LockingIDs[i] from LockingContracts[i].
+     */
+    function lockBatch(
+        uint256[] calldata tokenIDs,
+        address[] calldata LockingContracts,
+        uint256[] calldata LockingIDs
+    ) external;
+
+    /**
+     * @dev unlocks a a token.
+     * @dev This function must be called from the contract that locked tokenID.
+     */
+    function unlock(uint256 tokenID) external;
+
+    /**
+     * @dev returns (0x0, 0) if token is unlocked or the locking token (contract and id) otherwise
+     */
+    function isLocked(uint256 tokenID) external view returns (address, uint256);
+
+    /**
+     * @dev Returns the maximal length of a chain of lockings, from the top locking token to the bottom locked token.
+     */
+    function maxLockingDepth() external view returns (uint256);
+
+    /**
+     * @dev Returns the number of tokens locked to tokenID.
+     */
+    function getLockedTokensCount(
+        uint256 tokenID
+    ) external view returns (uint256);
+
+    /**
+     * @dev Returns up to 'limit' of the tokens locked to tokenID, starting from index 'offset'.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     */
+    function getLockedTokens(
+        uint256 tokenID,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory, uint256[] memory);
+
+    /**
+     * @dev Returns the bundle of tokenID: tokenID itself, followed by all the tokens locked to it, directly
+     * @dev or through other tokens, in depth-first order. The bundle is transferred and burned together.
+     * @dev The tokens are returned as two arrays: their contracts and their IDs.
+     */
+    function getBundle(
+        uint256 tokenID
+    ) external view returns (address[] memory, uint256[] memory);
+
+    /**
+     * @dev Checks if spender is the owner of the root of the bundle tokenID is in (the top token of its
+     * @dev chain of lockings), or is approved for it. Approving the root implicitly approves its whole bundle.
+     */
+    function isApprovedForBundle(
+        address spender,
+        uint256 tokenID
+    ) external view returns (bool);
+
+    /**
+     * @dev addLockedToken notifies a Token that another token (LockedID), with the same owner, is locked to it.
+     */
+    function addLockedToken(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    ) external;
+
+    /**
+     * @dev removeLockedToken removes a token that was locked to the tokenID. Only LockedContract can call it.
+     */
+    function removeLockedToken(
+        uint256 tokenID,
+        address LockedContract,
+        uint256 LockedID
+    ) external;
+
+    /**
+     * Mint and burn are not part of ERC721, since the standard doesn't specify any
+     * rules for how they're done (or if they're done at all). However, we add a burn function to
+     * ILockedToken, since its implementation depends on the locking system.
+     */
+
+    /**
+     * @dev Burns the tokenID and all the tokens locked to it.
+     * @dev If a locked token is unburnable, it unlocks it.
+     **/
+    function burn(uint256 tokenID) external;
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/interfaces/IMetadataRenderer.sol by `npx hardhat transpile`, edit that file instead.
+// Interface for a contract that renders the metadata of the tokens of other contracts
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts-upgradeable/utils/introspection/IERC165Upgradeable.sol";
+
+/**
+ * @title Metadata Renderer
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A Metadata Renderer builds the token URIs of a collection on-chain, so one renderer can serve
+ * @dev many collections. A collection returns the output of its renderer from tokenURI.
+ */
+interface IMetadataRendererUpgradeable is IERC165Upgradeable {
+    /**
+     * @dev Returns the token URI of tokenID from tokensCollection.
+     */
+    function tokenURI(
+        address tokensCollection,
+        uint256 tokenID
+    ) external view returns (string memory);
+}
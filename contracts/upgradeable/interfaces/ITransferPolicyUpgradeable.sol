@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/interfaces/ITransferPolicy.sol by `npx hardhat transpile`, edit that file instead.
+// Interface for a contract that adds rules to the transfers and burns of Commander Tokens
+
+pragma solidity >=0.8.17;
+
+import "@openzeppelin/contracts-upgradeable/utils/introspection/IERC165Upgradeable.sol";
+
+/**
+ * @title Transfer Policy
+ * @author Eyal Ron, Tomer Leicht, Ahmad Afuni
+ * @dev A Transfer Policy is attached to a Commander Token, or to a whole collection, and adds rules to
+ * @dev its transferability and burnability, on top of the rules of Commander Token.
+ * @dev A token can be transferred or burned only if all the policies attached to it allow it.
+ */
+interface ITransferPolicyUpgradeable is IERC165Upgradeable {
+    /**
+     * @dev Checks if tokenID from tokensCollection can be transferred from `from` to `to`.
+     */
+    function isTransferAllowed(
+        address tokensCollection,
+        uint256 tokenID,
+        address from,
+        address to
+    ) external view returns (bool);
+
+    /**
+     * @dev Checks if tokenID from tokensCollection, owned by `owner`, can be burned.
+     */
+    function isBurnAllowed(
+        address tokensCollection,
+        uint256 tokenID,
+        address owner
+    ) external view returns (bool);
+
+    /**
+     * @dev Called by a collection (msg.sender) after each transfer of tokenID, if the policy is attached to it.
+     * @dev It enables policies that keep state, e.g., limiting the number of transfers.
+     */
+    function onTransfer(uint256 tokenID, address from, address to) external;
+}
@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+// Generated from contracts/utils/AddressesOrNFTs.sol by `npx hardhat transpile`, edit that file instead.
+
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts-upgradeable/utils/StringsUpgradeable.sol";
+
+/**
+ * @dev An address or an NFT, e.g. an entry of the whitelist of a Commander Token.
+ * @dev Whether an entry is an NFT is stored with it, so an NFT can have any ID, including 0, and an entry
+ * @dev doesn't turn into an address, or back, when the code at its address changes.
+ */
+library AddressesOrNFTsUpgradeable {
+    // isNFT is packed with the address, so an entry still takes two slots
+    struct AddressOrNFT {
+        address addressOrNftContract;
+        bool isNFT;
+        uint256 tokenID;
+    }
+
+    function fromAddress(
+        address account
+    ) internal pure returns (AddressOrNFT memory) {
+        return AddressOrNFT(account, false, 0);
+    }
+
+    function fromNFT(
+        address NFTContract,
+        uint256 NFTID
+    ) internal pure returns (AddressOrNFT memory) {
+        return AddressOrNFT(NFTContract, true, NFTID);
+    }
+
+    /**
+     * @dev Returns a key that identifies the entry, which differs between an address and the NFTs of its contract.
+     */
+    function key(
+        AddressOrNFT memory addressOrNFT
+    ) internal pure returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    addressOrNFT.isNFT,
+                    addressOrNFT.addressOrNftContract,
+                    addressOrNFT.tokenID
+                )
+            );
+    }
+
+    function toString(
+        AddressOrNFT memory addressOrNFT
+    ) internal pure returns (string memory) {
+        if (addressOrNFT.isNFT) {
+            return
+                string(
+                    abi.encodePacked(
+                        StringsUpgradeable.toHexString(
+                            uint160(addressOrNFT.addressOrNftContract)
+                        ),
+                        ":",
+                        StringsUpgradeable.toHexString(addressOrNFT.tokenID)
+                    )
+                );
+        } else {
+            return
+                StringsUpgradeable.toHexString(
+                    uint160(addressOrNFT.addressOrNftContract)
+                );
+        }
+    }
+}
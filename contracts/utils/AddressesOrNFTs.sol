@@ -2,38 +2,54 @@
 
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/utils/Address.sol";
-
 import "@openzeppelin/contracts/utils/Strings.sol";
 
+/**
+ * @dev An address or an NFT, e.g. an entry of the whitelist of a Commander Token.
+ * @dev Whether an entry is an NFT is stored with it, so an NFT can have any ID, including 0, and an entry
+ * @dev doesn't turn into an address, or back, when the code at its address changes.
+ */
 library AddressesOrNFTs {
-    using Address for address;
+    // isNFT is packed with the address, so an entry still takes two slots
     struct AddressOrNFT {
         address addressOrNftContract;
+        bool isNFT;
         uint256 tokenID;
     }
 
-    function isNFT(
-        AddressOrNFT storage addressOrNFT
-    ) public view returns (bool) {
-        return
-            addressOrNFT.addressOrNftContract.isContract() &&
-            addressOrNFT.tokenID != 0;
+    function fromAddress(
+        address account
+    ) internal pure returns (AddressOrNFT memory) {
+        return AddressOrNFT(account, false, 0);
+    }
+
+    function fromNFT(
+        address NFTContract,
+        uint256 NFTID
+    ) internal pure returns (AddressOrNFT memory) {
+        return AddressOrNFT(NFTContract, true, NFTID);
     }
 
-    function getAddress(
-        AddressOrNFT storage addressOrNFT
-    ) public view returns (address) {
+    /**
+     * @dev Returns a key that identifies the entry, which differs between an address and the NFTs of its contract.
+     */
+    function key(
+        AddressOrNFT memory addressOrNFT
+    ) internal pure returns (bytes32) {
         return
-            isNFT(addressOrNFT)
-                ? address(0)
-                : address(addressOrNFT.addressOrNftContract);
+            keccak256(
+                abi.encode(
+                    addressOrNFT.isNFT,
+                    addressOrNFT.addressOrNftContract,
+                    addressOrNFT.tokenID
+                )
+            );
     }
 
     function toString(
-        AddressOrNFT storage addressOrNFT
-    ) public view returns (string memory) {
-        if (isNFT(addressOrNFT)) {
+        AddressOrNFT memory addressOrNFT
+    ) internal pure returns (string memory) {
+        if (addressOrNFT.isNFT) {
             return
                 string(
                     abi.encodePacked(
@@ -0,0 +1,37 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import {
+    developmentChains,
+    getTokenNameAndSymbol,
+} from "../helper-hardhat-config";
+
+/**
+ * Deploys the mintable test contract of CommanderToken, for local experiments.
+ * CommanderToken has no mint function, it is a base for collections to inherit,
+ * so the script is skipped outside development chains, where a collection
+ * deploys its own contract.
+ */
+const deployCommanderToken: DeployFunction = async function (
+    hre: HardhatRuntimeEnvironment
+) {
+    const { deployments, getNamedAccounts, getChainId } = hre;
+    const { deploy, log } = deployments;
+    const { deployer } = await getNamedAccounts();
+    const chainId = parseInt(await getChainId());
+
+    const [name, symbol] = getTokenNameAndSymbol(chainId, "commanderToken");
+
+    const commanderToken = await deploy("CommanderToken", {
+        contract: "MintCommanderTokenTest",
+        from: deployer,
+        args: [name, symbol],
+        log: true,
+    });
+
+    log(`CommanderToken (${name}, ${symbol}) at ${commanderToken.address}`);
+};
+
+export default deployCommanderToken;
+deployCommanderToken.tags = ["all", "CommanderToken"];
+deployCommanderToken.skip = async (hre: HardhatRuntimeEnvironment) =>
+    !developmentChains.includes(hre.network.name);
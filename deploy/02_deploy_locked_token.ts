@@ -0,0 +1,36 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import {
+    developmentChains,
+    getTokenNameAndSymbol,
+} from "../helper-hardhat-config";
+
+/**
+ * Deploys the mintable test contract of LockedToken, for local experiments.
+ * LockedToken has no mint function, it is a base for collections to inherit,
+ * so the script is skipped outside development chains.
+ */
+const deployLockedToken: DeployFunction = async function (
+    hre: HardhatRuntimeEnvironment
+) {
+    const { deployments, getNamedAccounts, getChainId } = hre;
+    const { deploy, log } = deployments;
+    const { deployer } = await getNamedAccounts();
+    const chainId = parseInt(await getChainId());
+
+    const [name, symbol] = getTokenNameAndSymbol(chainId, "lockedToken");
+
+    const lockedToken = await deploy("LockedToken", {
+        contract: "MintLockedTokenTest",
+        from: deployer,
+        args: [name, symbol],
+        log: true,
+    });
+
+    log(`LockedToken (${name}, ${symbol}) at ${lockedToken.address}`);
+};
+
+export default deployLockedToken;
+deployLockedToken.tags = ["all", "LockedToken"];
+deployLockedToken.skip = async (hre: HardhatRuntimeEnvironment) =>
+    !developmentChains.includes(hre.network.name);
@@ -0,0 +1,41 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { developmentChains, networkConfig } from "../helper-hardhat-config";
+
+/**
+ * Deploys RestrictionsRenderer, which any collection can use to render its token URIs.
+ * On development chains it is also set as the renderer of the mintable test contracts,
+ * so the metadata of locally minted tokens can be inspected.
+ */
+const deployRestrictionsRenderer: DeployFunction = async function (
+    hre: HardhatRuntimeEnvironment
+) {
+    const { deployments, getNamedAccounts, getChainId, network } = hre;
+    const { deploy, execute, log } = deployments;
+    const { deployer } = await getNamedAccounts();
+    const chainId = parseInt(await getChainId());
+
+    const renderer = await deploy("RestrictionsRenderer", {
+        from: deployer,
+        args: [],
+        log: true,
+        waitConfirmations: networkConfig[chainId]?.blockConfirmations || 1,
+    });
+
+    log(`RestrictionsRenderer at ${renderer.address}`);
+
+    if (developmentChains.includes(network.name)) {
+        for (const collection of ["CommanderToken", "LockedToken"]) {
+            await execute(
+                collection,
+                { from: deployer },
+                "setMetadataRenderer",
+                renderer.address
+            );
+        }
+    }
+};
+
+export default deployRestrictionsRenderer;
+deployRestrictionsRenderer.tags = ["all", "RestrictionsRenderer"];
+deployRestrictionsRenderer.dependencies = ["CommanderToken", "LockedToken"];
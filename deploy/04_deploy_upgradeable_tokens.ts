@@ -0,0 +1,56 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import {
+    developmentChains,
+    getTokenNameAndSymbol,
+} from "../helper-hardhat-config";
+
+/**
+ * Deploys CommanderTokenUpgradeable and LockedTokenUpgradeable behind transparent proxies,
+ * administered by hardhat-deploy's DefaultProxyAdmin, which the deployer owns.
+ * Running the script again with a changed implementation upgrades the proxies.
+ * The implementations are the mintable test contracts, since the upgradeable
+ * contracts have no mint function, so like the other token scripts it is skipped
+ * outside development chains.
+ */
+const deployUpgradeableTokens: DeployFunction = async function (
+    hre: HardhatRuntimeEnvironment
+) {
+    const { deployments, getNamedAccounts, getChainId } = hre;
+    const { deploy, log } = deployments;
+    const { deployer } = await getNamedAccounts();
+    const chainId = parseInt(await getChainId());
+
+    const tokens: [
+        "CommanderToken" | "LockedToken",
+        "commanderToken" | "lockedToken"
+    ][] = [
+        ["CommanderToken", "commanderToken"],
+        ["LockedToken", "lockedToken"],
+    ];
+
+    for (const [token, configName] of tokens) {
+        const [name, symbol] = getTokenNameAndSymbol(chainId, configName);
+
+        const proxy = await deploy(`${token}Upgradeable`, {
+            contract: `Mint${token}UpgradeableTest`,
+            from: deployer,
+            proxy: {
+                proxyContract: "OpenZeppelinTransparentProxy",
+                execute: {
+                    init: { methodName: "initialize", args: [name, symbol] },
+                },
+            },
+            log: true,
+        });
+
+        log(
+            `${token}Upgradeable (${name}, ${symbol}) at ${proxy.address}, implementation at ${proxy.implementation}`
+        );
+    }
+};
+
+export default deployUpgradeableTokens;
+deployUpgradeableTokens.tags = ["all", "Upgradeable"];
+deployUpgradeableTokens.skip = async (hre: HardhatRuntimeEnvironment) =>
+    !developmentChains.includes(hre.network.name);
@@ -7,4 +7,5 @@ if [ "${SKIP_COMPILE:-}" == true ]; then
 fi
 
 npm run clean
-env COMPILE_MODE=production npm run compile
\ No newline at end of file
+env COMPILE_MODE=production npm run compile
+npx tsc --project tsconfig.sdk.json
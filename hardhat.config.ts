@@ -7,11 +7,31 @@ import "@typechain/hardhat";
 import "hardhat-deploy";
 import "hardhat-gas-reporter";
 import "hardhat-contract-sizer";
+import "./tasks";
+
+// the storage layouts of the contracts, which the upgradeable contracts tests compare, see test/UpgradeableTests.ts
+const STORAGE_LAYOUT_OUTPUT = { "*": { "*": ["storageLayout"] } };
+
+// the optimizer of the contracts that are optimized for size to fit the contract size limit: 1 run, and the default
+// steps of the optimizer of solc 0.8.17 without the FunctionSpecializer (F), which copies functions for their constant arguments
+const SIZE_OPTIMIZER = {
+  enabled: true,
+  runs: 1,
+  details: {
+    yul: true,
+    yulDetails: {
+      optimizerSteps:
+        "dhfoDgvulfnTUtnIf[xa[r]EscLMcCTUtTOntnfDIulLculVcul [j]Tpeulxa[rul]xa[r]cLgvifCTUca[r]LSsTOtfDnca[r]Iulc]jmul[jul] VcTOcul jmul",
+    },
+  },
+};
 
 module.exports = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
+      // the mintable test contracts add functions on top of the full contracts, which may pass the contract size limit
+      allowUnlimitedContractSize: true,
       // // If you want to do some forking, uncomment this
       // forking: {
       //   url: MAINNET_RPC_URL
@@ -37,13 +57,53 @@ module.exports = {
             enabled: true,
             runs: 1000,
           },
+          outputSelection: STORAGE_LAYOUT_OUTPUT,
         }
       },
     ],
+    overrides: {
+      // optimized for size to fit the contract size limit
+      "contracts/CommanderToken.sol": {
+        version: "0.8.17",
+        settings: {
+          optimizer: SIZE_OPTIMIZER,
+          viaIR: true,
+        },
+      },
+      // the implementation of the upgradeable Commander Token, optimized for size like CommanderToken
+      "contracts/upgradeable/CommanderTokenUpgradeable.sol": {
+        version: "0.8.17",
+        settings: {
+          optimizer: SIZE_OPTIMIZER,
+          viaIR: true,
+          outputSelection: STORAGE_LAYOUT_OUTPUT,
+        },
+      },
+      // combines Commander Token and Locked Token, so it is optimized for size, see "Commander Locked Token" in the README
+      "contracts/CommanderLockedToken.sol": {
+        version: "0.8.17",
+        settings: {
+          optimizer: SIZE_OPTIMIZER,
+          viaIR: true,
+        },
+      },
+      "contracts/test/MintCommanderLockedTokenTest.sol": {
+        version: "0.8.17",
+        settings: {
+          optimizer: SIZE_OPTIMIZER,
+          viaIR: true,
+        },
+      },
+    },
   },
   mocha: {
     timeout: 100000,
   },
+  gasReporter: {
+    // run `yarn test:gas` to print the gas used by each function, e.g. to compare the batch functions with single calls
+    enabled: process.env.REPORT_GAS !== undefined,
+    currency: "USD",
+  },
   typechain: {
     outDir: "typechain-types",
     target: "ethers-v5",
@@ -1,7 +1,17 @@
-interface INetworkConfig {
+export interface INetworkConfig {
     [key: number]: any;
 }
-const networkConfig: INetworkConfig = {
+
+// name and symbol used when a network doesn't specify its own
+export const DEFAULT_COMMANDER_TOKEN_NAME = "CommanderToken";
+export const DEFAULT_COMMANDER_TOKEN_SYMBOL = "CT";
+export const DEFAULT_LOCKED_TOKEN_NAME = "LockedToken";
+export const DEFAULT_LOCKED_TOKEN_SYMBOL = "LT";
+
+// the settings of each network by chainId. The token scripts deploy only to the development networks, which both
+// have chainId 31337: the in-process hardhat network and a local node. The renderer script deploys to any network,
+// and waits for its blockConfirmations
+export const networkConfig: INetworkConfig = {
     0: {
         name: "hardhat",
         fee: "100000000000000000",
@@ -17,6 +27,10 @@ const networkConfig: INetworkConfig = {
             "0x6c3699283bda56ad74f6b855546325b68d482e983852a7a82979cc4807b641f4",
         jobId: "29fa9aa13bf1468788b7cc4a500a45b8",
         fundAmount: "1000000000000000000",
+        commanderTokenName: "CommanderTokenDev",
+        commanderTokenSymbol: "CTD",
+        lockedTokenName: "LockedTokenDev",
+        lockedTokenSymbol: "LTD",
     },
     42: {
         name: "kovan",
@@ -46,27 +60,46 @@ const networkConfig: INetworkConfig = {
         name: "mainnet",
         linkToken: "0x514910771af9ca656af840dff83e8264ecf986ca",
         fundAmount: "0",
+        blockConfirmations: 6,
     },
     5: {
         name: "goerli",
         linkToken: "0x326c977e6efc84e512bb9c30f76e30c160ed06fb",
         fundAmount: "0",
+        blockConfirmations: 6,
     },
 };
 
-const developmentChains = ["hardhat", "localhost"];
+export const developmentChains = ["hardhat", "localhost"];
 
-const getNetworkIdFromName = async (networkIdName: string) => {
+export const getNetworkIdFromName = async (networkIdName: string) => {
     for (const id in networkConfig) {
-        if (networkConfig[id][`"name"`] === networkIdName) {
+        if (networkConfig[id]["name"] === networkIdName) {
             return id;
         }
     }
     return null;
 };
 
-exports = {
-    networkConfig,
-    getNetworkIdFromName,
-    developmentChains,
+/**
+ * Returns the name and symbol to deploy a token with on the network with chainId,
+ * falling back to the defaults above.
+ */
+export const getTokenNameAndSymbol = (
+    chainId: number,
+    token: "commanderToken" | "lockedToken"
+): [string, string] => {
+    const config = networkConfig[chainId] || {};
+
+    if (token === "commanderToken") {
+        return [
+            config.commanderTokenName || DEFAULT_COMMANDER_TOKEN_NAME,
+            config.commanderTokenSymbol || DEFAULT_COMMANDER_TOKEN_SYMBOL,
+        ];
+    }
+
+    return [
+        config.lockedTokenName || DEFAULT_LOCKED_TOKEN_NAME,
+        config.lockedTokenSymbol || DEFAULT_LOCKED_TOKEN_SYMBOL,
+    ];
 };
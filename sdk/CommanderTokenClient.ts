@@ -0,0 +1,450 @@
+import {
+    BigNumber,
+    BigNumberish,
+    ContractTransaction,
+    Signer,
+    constants,
+    providers,
+} from "ethers";
+import { ICommanderToken, ICommanderToken__factory } from "../typechain-types";
+import {
+    BlockReason,
+    BlockingToken,
+    BurnBlock,
+    ExternalToken,
+    TransferBlock,
+} from "./types";
+
+// the number of items requested in each call to a paginated view function
+const PAGE_SIZE = 100;
+
+// ICommanderToken.BlockReason, by the value of the enum
+const BLOCK_REASONS: (BlockReason | null)[] = [
+    null,
+    "nontransferable",
+    "not-whitelisted",
+    "nonburnable",
+    "dependency",
+    "policy",
+];
+
+const toBlockingTokens = (
+    path: ICommanderToken.BlockingTokenStructOutput[]
+): BlockingToken[] =>
+    path.map((step) => ({
+        contractAddress: step.tokensCollection,
+        tokenId: step.tokenID,
+        reason: BLOCK_REASONS[step.reason] as BlockReason,
+    }));
+
+/**
+ * @title Commander Token client
+ * @dev A typed wrapper around a deployed ICommanderToken contract.
+ * @dev Token ids can be passed as any BigNumberish (number, string, bigint or BigNumber).
+ */
+export class CommanderTokenClient {
+    readonly contract: ICommanderToken;
+
+    constructor(
+        address: string,
+        signerOrProvider: Signer | providers.Provider
+    ) {
+        this.contract = ICommanderToken__factory.connect(
+            address,
+            signerOrProvider
+        );
+    }
+
+    get address(): string {
+        return this.contract.address;
+    }
+
+    /**
+     * @dev Returns a client for the same contract that sends transactions from signer.
+     */
+    connect(signer: Signer): CommanderTokenClient {
+        return new CommanderTokenClient(this.address, signer);
+    }
+
+    /*************************
+     * Dependence functions  *
+     *************************/
+
+    /**
+     * @dev Makes tokenId depend on commanderId from commanderAddress.
+     */
+    addDependency(
+        tokenId: BigNumberish,
+        commanderAddress: string,
+        commanderId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract.setDependence(
+            BigNumber.from(tokenId),
+            commanderAddress,
+            BigNumber.from(commanderId)
+        );
+    }
+
+    /**
+     * @dev Makes tokenId depend on commanderId from commanderAddress, without checking that
+     * @dev commanderAddress is a Commander Token and that commanderId exists.
+     */
+    addDependencyUnsafe(
+        tokenId: BigNumberish,
+        commanderAddress: string,
+        commanderId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract.setDependenceUnsafe(
+            BigNumber.from(tokenId),
+            commanderAddress,
+            BigNumber.from(commanderId)
+        );
+    }
+
+    /**
+     * @dev Removes the dependency of tokenId on commanderId from commanderAddress.
+     */
+    removeDependency(
+        tokenId: BigNumberish,
+        commanderAddress: string,
+        commanderId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract.removeDependence(
+            BigNumber.from(tokenId),
+            commanderAddress,
+            BigNumber.from(commanderId)
+        );
+    }
+
+    isDependent(
+        tokenId: BigNumberish,
+        commanderAddress: string,
+        commanderId: BigNumberish
+    ): Promise<boolean> {
+        return this.contract.isDependent(
+            BigNumber.from(tokenId),
+            commanderAddress,
+            BigNumber.from(commanderId)
+        );
+    }
+
+    /**
+     * @dev Returns all the tokens tokenId depends on, fetching them page by page.
+     */
+    async getDependencies(tokenId: BigNumberish): Promise<ExternalToken[]> {
+        const id = BigNumber.from(tokenId);
+        const count = (await this.contract.getDependenciesCount(id)).toNumber();
+        const dependencies: ExternalToken[] = [];
+
+        for (let offset = 0; offset < count; offset += PAGE_SIZE) {
+            const [contracts, ids] = await this.contract.getDependencies(
+                id,
+                offset,
+                PAGE_SIZE
+            );
+            contracts.forEach((contractAddress, i) =>
+                dependencies.push({ contractAddress, tokenId: ids[i] })
+            );
+        }
+
+        return dependencies;
+    }
+
+    /*****************************************
+     * Transferability & burnability setters *
+     *****************************************/
+
+    setTransferable(
+        tokenId: BigNumberish,
+        transferable: boolean
+    ): Promise<ContractTransaction> {
+        return this.contract.setTransferable(
+            BigNumber.from(tokenId),
+            transferable
+        );
+    }
+
+    setBurnable(
+        tokenId: BigNumberish,
+        burnable: boolean
+    ): Promise<ContractTransaction> {
+        return this.contract.setBurnable(BigNumber.from(tokenId), burnable);
+    }
+
+    /**
+     * @dev Makes tokenId transferable only from start until end (unix timestamps in seconds),
+     * @dev an end of 0 means forever.
+     */
+    setTransferableSchedule(
+        tokenId: BigNumberish,
+        start: BigNumberish,
+        end: BigNumberish = 0
+    ): Promise<ContractTransaction> {
+        return this.contract.setTransferableSchedule(
+            BigNumber.from(tokenId),
+            BigNumber.from(start),
+            BigNumber.from(end)
+        );
+    }
+
+    /**
+     * @dev Makes tokenId burnable only from start until end (unix timestamps in seconds),
+     * @dev an end of 0 means forever.
+     */
+    setBurnableSchedule(
+        tokenId: BigNumberish,
+        start: BigNumberish,
+        end: BigNumberish = 0
+    ): Promise<ContractTransaction> {
+        return this.contract.setBurnableSchedule(
+            BigNumber.from(tokenId),
+            BigNumber.from(start),
+            BigNumber.from(end)
+        );
+    }
+
+    /**************************
+     * Controller functions   *
+     **************************/
+
+    /**
+     * @dev Returns the address controlling the restrictions of tokenId, or the zero address if its owner does.
+     */
+    controllerOf(tokenId: BigNumberish): Promise<string> {
+        return this.contract.controllerOf(BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev Hands over the control of the restrictions of tokenId to controller.
+     */
+    setController(
+        tokenId: BigNumberish,
+        controller: string
+    ): Promise<ContractTransaction> {
+        return this.contract.setController(BigNumber.from(tokenId), controller);
+    }
+
+    /**
+     * @dev Transfers tokenId to `to` regardless of its restrictions, must be sent by its controller.
+     */
+    recover(tokenId: BigNumberish, to: string): Promise<ContractTransaction> {
+        return this.contract.recover(BigNumber.from(tokenId), to);
+    }
+
+    /**
+     * @dev Attaches a transfer policy to tokenId, or detaches it if policy is the zero address.
+     */
+    setTransferPolicy(
+        tokenId: BigNumberish,
+        policy: string
+    ): Promise<ContractTransaction> {
+        return this.contract.setTransferPolicy(BigNumber.from(tokenId), policy);
+    }
+
+    /**
+     * @dev Returns the transfer policy attached to tokenId, or the zero address if there is none.
+     */
+    transferPolicyOf(tokenId: BigNumberish): Promise<string> {
+        return this.contract.transferPolicyOf(BigNumber.from(tokenId));
+    }
+
+    /************************
+     * Whitelist functions  *
+     ************************/
+
+    /**
+     * @dev Adds (or removes, if isWhitelisted is false) an address to the whitelist of tokenId.
+     */
+    whitelist(
+        tokenId: BigNumberish,
+        address: string,
+        isWhitelisted = true
+    ): Promise<ContractTransaction> {
+        return this.contract.setTransferWhitelist(
+            BigNumber.from(tokenId),
+            address,
+            isWhitelisted
+        );
+    }
+
+    isWhitelisted(tokenId: BigNumberish, address: string): Promise<boolean> {
+        return this.contract.isAddressWhitelisted(
+            BigNumber.from(tokenId),
+            address
+        );
+    }
+
+    getWhitelistedAddresses(tokenId: BigNumberish): Promise<string[]> {
+        return this.contract.getWhitelistedAddresses(BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev Adds (or removes, if isWhitelisted is false) an NFT to the whitelist of tokenId,
+     * @dev which makes tokenId transferable to whoever owns the NFT.
+     */
+    whitelistNFT(
+        tokenId: BigNumberish,
+        nft: { contractAddress: string; tokenId: BigNumberish },
+        isWhitelisted = true
+    ): Promise<ContractTransaction> {
+        return this.contract.setTransferWhitelistNFT(
+            BigNumber.from(tokenId),
+            nft.contractAddress,
+            BigNumber.from(nft.tokenId),
+            isWhitelisted
+        );
+    }
+
+    isNFTWhitelisted(
+        tokenId: BigNumberish,
+        nft: { contractAddress: string; tokenId: BigNumberish }
+    ): Promise<boolean> {
+        return this.contract.isNFTWhitelisted(
+            BigNumber.from(tokenId),
+            nft.contractAddress,
+            BigNumber.from(nft.tokenId)
+        );
+    }
+
+    async getWhitelistedNFTs(tokenId: BigNumberish): Promise<ExternalToken[]> {
+        const [contracts, ids] = await this.contract.getWhitelistedNFTs(
+            BigNumber.from(tokenId)
+        );
+
+        return contracts.map((contractAddress, i) => ({
+            contractAddress,
+            tokenId: ids[i],
+        }));
+    }
+
+    /************************************
+     * Token-bound ownership functions  *
+     ************************************/
+
+    /**
+     * @dev Binds tokenId to an NFT, so tokenId is owned by whoever owns the NFT.
+     */
+    bindToNFT(
+        tokenId: BigNumberish,
+        nft: { contractAddress: string; tokenId: BigNumberish }
+    ): Promise<ContractTransaction> {
+        return this.contract.bindToNFT(
+            BigNumber.from(tokenId),
+            nft.contractAddress,
+            BigNumber.from(nft.tokenId)
+        );
+    }
+
+    /**
+     * @dev Unbinds tokenId from its NFT, and transfers it to the owner of the NFT.
+     */
+    unbindFromNFT(tokenId: BigNumberish): Promise<ContractTransaction> {
+        return this.contract.unbindFromNFT(BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev Returns the NFT tokenId is bound to, or null if it isn't bound.
+     */
+    async boundNFTOf(tokenId: BigNumberish): Promise<ExternalToken | null> {
+        const [contractAddress, nftId] = await this.contract.boundNFTOf(
+            BigNumber.from(tokenId)
+        );
+
+        if (contractAddress === constants.AddressZero) {
+            return null;
+        }
+
+        return { contractAddress, tokenId: nftId };
+    }
+
+    /*********************************
+     * Transfer and burn evaluation  *
+     *********************************/
+
+    /**
+     * @dev Checks if tokenId, including all of its dependencies, can be transferred to `to`.
+     */
+    canTransfer(tokenId: BigNumberish, to: string): Promise<boolean> {
+        return this.contract.isTokenTransferableToAddress(
+            BigNumber.from(tokenId),
+            to
+        );
+    }
+
+    /**
+     * @dev Checks if tokenId, including all of its dependencies, can be burned.
+     */
+    canBurn(tokenId: BigNumberish): Promise<boolean> {
+        return this.contract.isTokenBurnable(BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev Returns null if tokenId can be transferred to `to`, or the reason it can't otherwise,
+     * @dev including the path through its dependencies to the token that blocks the transfer.
+     */
+    async explainTransferBlock(
+        tokenId: BigNumberish,
+        to: string
+    ): Promise<TransferBlock | null> {
+        const path = toBlockingTokens(
+            await this.contract.whyNotTransferable(BigNumber.from(tokenId), to)
+        );
+
+        if (path.length === 0) {
+            return null;
+        }
+
+        return { ...path[0], to, path };
+    }
+
+    /**
+     * @dev Returns null if tokenId can be burned, or the reason it can't otherwise,
+     * @dev including the path through its dependencies to the token that blocks the burn.
+     */
+    async explainBurnBlock(tokenId: BigNumberish): Promise<BurnBlock | null> {
+        const path = toBlockingTokens(
+            await this.contract.whyNotBurnable(BigNumber.from(tokenId))
+        );
+
+        if (path.length === 0) {
+            return null;
+        }
+
+        return { ...path[0], path };
+    }
+
+    /*************************
+     * ERC721 functions      *
+     *************************/
+
+    ownerOf(tokenId: BigNumberish): Promise<string> {
+        return this.contract.ownerOf(BigNumber.from(tokenId));
+    }
+
+    transfer(
+        from: string,
+        to: string,
+        tokenId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract.transferFrom(from, to, BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev safeTransferFrom is overloaded in ERC721, so we call it by its full signature.
+     */
+    safeTransfer(
+        from: string,
+        to: string,
+        tokenId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract["safeTransferFrom(address,address,uint256)"](
+            from,
+            to,
+            BigNumber.from(tokenId)
+        );
+    }
+
+    burn(tokenId: BigNumberish): Promise<ContractTransaction> {
+        return this.contract.burn(BigNumber.from(tokenId));
+    }
+}
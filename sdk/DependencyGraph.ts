@@ -0,0 +1,468 @@
+import { BigNumber, BigNumberish, constants, providers, utils } from "ethers";
+import {
+    ICommanderToken__factory,
+    ILockedToken__factory,
+} from "../typechain-types";
+import { ExternalToken } from "./types";
+
+/**
+ * @dev The state of a single token, as reconstructed from events.
+ */
+interface TokenNode {
+    // the Transfer recipient, which is the Commander Token contract itself while the token is bound to an NFT
+    owner: string;
+    // key of the NFT the token is bound to, if any
+    boundTo?: string;
+    // keys of the tokens this token depends on
+    dependencies: Set<string>;
+    // keys of the tokens that depend on this token
+    dependents: Set<string>;
+    // key of the token this token is locked to, if any
+    lockedTo?: string;
+    // keys of the tokens locked to this token
+    lockedTokens: Set<string>;
+    // the whitelisted addresses, and the keys of the whitelisted NFTs
+    whitelist: Set<string>;
+}
+
+/**
+ * @dev The JSON representation of a DependencyGraph, see DependencyGraph.toJSON.
+ */
+export interface DependencyGraphJSON {
+    lastBlock: number;
+    tokens: {
+        [key: string]: {
+            owner: string;
+            boundTo?: string;
+            dependencies: string[];
+            lockedTo?: string;
+            whitelist: string[];
+        };
+    };
+}
+
+// the events of both standards, including ERC721's Transfer
+const commanderTokenInterface = ICommanderToken__factory.createInterface();
+const lockedTokenInterface = ILockedToken__factory.createInterface();
+
+const tokenKey = (contractAddress: string, tokenId: BigNumberish): string =>
+    `${utils.getAddress(contractAddress)}:${BigNumber.from(
+        tokenId
+    ).toString()}`;
+
+// whitelisted addresses are kept as they are, and whitelisted NFTs by their keys
+const isTokenKey = (key: string): boolean => key.includes(":");
+
+const parseTokenKey = (key: string): ExternalToken => {
+    const [contractAddress, tokenId] = key.split(":");
+    return { contractAddress, tokenId: BigNumber.from(tokenId) };
+};
+
+/**
+ * @title Dependency and lock graph
+ * @dev Reconstructs the dependencies and lockings of tokens from one or more Commander Token
+ * @dev and Locked Token contracts by replaying their events:
+ * @dev NewDependence, RemovedDependence, NewLocking, RemovedLocking, BoundToNFT, UnboundFromNFT,
+ * @dev the whitelist events and ERC721's Transfer.
+ * @dev A burn emits the removal of the dependencies, lockings and whitelist of the token before its Transfer
+ * @dev to the zero address, after which the graph forgets the token, unless other tokens still depend on it.
+ * @dev The graph is kept in memory and can be saved to and loaded from JSON.
+ */
+export class DependencyGraph {
+    private tokens = new Map<string, TokenNode>();
+
+    // the last block that was replayed
+    lastBlock = -1;
+
+    /**
+     * @dev Builds a graph from all the events of contractAddresses up to toBlock.
+     */
+    static async fromContracts(
+        provider: providers.Provider,
+        contractAddresses: string[],
+        toBlock?: number
+    ): Promise<DependencyGraph> {
+        const graph = new DependencyGraph();
+        await graph.sync(provider, contractAddresses, toBlock);
+        return graph;
+    }
+
+    /**
+     * @dev Replays the events of contractAddresses emitted after the last replayed block, up to toBlock.
+     * @dev Events from all contracts are applied in the order they were emitted.
+     */
+    async sync(
+        provider: providers.Provider,
+        contractAddresses: string[],
+        toBlock?: number
+    ): Promise<void> {
+        const lastBlock =
+            toBlock === undefined ? await provider.getBlockNumber() : toBlock;
+
+        if (lastBlock <= this.lastBlock) {
+            return;
+        }
+
+        const logs: providers.Log[] = [];
+        for (const address of contractAddresses) {
+            logs.push(
+                ...(await provider.getLogs({
+                    address,
+                    fromBlock: this.lastBlock + 1,
+                    toBlock: lastBlock,
+                }))
+            );
+        }
+
+        logs.sort((a, b) =>
+            a.blockNumber !== b.blockNumber
+                ? a.blockNumber - b.blockNumber
+                : a.logIndex - b.logIndex
+        );
+
+        for (const log of logs) {
+            this.applyLog(log);
+        }
+
+        this.lastBlock = lastBlock;
+    }
+
+    /**
+     * @dev Applies a single log to the graph. Logs of unrelated events are ignored.
+     */
+    applyLog(log: providers.Log): void {
+        const event = parseLog(log);
+        if (event === null) {
+            return;
+        }
+
+        const { name, args } = event;
+        const contractAddress = log.address;
+
+        if (name === "NewDependence") {
+            this.addEdge(
+                tokenKey(contractAddress, args.tokenID),
+                tokenKey(args.CTContractAddress, args.CTID)
+            );
+        } else if (name === "RemovedDependence") {
+            this.removeEdge(
+                tokenKey(contractAddress, args.tokenID),
+                tokenKey(args.CTContractAddress, args.CTID)
+            );
+        } else if (name === "NewLocking") {
+            this.addLocking(
+                tokenKey(contractAddress, args.tokenID),
+                tokenKey(args.LockingContract, args.LockingID)
+            );
+        } else if (name === "RemovedLocking") {
+            this.removeLocking(tokenKey(contractAddress, args.tokenID));
+        } else if (name === "TransferWhitelistSet") {
+            this.setWhitelisted(
+                tokenKey(contractAddress, args.tokenID),
+                utils.getAddress(args.whitelistAddress),
+                args.isWhitelisted
+            );
+        } else if (name === "TransferWhitelistNFTSet") {
+            this.setWhitelisted(
+                tokenKey(contractAddress, args.tokenID),
+                tokenKey(args.NFTContract, args.NFTID),
+                args.isWhitelisted
+            );
+        } else if (name === "BoundToNFT") {
+            this.node(tokenKey(contractAddress, args.tokenID)).boundTo =
+                tokenKey(args.NFTContract, args.NFTID);
+        } else if (name === "UnboundFromNFT") {
+            this.node(tokenKey(contractAddress, args.tokenID)).boundTo =
+                undefined;
+        } else if (name === "Transfer") {
+            const key = tokenKey(contractAddress, args.tokenId);
+            if (args.to === constants.AddressZero) {
+                this.removeToken(key);
+            } else {
+                this.node(key).owner = args.to;
+            }
+        }
+    }
+
+    /***********
+     * Queries *
+     ***********/
+
+    /**
+     * @dev Returns the owner of a token, or the zero address if the graph doesn't know it.
+     * @dev A token bound to an NFT is owned by the owner of the NFT, as in CommanderToken.ownerOf,
+     * @dev so its owner is only known if the contract of the NFT is synced too.
+     */
+    ownerOf(contractAddress: string, tokenId: BigNumberish): string {
+        let key = tokenKey(contractAddress, tokenId);
+        let node = this.tokens.get(key);
+
+        // the contracts don't let bindings form a cycle, but a graph loaded from JSON might
+        const visited = new Set<string>([key]);
+        while (node && node.boundTo && !visited.has(node.boundTo)) {
+            key = node.boundTo;
+            visited.add(key);
+            node = this.tokens.get(key);
+        }
+
+        return node && !node.boundTo ? node.owner : constants.AddressZero;
+    }
+
+    /**
+     * @dev Returns the NFT the token is bound to, or null if it isn't bound.
+     */
+    boundNFTOf(
+        contractAddress: string,
+        tokenId: BigNumberish
+    ): ExternalToken | null {
+        const node = this.tokens.get(tokenKey(contractAddress, tokenId));
+        return node && node.boundTo ? parseTokenKey(node.boundTo) : null;
+    }
+
+    /**
+     * @dev What does the token depend on.
+     */
+    dependenciesOf(
+        contractAddress: string,
+        tokenId: BigNumberish
+    ): ExternalToken[] {
+        const node = this.tokens.get(tokenKey(contractAddress, tokenId));
+        return node ? [...node.dependencies].map(parseTokenKey) : [];
+    }
+
+    /**
+     * @dev Who depends on the token.
+     */
+    dependentsOf(
+        contractAddress: string,
+        tokenId: BigNumberish
+    ): ExternalToken[] {
+        const node = this.tokens.get(tokenKey(contractAddress, tokenId));
+        return node ? [...node.dependents].map(parseTokenKey) : [];
+    }
+
+    /**
+     * @dev Returns the token the token is locked to, or null if it is unlocked.
+     */
+    lockedTo(
+        contractAddress: string,
+        tokenId: BigNumberish
+    ): ExternalToken | null {
+        const node = this.tokens.get(tokenKey(contractAddress, tokenId));
+        return node && node.lockedTo ? parseTokenKey(node.lockedTo) : null;
+    }
+
+    /**
+     * @dev Returns the addresses in the whitelist of the token.
+     */
+    whitelistedAddressesOf(
+        contractAddress: string,
+        tokenId: BigNumberish
+    ): string[] {
+        const node = this.tokens.get(tokenKey(contractAddress, tokenId));
+        return node
+            ? [...node.whitelist].filter((entry) => !isTokenKey(entry))
+            : [];
+    }
+
+    /**
+     * @dev Returns the NFTs in the whitelist of the token, whose owners the token can be transferred to.
+     */
+    whitelistedNFTsOf(
+        contractAddress: string,
+        tokenId: BigNumberish
+    ): ExternalToken[] {
+        const node = this.tokens.get(tokenKey(contractAddress, tokenId));
+        return node
+            ? [...node.whitelist].filter(isTokenKey).map(parseTokenKey)
+            : [];
+    }
+
+    /**
+     * @dev What moves if the token is transferred: the token itself and, recursively,
+     * @dev all the tokens locked to it.
+     */
+    movesWith(contractAddress: string, tokenId: BigNumberish): ExternalToken[] {
+        const root = tokenKey(contractAddress, tokenId);
+        const visited = new Set<string>([root]);
+        const queue = [root];
+
+        while (queue.length > 0) {
+            const node = this.tokens.get(queue.shift() as string);
+            if (!node) {
+                continue;
+            }
+
+            for (const locked of node.lockedTokens) {
+                if (!visited.has(locked)) {
+                    visited.add(locked);
+                    queue.push(locked);
+                }
+            }
+        }
+
+        return [...visited].map(parseTokenKey);
+    }
+
+    /*****************
+     * Serialization *
+     *****************/
+
+    toJSON(): DependencyGraphJSON {
+        const tokens: DependencyGraphJSON["tokens"] = {};
+
+        this.tokens.forEach((node, key) => {
+            tokens[key] = {
+                owner: node.owner,
+                boundTo: node.boundTo,
+                dependencies: [...node.dependencies],
+                lockedTo: node.lockedTo,
+                whitelist: [...node.whitelist],
+            };
+        });
+
+        return { lastBlock: this.lastBlock, tokens };
+    }
+
+    static fromJSON(json: DependencyGraphJSON): DependencyGraph {
+        const graph = new DependencyGraph();
+        graph.lastBlock = json.lastBlock;
+
+        for (const key of Object.keys(json.tokens)) {
+            const token = json.tokens[key];
+            graph.node(key).owner = token.owner;
+            graph.node(key).boundTo = token.boundTo;
+
+            for (const dependency of token.dependencies) {
+                graph.addEdge(key, dependency);
+            }
+
+            if (token.lockedTo) {
+                graph.addLocking(key, token.lockedTo);
+            }
+
+            for (const entry of token.whitelist) {
+                graph.setWhitelisted(key, entry, true);
+            }
+        }
+
+        return graph;
+    }
+
+    /*********************
+     * Graph maintenance *
+     *********************/
+
+    private node(key: string): TokenNode {
+        let node = this.tokens.get(key);
+
+        if (!node) {
+            node = {
+                owner: constants.AddressZero,
+                dependencies: new Set(),
+                dependents: new Set(),
+                lockedTokens: new Set(),
+                whitelist: new Set(),
+            };
+            this.tokens.set(key, node);
+        }
+
+        return node;
+    }
+
+    private addEdge(key: string, commanderKey: string): void {
+        this.node(key).dependencies.add(commanderKey);
+        this.node(commanderKey).dependents.add(key);
+    }
+
+    private removeEdge(key: string, commanderKey: string): void {
+        this.node(key).dependencies.delete(commanderKey);
+        this.node(commanderKey).dependents.delete(key);
+
+        // a burned commander token is kept only while tokens depend on it
+        this.forgetIfEmpty(commanderKey);
+    }
+
+    private addLocking(key: string, lockingKey: string): void {
+        this.node(key).lockedTo = lockingKey;
+        this.node(lockingKey).lockedTokens.add(key);
+    }
+
+    private removeLocking(key: string): void {
+        const node = this.node(key);
+
+        if (node.lockedTo) {
+            this.node(node.lockedTo).lockedTokens.delete(key);
+            node.lockedTo = undefined;
+        }
+    }
+
+    private setWhitelisted(
+        key: string,
+        entry: string,
+        isWhitelisted: boolean
+    ): void {
+        if (isWhitelisted) {
+            this.node(key).whitelist.add(entry);
+        } else {
+            this.node(key).whitelist.delete(entry);
+        }
+    }
+
+    // a burned token loses its own dependencies, lockings, whitelist and binding, which the contracts emit the
+    // removal of before the burn, except for the binding, but tokens that depend on it keep their dependence, as the contracts do
+    private removeToken(key: string): void {
+        const node = this.node(key);
+
+        for (const commanderKey of [...node.dependencies]) {
+            this.removeEdge(key, commanderKey);
+        }
+
+        this.removeLocking(key);
+        for (const locked of node.lockedTokens) {
+            this.node(locked).lockedTo = undefined;
+        }
+        node.lockedTokens.clear();
+        node.whitelist.clear();
+
+        node.boundTo = undefined;
+        node.owner = constants.AddressZero;
+        this.forgetIfEmpty(key);
+    }
+
+    // forgets a token without an owner that nothing refers to, e.g. a burned token
+    private forgetIfEmpty(key: string): void {
+        const node = this.tokens.get(key);
+
+        if (
+            node &&
+            node.owner === constants.AddressZero &&
+            node.boundTo === undefined &&
+            node.dependencies.size === 0 &&
+            node.dependents.size === 0 &&
+            node.lockedTo === undefined &&
+            node.lockedTokens.size === 0 &&
+            node.whitelist.size === 0
+        ) {
+            this.tokens.delete(key);
+        }
+    }
+}
+
+/**
+ * @dev Parses a log with the interfaces of both standards, returns null for unrelated events.
+ */
+function parseLog(log: providers.Log): utils.LogDescription | null {
+    for (const contractInterface of [
+        commanderTokenInterface,
+        lockedTokenInterface,
+    ]) {
+        try {
+            return contractInterface.parseLog(log);
+        } catch (e) {
+            // not an event of this interface
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,202 @@
+import {
+    BigNumber,
+    BigNumberish,
+    ContractTransaction,
+    Signer,
+    constants,
+    providers,
+} from "ethers";
+import { ILockedToken, ILockedToken__factory } from "../typechain-types";
+import { BlockingToken, ExternalToken, TransferBlock } from "./types";
+
+// the number of items requested in each call to a paginated view function
+const PAGE_SIZE = 100;
+
+/**
+ * @title Locked Token client
+ * @dev A typed wrapper around a deployed ILockedToken contract.
+ * @dev Token ids can be passed as any BigNumberish (number, string, bigint or BigNumber).
+ */
+export class LockedTokenClient {
+    readonly contract: ILockedToken;
+
+    constructor(
+        address: string,
+        signerOrProvider: Signer | providers.Provider
+    ) {
+        this.contract = ILockedToken__factory.connect(
+            address,
+            signerOrProvider
+        );
+    }
+
+    get address(): string {
+        return this.contract.address;
+    }
+
+    /**
+     * @dev Returns a client for the same contract that sends transactions from signer.
+     */
+    connect(signer: Signer): LockedTokenClient {
+        return new LockedTokenClient(this.address, signer);
+    }
+
+    /**********************
+     * Locking functions  *
+     **********************/
+
+    /**
+     * @dev Locks tokenId to lockingId from lockingAddress. Both tokens must have the same owner.
+     */
+    lock(
+        tokenId: BigNumberish,
+        lockingAddress: string,
+        lockingId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract.lock(
+            BigNumber.from(tokenId),
+            lockingAddress,
+            BigNumber.from(lockingId)
+        );
+    }
+
+    /**
+     * @dev Returns the token tokenId is locked to, or null if it is unlocked.
+     */
+    async lockedTo(tokenId: BigNumberish): Promise<ExternalToken | null> {
+        const [contractAddress, lockingId] = await this.contract.isLocked(
+            BigNumber.from(tokenId)
+        );
+
+        if (contractAddress === constants.AddressZero) {
+            return null;
+        }
+
+        return { contractAddress, tokenId: lockingId };
+    }
+
+    /**
+     * @dev Returns all the tokens locked to tokenId, fetching them page by page.
+     */
+    async getLockedTokens(tokenId: BigNumberish): Promise<ExternalToken[]> {
+        const id = BigNumber.from(tokenId);
+        const count = (await this.contract.getLockedTokensCount(id)).toNumber();
+        const lockedTokens: ExternalToken[] = [];
+
+        for (let offset = 0; offset < count; offset += PAGE_SIZE) {
+            const [contracts, ids] = await this.contract.getLockedTokens(
+                id,
+                offset,
+                PAGE_SIZE
+            );
+            contracts.forEach((contractAddress, i) =>
+                lockedTokens.push({ contractAddress, tokenId: ids[i] })
+            );
+        }
+
+        return lockedTokens;
+    }
+
+    /**
+     * @dev Returns the bundle of tokenId: tokenId itself, followed by all the tokens locked to it,
+     * @dev directly or through other tokens. The bundle is transferred and burned together.
+     */
+    async getBundle(tokenId: BigNumberish): Promise<ExternalToken[]> {
+        const [contracts, ids] = await this.contract.getBundle(
+            BigNumber.from(tokenId)
+        );
+
+        return contracts.map((contractAddress, i) => ({
+            contractAddress,
+            tokenId: ids[i],
+        }));
+    }
+
+    /**
+     * @dev Checks if spender is approved for the root of the bundle tokenId is in, which approves the whole bundle.
+     */
+    isApprovedForBundle(
+        spender: string,
+        tokenId: BigNumberish
+    ): Promise<boolean> {
+        return this.contract.isApprovedForBundle(
+            spender,
+            BigNumber.from(tokenId)
+        );
+    }
+
+    /*********************************
+     * Transfer and burn evaluation  *
+     *********************************/
+
+    /**
+     * @dev Checks if the owner of tokenId can transfer it, i.e. it isn't locked to another token.
+     */
+    async canTransfer(tokenId: BigNumberish, to: string): Promise<boolean> {
+        return (await this.explainTransferBlock(tokenId, to)) === null;
+    }
+
+    /**
+     * @dev Returns null if the owner of tokenId can transfer it to `to`, or the reason it can't otherwise.
+     */
+    async explainTransferBlock(
+        tokenId: BigNumberish,
+        to: string
+    ): Promise<TransferBlock | null> {
+        const id = BigNumber.from(tokenId);
+        const lockedTo = await this.lockedTo(id);
+
+        if (lockedTo !== null) {
+            const lockedToken: BlockingToken = {
+                contractAddress: this.address,
+                tokenId: id,
+                reason: "locked",
+            };
+
+            return { ...lockedToken, to, path: [lockedToken], lockedTo };
+        }
+
+        return null;
+    }
+
+    /*************************
+     * ERC721 functions      *
+     *************************/
+
+    ownerOf(tokenId: BigNumberish): Promise<string> {
+        return this.contract.ownerOf(BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev Transfers tokenId together with all the tokens locked to it.
+     */
+    transfer(
+        from: string,
+        to: string,
+        tokenId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract.transferFrom(from, to, BigNumber.from(tokenId));
+    }
+
+    /**
+     * @dev safeTransferFrom is overloaded in ERC721, so we call it by its full signature.
+     */
+    safeTransfer(
+        from: string,
+        to: string,
+        tokenId: BigNumberish
+    ): Promise<ContractTransaction> {
+        return this.contract["safeTransferFrom(address,address,uint256)"](
+            from,
+            to,
+            BigNumber.from(tokenId)
+        );
+    }
+
+    /**
+     * @dev Burns tokenId together with all the tokens locked to it.
+     */
+    burn(tokenId: BigNumberish): Promise<ContractTransaction> {
+        return this.contract.burn(BigNumber.from(tokenId));
+    }
+}
@@ -0,0 +1,5 @@
+export { CommanderTokenClient } from "./CommanderTokenClient";
+export { LockedTokenClient } from "./LockedTokenClient";
+export { DependencyGraph, DependencyGraphJSON } from "./DependencyGraph";
+export * from "./types";
+export * from "./typedData";
@@ -0,0 +1,231 @@
+import {
+    BigNumber,
+    BigNumberish,
+    Signer,
+    TypedDataDomain,
+    TypedDataField,
+} from "ethers";
+import {
+    IERC4494__factory,
+    IERC721Metadata__factory,
+} from "../typechain-types";
+
+// the messages accepted by the WithSig functions and by permit, see the types below
+export interface PermitMessage {
+    spender: string;
+    tokenId: BigNumberish;
+    nonce: BigNumber;
+    deadline: BigNumberish;
+}
+
+export interface SetDependenceMessage {
+    tokenID: BigNumberish;
+    CTContractAddress: string;
+    CTID: BigNumberish;
+    nonce: BigNumber;
+    deadline: BigNumberish;
+}
+
+export interface SetTransferWhitelistMessage {
+    tokenID: BigNumberish;
+    whitelistAddress: string;
+    isWhitelisted: boolean;
+    nonce: BigNumber;
+    deadline: BigNumberish;
+}
+
+export interface LockMessage {
+    tokenID: BigNumberish;
+    LockingContract: string;
+    LockingID: BigNumberish;
+    nonce: BigNumber;
+    deadline: BigNumberish;
+}
+
+export type TypedDataMessage =
+    | PermitMessage
+    | SetDependenceMessage
+    | SetTransferWhitelistMessage
+    | LockMessage;
+
+/**
+ * @dev EIP-712 typed data, ready to be signed with `signer._signTypedData(domain, types, value)`.
+ */
+export interface TypedData<
+    Message extends TypedDataMessage = TypedDataMessage
+> {
+    domain: TypedDataDomain;
+    types: Record<string, TypedDataField[]>;
+    value: Message;
+}
+
+// the types of the messages accepted by the WithSig functions and by permit, see the typehashes in the contracts
+export const PERMIT_TYPES = {
+    Permit: [
+        { name: "spender", type: "address" },
+        { name: "tokenId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export const SET_DEPENDENCE_TYPES = {
+    SetDependence: [
+        { name: "tokenID", type: "uint256" },
+        { name: "CTContractAddress", type: "address" },
+        { name: "CTID", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export const SET_TRANSFER_WHITELIST_TYPES = {
+    SetTransferWhitelist: [
+        { name: "tokenID", type: "uint256" },
+        { name: "whitelistAddress", type: "address" },
+        { name: "isWhitelisted", type: "bool" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export const LOCK_TYPES = {
+    Lock: [
+        { name: "tokenID", type: "uint256" },
+        { name: "LockingContract", type: "address" },
+        { name: "LockingID", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/**
+ * @dev Returns the EIP-712 domain of a Commander Token or Locked Token contract, which is
+ * @dev named after the collection, with version "1".
+ */
+export const getDomain = async (
+    contractAddress: string,
+    signer: Signer
+): Promise<TypedDataDomain> => ({
+    name: await IERC721Metadata__factory.connect(
+        contractAddress,
+        signer
+    ).name(),
+    version: "1",
+    chainId: await signer.getChainId(),
+    verifyingContract: contractAddress,
+});
+
+// reads the current nonce of tokenId, which every signature on tokenId must include
+const getNonce = (
+    contractAddress: string,
+    tokenId: BigNumberish,
+    signer: Signer
+): Promise<BigNumber> =>
+    IERC4494__factory.connect(contractAddress, signer).nonces(tokenId);
+
+/**
+ * @dev Returns the typed data of an ERC-4494 permit that approves spender to use tokenId.
+ */
+export const getPermitTypedData = async (
+    contractAddress: string,
+    signer: Signer,
+    spender: string,
+    tokenId: BigNumberish,
+    deadline: BigNumberish
+): Promise<TypedData<PermitMessage>> => ({
+    domain: await getDomain(contractAddress, signer),
+    types: PERMIT_TYPES,
+    value: {
+        spender,
+        tokenId,
+        nonce: await getNonce(contractAddress, tokenId, signer),
+        deadline,
+    },
+});
+
+/**
+ * @dev Returns the typed data of a call to setDependenceWithSig, which makes tokenId depend on
+ * @dev CTId from CTContractAddress.
+ */
+export const getSetDependenceTypedData = async (
+    contractAddress: string,
+    signer: Signer,
+    tokenId: BigNumberish,
+    CTContractAddress: string,
+    CTId: BigNumberish,
+    deadline: BigNumberish
+): Promise<TypedData<SetDependenceMessage>> => ({
+    domain: await getDomain(contractAddress, signer),
+    types: SET_DEPENDENCE_TYPES,
+    value: {
+        tokenID: tokenId,
+        CTContractAddress,
+        CTID: CTId,
+        nonce: await getNonce(contractAddress, tokenId, signer),
+        deadline,
+    },
+});
+
+/**
+ * @dev Returns the typed data of a call to setTransferWhitelistWithSig, which adds or removes
+ * @dev whitelistAddress from the whitelist of tokenId.
+ */
+export const getSetTransferWhitelistTypedData = async (
+    contractAddress: string,
+    signer: Signer,
+    tokenId: BigNumberish,
+    whitelistAddress: string,
+    isWhitelisted: boolean,
+    deadline: BigNumberish
+): Promise<TypedData<SetTransferWhitelistMessage>> => ({
+    domain: await getDomain(contractAddress, signer),
+    types: SET_TRANSFER_WHITELIST_TYPES,
+    value: {
+        tokenID: tokenId,
+        whitelistAddress,
+        isWhitelisted,
+        nonce: await getNonce(contractAddress, tokenId, signer),
+        deadline,
+    },
+});
+
+/**
+ * @dev Returns the typed data of a call to lockWithSig, which locks tokenId to lockingId from lockingContract.
+ */
+export const getLockTypedData = async (
+    contractAddress: string,
+    signer: Signer,
+    tokenId: BigNumberish,
+    lockingContract: string,
+    lockingId: BigNumberish,
+    deadline: BigNumberish
+): Promise<TypedData<LockMessage>> => ({
+    domain: await getDomain(contractAddress, signer),
+    types: LOCK_TYPES,
+    value: {
+        tokenID: tokenId,
+        LockingContract: lockingContract,
+        LockingID: lockingId,
+        nonce: await getNonce(contractAddress, tokenId, signer),
+        deadline,
+    },
+});
+
+/**
+ * @dev Signs typed data with signer, the signature can be passed by a relayer to the matching WithSig function.
+ * @dev signer must support EIP-712, e.g. an ethers Wallet or a JsonRpcSigner.
+ */
+export const signTypedData = (
+    signer: Signer,
+    { domain, types, value }: TypedData
+): Promise<string> => {
+    const typedDataSigner = signer as Signer & {
+        _signTypedData(
+            domain: TypedDataDomain,
+            types: Record<string, TypedDataField[]>,
+            value: TypedDataMessage
+        ): Promise<string>;
+    };
+    return typedDataSigner._signTypedData(domain, types, value);
+};
@@ -0,0 +1,52 @@
+import { BigNumber } from "ethers";
+
+/**
+ * @dev A token in some collection, identified by its contract address and id.
+ */
+export interface ExternalToken {
+    contractAddress: string;
+    tokenId: BigNumber;
+}
+
+/**
+ * @dev The reasons a token can block a transfer or a burn, see ICommanderToken.BlockReason.
+ * @dev "nontransferable": the token is nontransferable and has no whitelist.
+ * @dev "not-whitelisted": the token is nontransferable and the recipient isn't in its whitelist.
+ * @dev "nonburnable": the token is nonburnable.
+ * @dev "dependency": one of the tokens the token depends on blocks the transfer or burn.
+ * @dev "policy": a transfer policy attached to the token or to its collection blocks the transfer or burn.
+ * @dev "locked": the token is locked to another token, so only the locking contract can transfer it.
+ */
+export type BlockReason =
+    | "nontransferable"
+    | "not-whitelisted"
+    | "nonburnable"
+    | "dependency"
+    | "policy"
+    | "locked";
+
+/**
+ * @dev A step in the path from a token to the token that blocks its transfer or burn.
+ */
+export interface BlockingToken extends ExternalToken {
+    reason: BlockReason;
+}
+
+/**
+ * @dev Explains why tokenId cannot be burned.
+ */
+export interface BurnBlock extends BlockingToken {
+    // the path from the token, through its dependencies, to the token that blocks the burn
+    path: BlockingToken[];
+}
+
+/**
+ * @dev Explains why tokenId cannot be transferred to `to`.
+ */
+export interface TransferBlock extends BlockingToken {
+    to: string;
+    // the path from the token, through its dependencies, to the token that blocks the transfer
+    path: BlockingToken[];
+    // the locking token, set only when reason is "locked"
+    lockedTo?: ExternalToken;
+}
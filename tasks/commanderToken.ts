@@ -0,0 +1,246 @@
+import { constants } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+    formatPath,
+    formatToken,
+    formatTokens,
+    getSigner,
+    resolveAddress,
+    send,
+} from "./utils";
+
+/**
+ * @dev Defines a task about a token of a Commander Token contract, which is the "CommanderToken"
+ * @dev deployment unless --contract is given. Tasks that send transactions send them from --from.
+ */
+const commanderTokenTask = (
+    name: string,
+    description: string,
+    sendsTransactions = true
+) => {
+    const definition = task(name, description)
+        .addParam("token", "The id of the token")
+        .addOptionalParam(
+            "contract",
+            "The Commander Token contract: an address or a deployment name",
+            "CommanderToken"
+        );
+
+    return sendsTransactions
+        ? definition.addOptionalParam(
+              "from",
+              "The account sending the transaction: an address or a named account",
+              "deployer"
+          )
+        : definition;
+};
+
+const getClient = async (
+    hre: HardhatRuntimeEnvironment,
+    args: TaskArguments
+) => {
+    const { CommanderTokenClient } = await import("../sdk");
+    const signerOrProvider = args.from
+        ? await getSigner(hre, args.from)
+        : hre.ethers.provider;
+
+    return new CommanderTokenClient(
+        await resolveAddress(hre, args.contract),
+        signerOrProvider
+    );
+};
+
+commanderTokenTask(
+    "ct:depend",
+    "Makes a Commander Token depend on another Commander Token"
+)
+    .addParam("dependency", "The id of the token to depend on")
+    .addOptionalParam(
+        "dependencyContract",
+        "The Commander Token contract of the token to depend on: an address or a deployment name",
+        "CommanderToken"
+    )
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args);
+        const dependencyAddress = await resolveAddress(
+            hre,
+            args.dependencyContract
+        );
+
+        return send(
+            client.addDependency(
+                args.token,
+                dependencyAddress,
+                args.dependency
+            ),
+            `${await formatToken(
+                hre,
+                client.address,
+                args.token
+            )} depends on ${await formatToken(
+                hre,
+                dependencyAddress,
+                args.dependency
+            )}`
+        );
+    });
+
+commanderTokenTask(
+    "ct:undepend",
+    "Removes the dependence of a Commander Token on another Commander Token"
+)
+    .addParam("dependency", "The id of the token it depends on")
+    .addOptionalParam(
+        "dependencyContract",
+        "The Commander Token contract of the token it depends on: an address or a deployment name",
+        "CommanderToken"
+    )
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args);
+        const dependencyAddress = await resolveAddress(
+            hre,
+            args.dependencyContract
+        );
+
+        return send(
+            client.removeDependency(
+                args.token,
+                dependencyAddress,
+                args.dependency
+            ),
+            `${await formatToken(
+                hre,
+                client.address,
+                args.token
+            )} no longer depends on ${await formatToken(
+                hre,
+                dependencyAddress,
+                args.dependency
+            )}`
+        );
+    });
+
+commanderTokenTask(
+    "ct:set-transferable",
+    "Sets whether a Commander Token is transferable"
+)
+    .addParam("transferable", "true or false", undefined, types.boolean)
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args);
+
+        return send(
+            client.setTransferable(args.token, args.transferable),
+            `${await formatToken(hre, client.address, args.token)} is ${
+                args.transferable ? "transferable" : "nontransferable"
+            }`
+        );
+    });
+
+commanderTokenTask(
+    "ct:set-burnable",
+    "Sets whether a Commander Token is burnable"
+)
+    .addParam("burnable", "true or false", undefined, types.boolean)
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args);
+
+        return send(
+            client.setBurnable(args.token, args.burnable),
+            `${await formatToken(hre, client.address, args.token)} is ${
+                args.burnable ? "burnable" : "nonburnable"
+            }`
+        );
+    });
+
+commanderTokenTask(
+    "ct:whitelist",
+    "Adds an address to the transfer whitelist of a Commander Token, or removes it with --remove"
+)
+    .addParam(
+        "address",
+        "The address to whitelist: an address or a named account"
+    )
+    .addFlag("remove", "Removes the address from the whitelist")
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args);
+        const address = await resolveAddress(hre, args.address);
+
+        return send(
+            client.whitelist(args.token, address, !args.remove),
+            `${address} is ${
+                args.remove ? "removed from" : "added to"
+            } the whitelist of ${await formatToken(
+                hre,
+                client.address,
+                args.token
+            )}`
+        );
+    });
+
+commanderTokenTask(
+    "ct:status",
+    "Prints the restrictions of a Commander Token, and explains what blocks its transfer and burn",
+    false
+)
+    .addOptionalParam(
+        "to",
+        "Evaluates the transfer to this address or named account, instead of to an address that isn't whitelisted"
+    )
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args);
+        const to = args.to
+            ? await resolveAddress(hre, args.to)
+            : constants.AddressZero;
+
+        const transferBlock = await client.explainTransferBlock(args.token, to);
+        const burnBlock = await client.explainBurnBlock(args.token);
+        const controller = await client.controllerOf(args.token);
+
+        const status = {
+            token: await formatToken(hre, client.address, args.token),
+            owner: await client.ownerOf(args.token),
+            controller:
+                controller === constants.AddressZero ? null : controller,
+            transferable: transferBlock === null,
+            transferBlock:
+                transferBlock && (await formatPath(hre, transferBlock.path)),
+            burnable: burnBlock === null,
+            burnBlock: burnBlock && (await formatPath(hre, burnBlock.path)),
+            dependencies: await formatTokens(
+                hre,
+                await client.getDependencies(args.token)
+            ),
+            whitelist: [
+                ...(await client.getWhitelistedAddresses(args.token)),
+                ...(await formatTokens(
+                    hre,
+                    await client.getWhitelistedNFTs(args.token)
+                )),
+            ],
+        };
+
+        const list = (items: string[]) =>
+            items.length > 0 ? items.join(", ") : "none";
+        console.log(status.token);
+        console.log(`  owner:        ${status.owner}`);
+        console.log(
+            `  controller:   ${
+                status.controller ?? "none, the owner controls the restrictions"
+            }`
+        );
+        console.log(
+            `  transferable${args.to ? ` to ${to}` : ""}: ${
+                status.transferable ? "yes" : `no, ${status.transferBlock}`
+            }`
+        );
+        console.log(
+            `  burnable:     ${
+                status.burnable ? "yes" : `no, ${status.burnBlock}`
+            }`
+        );
+        console.log(`  dependencies: ${list(status.dependencies)}`);
+        console.log(`  whitelist:    ${list(status.whitelist)}`);
+
+        return status;
+    });
@@ -0,0 +1,8 @@
+// The tasks resolve contracts and accounts by their hardhat-deploy deployment names and named accounts,
+// run `npx hardhat help` to list them, and `npx hardhat help <task>` for their parameters.
+// They import the SDK in their actions rather than here, since the SDK depends on the typechain types,
+// which are generated by compiling with the config that imports this file.
+
+import "./commanderToken";
+import "./lockedToken";
+import "./transpile";
@@ -0,0 +1,107 @@
+import { BigNumberish } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatToken, getSigner, resolveAddress, send } from "./utils";
+
+/**
+ * @dev A token and the tokens locked to it, recursively.
+ */
+interface LockingTree {
+    token: string;
+    owner: string;
+    lockedTokens: LockingTree[];
+}
+
+const getLockingTree = async (
+    hre: HardhatRuntimeEnvironment,
+    contractAddress: string,
+    tokenId: BigNumberish
+): Promise<LockingTree> => {
+    const { LockedTokenClient } = await import("../sdk");
+    const client = new LockedTokenClient(contractAddress, hre.ethers.provider);
+
+    const lockedTokens: LockingTree[] = [];
+    for (const lockedToken of await client.getLockedTokens(tokenId)) {
+        lockedTokens.push(
+            await getLockingTree(
+                hre,
+                lockedToken.contractAddress,
+                lockedToken.tokenId
+            )
+        );
+    }
+
+    return {
+        token: await formatToken(hre, contractAddress, tokenId),
+        owner: await client.ownerOf(tokenId),
+        lockedTokens,
+    };
+};
+
+const printLockingTree = (tree: LockingTree, indent = ""): void => {
+    console.log(`${indent}${tree.token} (owner ${tree.owner})`);
+    tree.lockedTokens.forEach((lockedTree) =>
+        printLockingTree(lockedTree, `${indent}  `)
+    );
+};
+
+task("lt:lock", "Locks a Locked Token to another token of the same owner")
+    .addParam("token", "The id of the token to lock")
+    .addParam("lockingToken", "The id of the token to lock it to")
+    .addOptionalParam(
+        "contract",
+        "The Locked Token contract of the token to lock: an address or a deployment name",
+        "LockedToken"
+    )
+    .addOptionalParam(
+        "lockingContract",
+        "The Locked Token contract of the token to lock it to: an address or a deployment name",
+        "LockedToken"
+    )
+    .addOptionalParam(
+        "from",
+        "The account sending the transaction: an address or a named account",
+        "deployer"
+    )
+    .setAction(async (args, hre) => {
+        const { LockedTokenClient } = await import("../sdk");
+        const client = new LockedTokenClient(
+            await resolveAddress(hre, args.contract),
+            await getSigner(hre, args.from)
+        );
+        const lockingAddress = await resolveAddress(hre, args.lockingContract);
+
+        return send(
+            client.lock(args.token, lockingAddress, args.lockingToken),
+            `${await formatToken(
+                hre,
+                client.address,
+                args.token
+            )} is locked to ${await formatToken(
+                hre,
+                lockingAddress,
+                args.lockingToken
+            )}`
+        );
+    });
+
+task(
+    "lt:tree",
+    "Prints the tokens locked to a Locked Token, directly or through other tokens"
+)
+    .addParam("token", "The id of the token")
+    .addOptionalParam(
+        "contract",
+        "The Locked Token contract: an address or a deployment name",
+        "LockedToken"
+    )
+    .setAction(async (args, hre) => {
+        const tree = await getLockingTree(
+            hre,
+            await resolveAddress(hre, args.contract),
+            args.token
+        );
+        printLockingTree(tree);
+
+        return tree;
+    });
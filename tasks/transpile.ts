@@ -0,0 +1,207 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import {
+    TASK_COMPILE_SOLIDITY_GET_DEPENDENCY_GRAPH,
+    TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+    TASK_COMPILE_SOLIDITY_RUN_SOLC,
+    TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// the contracts that have upgradeable versions, which are generated with their bases, interfaces and libraries
+const TRANSPILED_SOURCES = [
+    "contracts/CommanderToken.sol",
+    "contracts/LockedToken.sol",
+];
+
+// the folder of the generated contracts, relative to the sources folder
+const UPGRADEABLE_FOLDER = "upgradeable";
+
+const OPENZEPPELIN_INITIALIZABLE =
+    "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+/**
+ * @dev Compiles the transpiled contracts and their imports to the ASTs and storage layouts the transpiler reads,
+ * @dev with the compiler of the project but without generating code.
+ */
+const compileForTranspiler = async (hre: HardhatRuntimeEnvironment) => {
+    const graph = await hre.run(TASK_COMPILE_SOLIDITY_GET_DEPENDENCY_GRAPH, {
+        sourceNames: TRANSPILED_SOURCES,
+    });
+    const sources: { [sourceName: string]: { content: string } } = {};
+    for (const file of graph.getResolvedFiles()) {
+        sources[file.sourceName] = { content: file.content.rawContent };
+    }
+
+    const input = {
+        language: "Solidity",
+        sources,
+        settings: {
+            outputSelection: { "*": { "*": ["storageLayout"], "": ["ast"] } },
+        },
+    };
+
+    const solcVersion = hre.config.solidity.compilers[0].version;
+    const solcBuild = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, {
+        quiet: true,
+        solcVersion,
+    });
+    const output = solcBuild.isSolcJs
+        ? await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, {
+              input,
+              solcJsPath: solcBuild.compilerPath,
+          })
+        : await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, {
+              input,
+              solcPath: solcBuild.compilerPath,
+          });
+
+    const errors = (output.errors ?? []).filter(
+        (error: any) => error.severity === "error"
+    );
+    if (errors.length > 0) {
+        throw new Error(
+            errors.map((error: any) => error.formattedMessage).join("\n")
+        );
+    }
+
+    return { input, output, solcVersion };
+};
+
+/**
+ * @dev Generates the upgradeable contracts with OpenZeppelin's transpiler, the way OpenZeppelin generates
+ * @dev its upgradeable contracts: constructors become initializers, and storage gaps are added.
+ * @dev Returns the generated sources by their paths relative to the project root.
+ */
+const transpileUpgradeable = async (
+    hre: HardhatRuntimeEnvironment
+): Promise<Map<string, string>> => {
+    const { transpile } = await import("@openzeppelin/upgrade-safe-transpiler");
+    const prettier = await import("prettier");
+    const { root, sources } = hre.config.paths;
+
+    const { input, output, solcVersion } = await compileForTranspiler(hre);
+    const transpiled = await transpile(input as any, output, hre.config.paths, {
+        skipWithInit: true,
+        solcVersion,
+    });
+
+    const generated = new Map<string, string>();
+    for (const file of transpiled) {
+        // the transpiled OpenZeppelin contracts and the transpiler's Initializable are the ones
+        // OpenZeppelin's upgradeable contracts already have
+        if (
+            file.path.startsWith("@openzeppelin/") ||
+            file.fileName === "Initializable.sol"
+        ) {
+            continue;
+        }
+
+        const sourcePath = file.path.replace(/Upgradeable\.sol$/, ".sol");
+        const outputPath = path.relative(
+            root,
+            path.join(
+                sources,
+                UPGRADEABLE_FOLDER,
+                path.relative(sources, path.join(root, file.path))
+            )
+        );
+
+        const source = file.source
+            .replace(
+                /"@openzeppelin\/contracts\//g,
+                '"@openzeppelin/contracts-upgradeable/'
+            )
+            .replace(
+                /"(\.\.?\/)+Initializable\.sol"/g,
+                `"${OPENZEPPELIN_INITIALIZABLE}"`
+            )
+            .replace(
+                /^(\/\/ SPDX-License-Identifier: .*\n)/,
+                `$1// Generated from ${sourcePath} by \`npx hardhat transpile\`, edit that file instead.\n`
+            );
+
+        generated.set(
+            outputPath,
+            prettier.format(source, { filepath: path.join(root, outputPath) })
+        );
+    }
+
+    return generated;
+};
+
+/**
+ * @dev Returns the contracts in the folder of the generated contracts, by their paths relative to the project root.
+ */
+const readUpgradeable = (
+    hre: HardhatRuntimeEnvironment
+): Map<string, string> => {
+    const { root, sources } = hre.config.paths;
+    const contracts = new Map<string, string>();
+
+    const read = (folder: string) => {
+        for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+            const entryPath = path.join(folder, entry.name);
+            if (entry.isDirectory()) {
+                read(entryPath);
+            } else if (entry.name.endsWith(".sol")) {
+                contracts.set(
+                    path.relative(root, entryPath),
+                    fs.readFileSync(entryPath, "utf8")
+                );
+            }
+        }
+    };
+
+    const folder = path.join(sources, UPGRADEABLE_FOLDER);
+    if (fs.existsSync(folder)) {
+        read(folder);
+    }
+
+    return contracts;
+};
+
+task(
+    "transpile",
+    "Generates the upgradeable contracts in contracts/upgradeable from the non-upgradeable contracts"
+)
+    .addFlag(
+        "check",
+        "Only check that the generated contracts are up to date, and fail if they are not"
+    )
+    .setAction(async ({ check }, hre) => {
+        const generated = await transpileUpgradeable(hre);
+        const existing = readUpgradeable(hre);
+
+        const outdated = [...generated.keys()].filter(
+            (outputPath) =>
+                existing.get(outputPath) !== generated.get(outputPath)
+        );
+        const removed = [...existing.keys()].filter(
+            (outputPath) => !generated.has(outputPath)
+        );
+
+        if (check) {
+            if (outdated.length > 0 || removed.length > 0) {
+                throw new Error(
+                    `The upgradeable contracts are not up to date, run \`npx hardhat transpile\`:\n` +
+                        [...outdated, ...removed].join("\n")
+                );
+            }
+
+            return;
+        }
+
+        for (const outputPath of outdated) {
+            const fullPath = path.join(hre.config.paths.root, outputPath);
+            fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+            fs.writeFileSync(fullPath, generated.get(outputPath)!);
+            console.log(`Generated ${outputPath}`);
+        }
+
+        for (const outputPath of removed) {
+            fs.unlinkSync(path.join(hre.config.paths.root, outputPath));
+            console.log(`Removed ${outputPath}`);
+        }
+    });
@@ -0,0 +1,98 @@
+import { BigNumberish, ContractReceipt, ContractTransaction } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BlockingToken, ExternalToken } from "../sdk/types";
+
+/**
+ * @dev Resolves an address, a named account (see namedAccounts in hardhat.config.ts) or the name of
+ * @dev a hardhat-deploy deployment, e.g. "CommanderToken", to an address.
+ */
+export const resolveAddress = async (
+    hre: HardhatRuntimeEnvironment,
+    addressOrName: string
+): Promise<string> => {
+    if (hre.ethers.utils.isAddress(addressOrName)) {
+        return addressOrName;
+    }
+
+    const namedAccounts = await hre.getNamedAccounts();
+    if (namedAccounts[addressOrName] !== undefined) {
+        return namedAccounts[addressOrName];
+    }
+
+    const deployment = await hre.deployments.getOrNull(addressOrName);
+    if (deployment) {
+        return deployment.address;
+    }
+
+    throw new Error(
+        `${addressOrName} is not an address, a named account or a deployment on ${hre.network.name}`
+    );
+};
+
+/**
+ * @dev Returns the signer of an address or a named account.
+ */
+export const getSigner = async (hre: HardhatRuntimeEnvironment, from: string) =>
+    hre.ethers.getSigner(await resolveAddress(hre, from));
+
+/**
+ * @dev Names a token after the deployment of its contract, e.g. "CommanderToken#1", or after the address
+ * @dev of its contract if it wasn't deployed by the deploy scripts.
+ */
+export const formatToken = async (
+    hre: HardhatRuntimeEnvironment,
+    contractAddress: string,
+    tokenId: BigNumberish
+): Promise<string> => {
+    const deployments = await hre.deployments.all();
+    const name = Object.keys(deployments).find(
+        (deploymentName) =>
+            deployments[deploymentName].address.toLowerCase() ===
+            contractAddress.toLowerCase()
+    );
+
+    return `${name ?? contractAddress}#${tokenId.toString()}`;
+};
+
+export const formatTokens = async (
+    hre: HardhatRuntimeEnvironment,
+    tokens: ExternalToken[]
+): Promise<string[]> =>
+    Promise.all(
+        tokens.map((token) =>
+            formatToken(hre, token.contractAddress, token.tokenId)
+        )
+    );
+
+/**
+ * @dev Formats the path from a token to the token that blocks its transfer or burn, e.g.
+ * @dev "CommanderToken#1 (dependency) -> CommanderToken#2 (nontransferable)".
+ */
+export const formatPath = async (
+    hre: HardhatRuntimeEnvironment,
+    path: BlockingToken[]
+): Promise<string> =>
+    (
+        await Promise.all(
+            path.map(
+                async (step) =>
+                    `${await formatToken(
+                        hre,
+                        step.contractAddress,
+                        step.tokenId
+                    )} (${step.reason})`
+            )
+        )
+    ).join(" -> ");
+
+/**
+ * @dev Waits for a transaction to be mined, and prints what it did.
+ */
+export const send = async (
+    transaction: Promise<ContractTransaction>,
+    description: string
+): Promise<ContractReceipt> => {
+    const receipt = await (await transaction).wait();
+    console.log(`${description} (transaction ${receipt.transactionHash})`);
+    return receipt;
+};
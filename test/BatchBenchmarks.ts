@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+// Gas benchmarks of onboarding a community with single calls, batch functions and multicall.
+// Run `yarn test:gas` to print the gas used by each function with hardhat-gas-reporter.
+
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { TOKEN_NAME, TOKEN_SYMBOL } from "../constants/test";
+
+// the number of members to onboard, each member gets a token
+const MEMBERS_COUNT = 20;
+
+// the token all the membership tokens depend on
+const COMMUNITY_TOKEN = MEMBERS_COUNT + 1;
+
+const sumGasUsed = async (transactions: any[]): Promise<number> => {
+    let gasUsed = 0;
+    for (const transaction of transactions) {
+        gasUsed += (await transaction.wait()).gasUsed.toNumber();
+    }
+    return gasUsed;
+}
+
+
+const deployAndMint = async (): Promise<any> => {
+    const [owner] = await ethers.getSigners();
+    const commanderToken: any = await (await ethers.getContractFactory('MintCommanderTokenTest')).deploy(TOKEN_NAME, TOKEN_SYMBOL);
+
+    for (let tokenId = 1; tokenId <= COMMUNITY_TOKEN; tokenId++) {
+        // is called like that because of etherjs overloading bug - https://github.com/NomicFoundation/hardhat/issues/2203
+        await commanderToken["mint(address,uint256)"](owner.address, tokenId);
+    }
+
+    return commanderToken;
+}
+
+
+// Start test block
+describe('Batch benchmarks', function () {
+    beforeEach(async function () {
+        const signers = await ethers.getSigners();
+        this.owner = signers[0];
+        this.members = Array.from({ length: MEMBERS_COUNT }, () => ethers.Wallet.createRandom().address);
+        this.tokenIds = Array.from({ length: MEMBERS_COUNT }, (_, i) => i + 1);
+
+        // single calls run on one contract, and batches on the other, starting from the same state
+        this.SingleCallsToken = await deployAndMint();
+        this.CommanderToken = await deployAndMint();
+
+        this.singleCallsGas = await onboardWithSingleCalls.call(this);
+    });
+
+    // onboarding a member: the membership token is nontransferable except to the member,
+    // and depends on the community token
+    const onboardWithSingleCalls = async function (this: Mocha.Context): Promise<number> {
+        const transactions = [];
+        for (let i = 0; i < MEMBERS_COUNT; i++) {
+            transactions.push(await this.SingleCallsToken.setTransferable(this.tokenIds[i], false));
+            transactions.push(await this.SingleCallsToken.setTransferWhitelist(this.tokenIds[i], this.members[i], true));
+            transactions.push(await this.SingleCallsToken.setDependence(this.tokenIds[i], this.SingleCallsToken.address, COMMUNITY_TOKEN));
+        }
+        return sumGasUsed(transactions);
+    }
+
+    const onboardWithBatches = async function (this: Mocha.Context): Promise<number> {
+        return sumGasUsed([
+            await this.CommanderToken.setTransferableBatch(this.tokenIds, this.tokenIds.map(() => false)),
+            await this.CommanderToken.setTransferWhitelistBatch(this.tokenIds, this.members, this.tokenIds.map(() => true)),
+            await this.CommanderToken.setDependenceBatch(
+                this.tokenIds,
+                this.tokenIds.map(() => this.CommanderToken.address),
+                this.tokenIds.map(() => COMMUNITY_TOKEN)
+            ),
+        ]);
+    }
+
+    const onboardWithMulticall = async function (this: Mocha.Context): Promise<number> {
+        const calls = this.tokenIds.flatMap((tokenId: number, i: number) => [
+            this.CommanderToken.interface.encodeFunctionData("setTransferable", [tokenId, false]),
+            this.CommanderToken.interface.encodeFunctionData("setTransferWhitelist", [tokenId, this.members[i], true]),
+            this.CommanderToken.interface.encodeFunctionData("setDependence", [tokenId, this.CommanderToken.address, COMMUNITY_TOKEN]),
+        ]);
+        return sumGasUsed([await this.CommanderToken.multicall(calls)]);
+    }
+
+    it('Batch functions onboard a community for less gas than single calls', async function () {
+        const batchesGas = await onboardWithBatches.call(this);
+
+        expect(batchesGas).to.be.lessThan(this.singleCallsGas);
+        expect(await this.CommanderToken.isTokenTransferableToAddress(MEMBERS_COUNT, this.members[MEMBERS_COUNT - 1])).to.equal(true);
+    });
+
+    it('Multicall onboards a community for less gas than single calls', async function () {
+        const multicallGas = await onboardWithMulticall.call(this);
+
+        expect(multicallGas).to.be.lessThan(this.singleCallsGas);
+        expect(await this.CommanderToken.isDependent(1, this.CommanderToken.address, COMMUNITY_TOKEN)).to.equal(true);
+    });
+});
@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: MIT
+// Tests for a token that is both a Commander Token and a Locked Token, mixed with contracts of both standards.
+// The tests follow a name system: IDs are soulbound Commander Tokens, domains can depend on IDs, and
+// subdomains are locked to domains.
+
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { TOKEN_NAME, TOKEN_SYMBOL } from "../constants/test";
+
+// the values of ICommanderToken.BlockReason
+enum BlockReason {
+    None,
+    Nontransferable,
+    NotWhitelisted,
+    Nonburnable,
+    Dependency,
+    Policy,
+}
+
+const ID = 1;
+const DOMAIN = 1;
+const SUBDOMAIN = 1;
+const OTHER_SUBDOMAIN = 2;
+
+
+// Start test block
+describe('CommanderLockedToken', function () {
+    before(async function () {
+        this.CommanderLockedTokenMintTestFactory = await ethers.getContractFactory('MintCommanderLockedTokenTest');
+        this.CommanderTokenMintTestFactory = await ethers.getContractFactory('MintCommanderTokenTest');
+        this.LockedTokenMintTestFactory = await ethers.getContractFactory('MintLockedTokenTest');
+    });
+
+    beforeEach(async function () {
+        const signers = await ethers.getSigners();
+        this.contractOwner = signers[0].address;
+        this.owner = signers[0];
+        this.wallet2 = signers[2];
+        this.wallet3 = signers[3];
+
+        // deploy the contracts
+        this.IDs = await this.CommanderTokenMintTestFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        this.Domains = await this.CommanderLockedTokenMintTestFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        this.Subdomains = await this.CommanderLockedTokenMintTestFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        this.LockedTokens = await this.LockedTokenMintTestFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+
+        // is called like that because of etherjs overloading bug - https://github.com/NomicFoundation/hardhat/issues/2203
+        await this.IDs["mint(address,uint256)"](this.contractOwner, ID);
+        await this.Domains["mint(address,uint256)"](this.contractOwner, DOMAIN);
+        await this.Subdomains["mint(address,uint256)"](this.contractOwner, SUBDOMAIN);
+        await this.Subdomains["mint(address,uint256)"](this.contractOwner, OTHER_SUBDOMAIN);
+
+        // both subdomains are locked to the domain
+        await this.Subdomains.connect(this.owner).lock(SUBDOMAIN, this.Domains.address, DOMAIN);
+        await this.Subdomains.connect(this.owner).lock(OTHER_SUBDOMAIN, this.Domains.address, DOMAIN);
+    });
+
+    it('Locked tokens are transferred with the token they are locked to', async function () {
+        await this.Domains.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, DOMAIN);
+
+        expect(await this.Domains.ownerOf(DOMAIN)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.ownerOf(OTHER_SUBDOMAIN)).to.equal(this.wallet2.address);
+    });
+
+    it('Locked tokens can be transferred only by the contract of the locking token', async function () {
+        await expect(this.Subdomains.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, SUBDOMAIN))
+            .to.be.revertedWith("Locked Token: tokenID is locked and caller is not the contract holding the locking token");
+    });
+
+    it('Cascaded transfers unlock the locked tokens that are not transferable', async function () {
+        await this.Subdomains.connect(this.owner).setTransferable(SUBDOMAIN, false);
+
+        await expect(this.Domains.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, DOMAIN))
+            .to.emit(this.Domains, "LockedTokenReleased")
+            .withArgs(DOMAIN, this.Subdomains.address, SUBDOMAIN)
+            .and.to.emit(this.Subdomains, "RemovedLocking")
+            .withArgs(SUBDOMAIN, this.Domains.address, DOMAIN);
+
+        // the nontransferable subdomain stays with its owner, the rest of the tokens are transferred
+        expect(await this.Domains.ownerOf(DOMAIN)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.ownerOf(OTHER_SUBDOMAIN)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.contractOwner);
+        expect(await this.Subdomains.isLocked(SUBDOMAIN)).to.deep.equal([ethers.constants.AddressZero, 0]);
+        expect(await this.Domains.getLockedTokensCount(DOMAIN)).to.equal(1);
+    });
+
+    it('Cascaded transfers respect the whitelist of the locked tokens', async function () {
+        await this.Subdomains.connect(this.owner).setTransferable(SUBDOMAIN, false);
+        await this.Subdomains.connect(this.owner).setTransferWhitelist(SUBDOMAIN, this.wallet3.address, true);
+
+        await expect(this.Domains.connect(this.owner).transferFrom(this.contractOwner, this.wallet3.address, DOMAIN))
+            .not.to.emit(this.Domains, "LockedTokenReleased")
+            .and.not.to.emit(this.Subdomains, "RemovedLocking");
+
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.wallet3.address);
+    });
+
+    it('Unlocks a stuck token deep in a chain of lockings', async function () {
+        // 4 -> 3 -> DOMAIN, where only 4 is nontransferable
+        await this.Subdomains["mint(address,uint256)"](this.contractOwner, 3);
+        await this.Subdomains["mint(address,uint256)"](this.contractOwner, 4);
+        await this.Subdomains.connect(this.owner).lock(3, this.Domains.address, DOMAIN);
+        await this.Subdomains.connect(this.owner).lock(4, this.Subdomains.address, 3);
+        await this.Subdomains.connect(this.owner).setTransferable(4, false);
+
+        await expect(this.Domains.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, DOMAIN))
+            .to.emit(this.Subdomains, "LockedTokenReleased")
+            .withArgs(3, this.Subdomains.address, 4);
+
+        // 4 is released by 3, which is transferred with the domain
+        expect(await this.Subdomains.ownerOf(3)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.isLocked(3)).to.deep.equal([this.Domains.address, DOMAIN]);
+        expect(await this.Subdomains.ownerOf(4)).to.equal(this.contractOwner);
+        expect(await this.Subdomains.isLocked(4)).to.deep.equal([ethers.constants.AddressZero, 0]);
+    });
+
+    it('Token depending on a soulbound token in another contract is not transferable', async function () {
+        await this.IDs.connect(this.owner).setTransferable(ID, false);
+        await this.Domains.connect(this.owner).setDependence(DOMAIN, this.IDs.address, ID);
+
+        const path = [
+            [this.Domains.address, DOMAIN, BlockReason.Dependency],
+            [this.IDs.address, ID, BlockReason.Nontransferable],
+        ];
+
+        expect(await this.Domains.isTokenTransferableToAddress(DOMAIN, this.wallet2.address)).to.equal(false);
+        await expect(this.Domains.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, DOMAIN))
+            .to.be.revertedWithCustomError(this.Domains, "TransferBlocked")
+            .withArgs(DOMAIN, this.wallet2.address, path);
+    });
+
+    it('Burns the tokens locked to a burned token', async function () {
+        await expect(this.Domains.connect(this.owner).burn(DOMAIN))
+            .to.emit(this.Domains, "Transfer")
+            .withArgs(this.contractOwner, ethers.constants.AddressZero, DOMAIN)
+            .and.to.emit(this.Subdomains, "Transfer")
+            .withArgs(this.contractOwner, ethers.constants.AddressZero, SUBDOMAIN);
+
+        expect(await this.Domains.getLockedTokensCount(DOMAIN)).to.equal(0);
+        expect(await this.Subdomains.isLocked(SUBDOMAIN)).to.deep.equal([ethers.constants.AddressZero, 0]);
+
+        await expect(this.Domains.ownerOf(DOMAIN)).to.be.revertedWith("ERC721: invalid token ID");
+        await expect(this.Subdomains.ownerOf(SUBDOMAIN)).to.be.revertedWith("ERC721: invalid token ID");
+        await expect(this.Subdomains.ownerOf(OTHER_SUBDOMAIN)).to.be.revertedWith("ERC721: invalid token ID");
+        expect(await this.Subdomains.balanceOf(this.contractOwner)).to.equal(0);
+    });
+
+    it('Burns respect the restrictions of the burned token', async function () {
+        await this.Domains.connect(this.owner).setBurnable(DOMAIN, false);
+
+        await expect(this.Domains.connect(this.owner).burn(DOMAIN))
+            .to.be.revertedWithCustomError(this.Domains, "BurnBlocked")
+            .withArgs(DOMAIN, [[this.Domains.address, DOMAIN, BlockReason.Nonburnable]]);
+
+        // the burns of the locked tokens are reverted too
+        expect(await this.Domains.ownerOf(DOMAIN)).to.equal(this.contractOwner);
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.contractOwner);
+        expect(await this.Subdomains.isLocked(SUBDOMAIN)).to.deep.equal([this.Domains.address, DOMAIN]);
+    });
+
+    it('Cascaded burns unlock the locked tokens that are not burnable', async function () {
+        await this.Subdomains.connect(this.owner).setBurnable(OTHER_SUBDOMAIN, false);
+
+        await expect(this.Domains.connect(this.owner).burn(DOMAIN))
+            .to.emit(this.Domains, "LockedTokenReleased")
+            .withArgs(DOMAIN, this.Subdomains.address, OTHER_SUBDOMAIN);
+
+        expect(await this.Subdomains.isLocked(OTHER_SUBDOMAIN)).to.deep.equal([ethers.constants.AddressZero, 0]);
+        expect(await this.Subdomains.isTokenBurnable(OTHER_SUBDOMAIN)).to.equal(false);
+
+        // the unburnable subdomain stays with its owner, the rest of the tokens are burned
+        expect(await this.Subdomains.ownerOf(OTHER_SUBDOMAIN)).to.equal(this.contractOwner);
+        await expect(this.Subdomains.ownerOf(SUBDOMAIN)).to.be.revertedWith("ERC721: invalid token ID");
+        await expect(this.Domains.ownerOf(DOMAIN)).to.be.revertedWith("ERC721: invalid token ID");
+    });
+
+    it('Locks tokens of Locked Token contracts to tokens of the combined contract, and vice versa', async function () {
+        await this.LockedTokens["mint(address,uint256)"](this.contractOwner, 1);
+        await this.LockedTokens["mint(address,uint256)"](this.contractOwner, 2);
+
+        // LockedTokens 1 -> Domains 1, and Domains 1 -> LockedTokens 2
+        await this.LockedTokens.connect(this.owner).lock(1, this.Domains.address, DOMAIN);
+        await this.Domains.connect(this.owner).lock(DOMAIN, this.LockedTokens.address, 2);
+
+        await this.LockedTokens.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, 2);
+
+        expect(await this.Domains.ownerOf(DOMAIN)).to.equal(this.wallet2.address);
+        expect(await this.LockedTokens.ownerOf(1)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.wallet2.address);
+
+        // the restrictions of the combined token apply when a Locked Token contract cascades a transfer
+        await this.Domains.connect(this.wallet2).setTransferable(DOMAIN, false);
+        await expect(this.LockedTokens.connect(this.wallet2).transferFrom(this.wallet2.address, this.contractOwner, 2))
+            .to.emit(this.LockedTokens, "LockedTokenReleased")
+            .withArgs(2, this.Domains.address, DOMAIN);
+
+        expect(await this.Domains.ownerOf(DOMAIN)).to.equal(this.wallet2.address);
+    });
+
+    it('Recovers a locked token with all the tokens locked to it', async function () {
+        await this.Domains.connect(this.owner).setTransferable(DOMAIN, false);
+        await this.Domains.initCollectionController(this.wallet3.address);
+
+        await this.Domains.connect(this.wallet3).recover(DOMAIN, this.wallet2.address);
+
+        expect(await this.Domains.ownerOf(DOMAIN)).to.equal(this.wallet2.address);
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.wallet2.address);
+    });
+
+    it('A locked token cannot be recovered without the token it is locked to', async function () {
+        await this.Subdomains.connect(this.owner).setTransferable(SUBDOMAIN, false);
+        await this.Subdomains.initCollectionController(this.wallet3.address);
+
+        await expect(this.Subdomains.connect(this.wallet3).recover(SUBDOMAIN, this.wallet2.address))
+            .to.be.revertedWith("Locked Token: a locked token can't be recovered without the token it is locked to");
+
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.contractOwner);
+
+        // once it is unlocked, it can be recovered
+        await this.Domains.connect(this.owner).transferFrom(this.contractOwner, this.wallet3.address, DOMAIN);
+        await this.Subdomains.connect(this.wallet3).recover(SUBDOMAIN, this.wallet2.address);
+
+        expect(await this.Subdomains.ownerOf(SUBDOMAIN)).to.equal(this.wallet2.address);
+    });
+
+    it('Renders the restrictions of both standards', async function () {
+        const renderer = await (await ethers.getContractFactory('RestrictionsRenderer')).deploy();
+        await this.Subdomains.setMetadataRenderer(renderer.address);
+        await this.Subdomains.connect(this.owner).setBurnable(SUBDOMAIN, false);
+
+        const [, data] = (await this.Subdomains.tokenURI(SUBDOMAIN)).split(",");
+        const metadata = JSON.parse(Buffer.from(data, "base64").toString());
+
+        expect(metadata.attributes).to.deep.equal([
+            { trait_type: "Transferable", value: "Yes" },
+            { trait_type: "Burnable", value: "No" },
+            { trait_type: "Locked", value: "Yes" },
+        ]);
+        expect(metadata.lockedTo).to.equal(`${this.Domains.address.toLowerCase()}:0x01`);
+        expect(metadata.dependencies).to.be.empty;
+    });
+});
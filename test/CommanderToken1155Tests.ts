@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: MIT
+// Tests for CommanderToken1155, the ERC1155 edition of Commander Token, and for dependency graphs that mix
+// ERC721 and ERC1155 Commander Tokens.
+
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { TOKEN_NAME, TOKEN_SYMBOL } from "../constants/test";
+
+const TOKEN_URI = "https://example.com/{id}.json";
+
+// the values of ICommanderToken.BlockReason
+enum BlockReason {
+    None,
+    Nontransferable,
+    NotWhitelisted,
+    Nonburnable,
+    Dependency,
+    Policy,
+}
+
+// Start test block
+describe('CommanderToken1155', function () {
+    before(async function () {
+        this.CommanderToken1155Factory = await ethers.getContractFactory('MintCommanderToken1155Test');
+        this.CommanderTokenFactory = await ethers.getContractFactory('MintCommanderTokenTest');
+    });
+
+    beforeEach(async function () {
+        const signers = await ethers.getSigners();
+        this.owner = signers[0];
+        this.controller = signers[1];
+        this.wallet2 = signers[2];
+        this.wallet3 = signers[3];
+
+        this.CommanderToken1155 = await this.CommanderToken1155Factory.deploy(TOKEN_URI);
+        await this.CommanderToken1155.initCollectionController(this.controller.address);
+        this.Controlled = this.CommanderToken1155.connect(this.controller);
+
+        await this.CommanderToken1155.mintBatch(this.owner.address, [1, 2, 3], [10, 10, 10]);
+
+        this.CommanderToken = await this.CommanderTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        await this.CommanderToken.mint(this.owner.address, 1);
+    });
+
+    const transfer = (commanderToken1155: any, from: any, to: string, id: number, amount: number = 1) =>
+        commanderToken1155.connect(from).safeTransferFrom(from.address, to, id, amount, "0x");
+
+    describe('Restrictions', function () {
+        it('Only the controller of an id can change its restrictions', async function () {
+            await expect(this.CommanderToken1155.setTransferable(1, false))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "NotController")
+                .withArgs(1, this.owner.address);
+
+            await this.Controlled.setController(1, this.wallet2.address);
+
+            expect(await this.CommanderToken1155.controllerOf(1)).to.equal(this.wallet2.address);
+            expect(await this.CommanderToken1155.controllerOf(2)).to.equal(this.controller.address);
+            await expect(this.Controlled.setBurnable(1, false))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "NotController")
+                .withArgs(1, this.controller.address);
+        });
+
+        it('Nontransferable ids are transferable only to their whitelist', async function () {
+            await this.Controlled.setTransferable(1, false);
+            await this.Controlled.setTransferWhitelist(1, this.wallet3.address, true);
+
+            await expect(transfer(this.CommanderToken1155, this.owner, this.wallet2.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "TransferBlocked")
+                .withArgs(1, this.owner.address, this.wallet2.address, [
+                    [this.CommanderToken1155.address, 1, BlockReason.NotWhitelisted],
+                ]);
+
+            await transfer(this.CommanderToken1155, this.owner, this.wallet3.address, 1, 4);
+
+            expect(await this.CommanderToken1155.balanceOf(this.wallet3.address, 1)).to.equal(4);
+            expect(await this.CommanderToken1155.getWhitelistedAddresses(1)).to.deep.equal([this.wallet3.address]);
+        });
+
+        it('Restrictions of a holder apply only to its balance', async function () {
+            await transfer(this.CommanderToken1155, this.owner, this.wallet2.address, 1, 5);
+            await this.Controlled.setHolderTransferable(1, this.owner.address, false);
+            await this.Controlled.setHolderBurnable(1, this.wallet2.address, false);
+
+            expect(await this.CommanderToken1155.isTokenTransferableFromToAddress(1, this.owner.address, this.wallet3.address)).to.equal(false);
+            expect(await this.CommanderToken1155.isTokenTransferable(1)).to.equal(true);
+
+            await expect(transfer(this.CommanderToken1155, this.owner, this.wallet3.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "TransferBlocked")
+                .withArgs(1, this.owner.address, this.wallet3.address, [
+                    [this.CommanderToken1155.address, 1, BlockReason.Nontransferable],
+                ]);
+            await transfer(this.CommanderToken1155, this.wallet2, this.wallet3.address, 1);
+
+            await expect(this.CommanderToken1155.connect(this.wallet2).burn(this.wallet2.address, 1, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "BurnBlocked")
+                .withArgs(1, this.wallet2.address, [[this.CommanderToken1155.address, 1, BlockReason.Nonburnable]]);
+            await this.CommanderToken1155.burn(this.owner.address, 1, 1);
+        });
+
+        it('Batch transfers and burns check every id', async function () {
+            await this.Controlled.setTransferable(3, false);
+            await this.Controlled.setBurnable(2, false);
+
+            await expect(this.CommanderToken1155.safeBatchTransferFrom(this.owner.address, this.wallet2.address, [1, 2, 3], [1, 1, 1], "0x"))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "TransferBlocked")
+                .withArgs(3, this.owner.address, this.wallet2.address, [[this.CommanderToken1155.address, 3, BlockReason.Nontransferable]]);
+            await this.CommanderToken1155.safeBatchTransferFrom(this.owner.address, this.wallet2.address, [1, 2], [1, 1], "0x");
+
+            await expect(this.CommanderToken1155.burnBatch(this.owner.address, [1, 2], [1, 1]))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "BurnBlocked")
+                .withArgs(2, this.owner.address, [[this.CommanderToken1155.address, 2, BlockReason.Nonburnable]]);
+            await this.CommanderToken1155.burnBatch(this.owner.address, [1, 3], [9, 10]);
+
+            expect(await this.CommanderToken1155.exists(3)).to.equal(false);
+        });
+
+        it('Mints are not restricted', async function () {
+            await this.Controlled.setTransferable(1, false);
+            await this.Controlled.setHolderTransferable(1, this.owner.address, false);
+
+            await this.CommanderToken1155.mint(this.wallet2.address, 1, 5);
+
+            expect(await this.CommanderToken1155.balanceOf(this.wallet2.address, 1)).to.equal(5);
+        });
+    });
+
+    describe('Dependencies', function () {
+        it('Ids depend on other ids, and restrictions propagate through them', async function () {
+            await this.Controlled.setDependence(1, this.CommanderToken1155.address, 2);
+            await this.Controlled.setDependence(2, this.CommanderToken1155.address, 3);
+            await this.Controlled.setBurnable(3, false);
+
+            expect(await this.CommanderToken1155.isTokenBurnable(1)).to.equal(false);
+            expect(await this.CommanderToken1155.getDependencies(1, 0, 10)).to.deep.equal([[this.CommanderToken1155.address], [2]]);
+            await expect(this.CommanderToken1155.burn(this.owner.address, 1, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "BurnBlocked")
+                .withArgs(1, this.owner.address, [
+                    [this.CommanderToken1155.address, 1, BlockReason.Dependency],
+                    [this.CommanderToken1155.address, 2, BlockReason.Dependency],
+                    [this.CommanderToken1155.address, 3, BlockReason.Nonburnable],
+                ]);
+
+            await expect(this.Controlled.setDependence(3, this.CommanderToken1155.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "DependenceCycle")
+                .withArgs(3, this.CommanderToken1155.address, 1);
+        });
+
+        it('Removes dependencies', async function () {
+            await this.Controlled.setDependence(1, this.CommanderToken1155.address, 2);
+            await this.Controlled.setDependence(1, this.CommanderToken1155.address, 3);
+
+            await expect(this.Controlled.removeDependence(1, this.CommanderToken1155.address, 2))
+                .to.emit(this.CommanderToken1155, "RemovedDependence")
+                .withArgs(1, this.CommanderToken1155.address, 2);
+
+            expect(await this.CommanderToken1155.isDependent(1, this.CommanderToken1155.address, 2)).to.equal(false);
+            expect(await this.CommanderToken1155.isDependent(1, this.CommanderToken1155.address, 3)).to.equal(true);
+            expect(await this.CommanderToken1155.getDependenciesCount(1)).to.equal(1);
+        });
+
+        it('Ids depend on ERC721 Commander Tokens', async function () {
+            await this.Controlled.setDependence(1, this.CommanderToken.address, 1);
+            await this.CommanderToken.setTransferable(1, false);
+
+            await expect(transfer(this.CommanderToken1155, this.owner, this.wallet2.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "TransferBlocked")
+                .withArgs(1, this.owner.address, this.wallet2.address, [
+                    [this.CommanderToken1155.address, 1, BlockReason.Dependency],
+                    [this.CommanderToken.address, 1, BlockReason.Nontransferable],
+                ]);
+
+            await this.CommanderToken.setTransferWhitelist(1, this.wallet2.address, true);
+            await transfer(this.CommanderToken1155, this.owner, this.wallet2.address, 1);
+        });
+
+        it('ERC721 Commander Tokens depend on ids', async function () {
+            await this.CommanderToken.setDependence(1, this.CommanderToken1155.address, 1);
+            await this.Controlled.setTransferable(1, false);
+
+            await expect(this.CommanderToken.transferFrom(this.owner.address, this.wallet2.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(1, this.wallet2.address, [
+                    [this.CommanderToken.address, 1, BlockReason.Dependency],
+                    [this.CommanderToken1155.address, 1, BlockReason.Nontransferable],
+                ]);
+
+            await expect(this.CommanderToken.setDependence(1, this.CommanderToken1155.address, 4))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NonexistentCommanderToken")
+                .withArgs(this.CommanderToken1155.address, 4);
+        });
+
+        it('Detects dependence cycles across standards', async function () {
+            await this.CommanderToken.setDependence(1, this.CommanderToken1155.address, 1);
+
+            await expect(this.Controlled.setDependence(1, this.CommanderToken.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "DependenceCycle")
+                .withArgs(1, this.CommanderToken.address, 1);
+        });
+
+        it('Depends only on existing Commander Tokens', async function () {
+            await expect(this.Controlled.setDependence(1, this.CommanderToken1155.address, 4))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "NonexistentCommanderToken")
+                .withArgs(this.CommanderToken1155.address, 4);
+            await expect(this.Controlled.setDependence(1, this.CommanderToken.address, 2))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "NonexistentCommanderToken")
+                .withArgs(this.CommanderToken.address, 2);
+            await expect(this.Controlled.setDependence(1, this.wallet2.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken1155, "NotCommanderToken")
+                .withArgs(this.wallet2.address);
+        });
+    });
+
+    it('Supports the ICommanderToken1155 interface', async function () {
+        const ICommanderToken1155InterfaceId = "0xfed442a9";
+        const IERC1155InterfaceId = "0xd9b67a26";
+
+        expect(await this.CommanderToken1155.supportsInterface(ICommanderToken1155InterfaceId)).to.equal(true);
+        expect(await this.CommanderToken1155.supportsInterface(IERC1155InterfaceId)).to.equal(true);
+    });
+});
@@ -8,6 +8,13 @@ import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
 import { TOKEN_NAME, TOKEN_SYMBOL, INITIAL_MINT_COUNT } from "../constants/test";
+import { getTokenFactory } from "./utils/tokenFactory";
+import {
+    getPermitTypedData,
+    getSetDependenceTypedData,
+    getSetTransferWhitelistTypedData,
+    signTypedData,
+} from "../sdk";
 
 interface MintResponse {
     initialMintCount: number;
@@ -50,6 +57,26 @@ const mintTokensFixture = async (collectorContract: any, tokensOwner: any, initi
 }
 
 
+// the values of ICommanderToken.BlockReason
+enum BlockReason {
+    None,
+    Nontransferable,
+    NotWhitelisted,
+    Nonburnable,
+    Dependency,
+    Policy,
+}
+
+
+// the values of IERC5484.BurnAuth
+enum BurnAuth {
+    IssuerOnly,
+    OwnerOnly,
+    Both,
+    Neither,
+}
+
+
 const getRandomMintedTokenId = function (initiallyMinted: string[]): number {
     let n = Math.floor(Math.random() * initiallyMinted.length) + 1;
     return n;
@@ -65,10 +92,19 @@ const getRandomMintedTokens = function (initiallyMinted: string[]): string[] {
 }
 
 
-// Start test block
-describe('CommanderToken', function () {
+// decodes a base64 JSON data URI, as returned from tokenURI by RestrictionsRenderer
+const decodeTokenURI = function (tokenURI: string): any {
+    const [prefix, data] = tokenURI.split(",");
+    expect(prefix).to.equal("data:application/json;base64");
+
+    return JSON.parse(Buffer.from(data, "base64").toString());
+}
+
+
+// the tests of CommanderToken, which run on the token and on its upgradeable version behind a proxy
+const commanderTokenTests = (contractName: string, upgradeable: boolean) => function (this: Mocha.Suite) {
     before(async function () {
-        this.CommanderTokenMintTestFactory = await ethers.getContractFactory('MintCommanderTokenTest');
+        this.CommanderTokenMintTestFactory = await getTokenFactory(contractName, upgradeable);
     });
 
     beforeEach(async function () {
@@ -183,6 +219,219 @@ describe('CommanderToken', function () {
 
         });
 
+        it('Burned token does not exist anymore, and loses its restrictions', async function () {
+            const [tokenId, CTId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.initCollectionController(this.wallet3.address);
+            await this.CommanderToken.connect(this.wallet3).setController(tokenId, this.wallet2.address);
+            await this.CommanderToken.connect(this.wallet2).setTransferable(tokenId, false);
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, CTId);
+
+            await expect(this.CommanderToken.connect(this.owner).burn(tokenId))
+                .to.emit(this.CommanderToken, "Transfer")
+                .withArgs(this.contractOwner, ethers.constants.AddressZero, tokenId)
+                .and.to.emit(this.CommanderToken, "RemovedDependence")
+                .withArgs(tokenId, this.CommanderToken.address, CTId);
+
+            await expect(this.CommanderToken.ownerOf(tokenId)).to.be.revertedWith("ERC721: invalid token ID");
+            await expect(this.CommanderToken.locked(tokenId)).to.be.revertedWith("ERC721: invalid token ID");
+            expect(await this.CommanderToken.balanceOf(this.contractOwner)).to.equal(this.initialMintCount - 1);
+            expect(await this.CommanderToken.controllerOf(tokenId)).to.equal(this.wallet3.address);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(true);
+            expect(await this.CommanderToken.isDependent(tokenId, this.CommanderToken.address, CTId)).to.equal(false);
+
+            // the controller can't recover the burned token, and it can't be burned twice
+            await expect(this.CommanderToken.connect(this.wallet3).recover(tokenId, this.wallet2.address))
+                .to.be.revertedWith("ERC721: invalid token ID");
+            await expect(this.CommanderToken.connect(this.owner).burn(tokenId))
+                .to.be.revertedWith("ERC721: invalid token ID");
+        });
+
+    });
+
+    describe('Controller', function () {
+        it('Owner controls the restrictions of a token without a controller', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            expect(await this.CommanderToken.controllerOf(tokenId)).to.equal(ethers.constants.AddressZero);
+
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+        });
+
+        it('Only the token controller can change its restrictions', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            // the owner hands over the control of the token
+            await expect(this.CommanderToken.connect(this.owner).setController(tokenId, this.wallet3.address))
+                .to.emit(this.CommanderToken, "ControllerChanged")
+                .withArgs(tokenId, ethers.constants.AddressZero, this.wallet3.address);
+            expect(await this.CommanderToken.controllerOf(tokenId)).to.equal(this.wallet3.address);
+
+            await this.CommanderToken.connect(this.wallet3).setTransferable(tokenId, false);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+
+            // the owner can't make the token transferable again, or take the control back
+            await expect(this.CommanderToken.connect(this.owner).setTransferable(tokenId, true))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController")
+                .withArgs(tokenId, this.contractOwner);
+            await expect(this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet2.address, true))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+            await expect(this.CommanderToken.connect(this.owner).setController(tokenId, this.contractOwner))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+        });
+
+        it('Collection controller controls tokens without a controller of their own', async function () {
+            const [tokenId, otherTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.initCollectionController(this.wallet3.address))
+                .to.emit(this.CommanderToken, "CollectionControllerChanged")
+                .withArgs(ethers.constants.AddressZero, this.wallet3.address);
+
+            await this.CommanderToken.connect(this.wallet3).setBurnable(tokenId, false);
+            await expect(this.CommanderToken.connect(this.owner).setBurnable(tokenId, true))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+
+            // a token controller overrides the collection controller
+            await this.CommanderToken.connect(this.wallet3).setController(otherTokenId, this.wallet2.address);
+            await this.CommanderToken.connect(this.wallet2).setBurnable(otherTokenId, false);
+            await expect(this.CommanderToken.connect(this.wallet3).setBurnable(otherTokenId, true))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+        });
+
+        it('Only the collection controller can hand over the collection', async function () {
+            await expect(this.CommanderToken.connect(this.owner).setCollectionController(this.contractOwner))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotCollectionController")
+                .withArgs(this.contractOwner);
+
+            await this.CommanderToken.initCollectionController(this.wallet3.address);
+            await this.CommanderToken.connect(this.wallet3).setCollectionController(this.wallet2.address);
+
+            expect(await this.CommanderToken.collectionController()).to.equal(this.wallet2.address);
+        });
+
+        it('Controller recovers a soulbound token', async function () {
+            const [tokenId, dependentTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.initCollectionController(this.wallet3.address);
+            await this.CommanderToken.connect(this.wallet3).setTransferable(tokenId, false);
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependentTokenId);
+            await this.CommanderToken.connect(this.wallet3).setTransferable(dependentTokenId, false);
+
+            await expect(this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked");
+
+            // only the controller can recover
+            await expect(this.CommanderToken.connect(this.owner).recover(tokenId, this.wallet2.address))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+
+            await expect(this.CommanderToken.connect(this.wallet3).recover(tokenId, this.wallet2.address))
+                .to.emit(this.CommanderToken, "Recovered")
+                .withArgs(tokenId, this.contractOwner, this.wallet2.address);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet2.address);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+        });
+
+        it('Token without a controller cannot be recovered', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).recover(tokenId, this.wallet2.address))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+        });
+    });
+
+    describe('Schedules', function () {
+        const ONE_DAY_IN_SECS = 24 * 60 * 60;
+
+        it('Token is nontransferable during a cooling-off period', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+            const start = (await time.latest()) + ONE_DAY_IN_SECS;
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferableSchedule(tokenId, start, 0))
+                .to.emit(this.CommanderToken, "TransferableScheduleSet")
+                .withArgs(tokenId, start, 0);
+
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+            await expect(this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked");
+
+            await time.increaseTo(start);
+
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(true);
+            await this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet2.address);
+        });
+
+        it('Token is transferable only inside its window', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+            const start = (await time.latest()) + ONE_DAY_IN_SECS;
+            const end = start + ONE_DAY_IN_SECS;
+
+            await this.CommanderToken.connect(this.owner).setTransferableSchedule(tokenId, start, end);
+
+            const schedule = await this.CommanderToken.getTransferableSchedule(tokenId);
+            expect(schedule.start).to.equal(start);
+            expect(schedule.end).to.equal(end);
+
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+
+            await time.increase(ONE_DAY_IN_SECS);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(true);
+
+            await time.increase(ONE_DAY_IN_SECS);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+        });
+
+        it('Schedule does not make a nontransferable token transferable', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+            await this.CommanderToken.connect(this.owner).setTransferableSchedule(tokenId, 0, 0);
+
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(false);
+        });
+
+        it('Token is burnable only after its burnable schedule starts', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+            const start = (await time.latest()) + ONE_DAY_IN_SECS;
+
+            await expect(this.CommanderToken.connect(this.owner).setBurnableSchedule(tokenId, start, 0))
+                .to.emit(this.CommanderToken, "BurnableScheduleSet")
+                .withArgs(tokenId, start, 0);
+
+            expect(await this.CommanderToken.isBurnable(tokenId)).to.equal(false);
+            expect(await this.CommanderToken.isTransferable(tokenId)).to.equal(true);
+            await expect(this.CommanderToken.connect(this.owner).burn(tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "BurnBlocked");
+
+            await time.increase(ONE_DAY_IN_SECS);
+
+            expect(await this.CommanderToken.isBurnable(tokenId)).to.equal(true);
+            await this.CommanderToken.connect(this.owner).burn(tokenId);
+        });
+
+        it('Schedule of a Commander Token applies to the tokens depending on it', async function () {
+            const [tokenId, dependentTokenId] = getRandomMintedTokens(this.initialMint);
+            const start = (await time.latest()) + ONE_DAY_IN_SECS;
+
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependentTokenId);
+            await this.CommanderToken.connect(this.owner).setTransferableSchedule(dependentTokenId, start, 0);
+
+            expect(await this.CommanderToken.isTokenTransferable(tokenId)).to.equal(false);
+
+            await time.increase(ONE_DAY_IN_SECS);
+
+            expect(await this.CommanderToken.isTokenTransferable(tokenId)).to.equal(true);
+        });
+
+        it('Schedule that ends before it starts is rejected', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferableSchedule(tokenId, 100, 100))
+                .to.be.revertedWithCustomError(this.CommanderToken, "InvalidSchedule")
+                .withArgs(100, 100);
+        });
     });
 
     describe('Dependence', function () {
@@ -243,9 +492,164 @@ describe('CommanderToken', function () {
 
         });
 
+        it('Removes a dependency that moved in the list of dependencies', async function () {
+            const [tokenId, dependencyA, dependencyB, dependencyC] = getRandomMintedTokens(this.initialMint);
+            const address = this.CommanderToken.address;
+
+            for (const dependency of [dependencyA, dependencyB, dependencyC])
+                await this.CommanderToken.connect(this.owner).setDependence(tokenId, address, dependency);
+
+            // removing the first dependency moves the last one, C, to its place
+            await this.CommanderToken.connect(this.owner).removeDependence(tokenId, address, dependencyA);
+            await this.CommanderToken.connect(this.owner).removeDependence(tokenId, address, dependencyC);
+
+            expect(await this.CommanderToken.isDependent(tokenId, address, dependencyC)).to.equal(false);
+            const [contracts, ids] = await this.CommanderToken.getDependencies(tokenId, 0, 10);
+            expect(contracts).to.deep.equal([address]);
+            expect(ids.map(String)).to.deep.equal([dependencyB]);
+
+            // the removed dependency no longer restricts the token
+            await this.CommanderToken.connect(this.owner).setTransferable(dependencyC, false);
+            await this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.collector, tokenId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.collector);
+        });
+
+        it('Setting dependence on a contract that is not a Commander Token fails', async function () {
+            const [tokenIdToChange] = getRandomMintedTokens(this.initialMint);
+
+            // a wallet
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenIdToChange, this.wallet2.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotCommanderToken")
+                .withArgs(this.wallet2.address);
+
+            // an ERC721 contract that is not a Commander Token
+            const lockedTokenFactory = await ethers.getContractFactory('MintLockedTokenTest');
+            const lockedToken = await lockedTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+            await lockedToken.mint(this.contractOwner, 1);
+
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenIdToChange, lockedToken.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotCommanderToken")
+                .withArgs(lockedToken.address);
+        });
+
+        it('Setting dependence on a nonexistent token fails', async function () {
+            const [tokenIdToChange] = getRandomMintedTokens(this.initialMint);
+            const nonexistentTokenId = this.initialMint.length + 1;
+
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenIdToChange, this.CommanderToken2.address, nonexistentTokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NonexistentCommanderToken")
+                .withArgs(this.CommanderToken2.address, nonexistentTokenId);
+        });
+
+        it('Setting dependence unsafely skips the Commander Token checks', async function () {
+            const [tokenIdToChange] = getRandomMintedTokens(this.initialMint);
+            const nonexistentTokenId = this.initialMint.length + 1;
+
+            await this.CommanderToken.connect(this.owner).setDependenceUnsafe(tokenIdToChange, this.CommanderToken2.address, nonexistentTokenId);
+            expect(await this.CommanderToken.isDependent(tokenIdToChange, this.CommanderToken2.address, nonexistentTokenId)).to.equal(true);
+
+            // only the owner or approved can set dependence unsafely
+            await expect(this.CommanderToken.connect(this.wallet2).setDependenceUnsafe(tokenIdToChange, this.CommanderToken2.address, 1))
+                .to.be.revertedWith("ERC721: caller is not token owner or approved");
+        });
+
+        it('Lists dependencies with pagination', async function () {
+            const [tokenIdToChange, ...dependentTokenIds] = getRandomMintedTokens(this.initialMint);
+
+            expect(await this.CommanderToken.getDependenciesCount(tokenIdToChange)).to.equal(0);
+
+            // tokenIdToChange depends on all the other tokens, from both contracts
+            await this.CommanderToken2["mint(address,uint256)"](this.contractOwner, 1);
+            for (const dependentTokenId of dependentTokenIds) {
+                await this.CommanderToken.connect(this.owner).setDependence(tokenIdToChange, this.CommanderToken.address, dependentTokenId);
+            }
+            await this.CommanderToken.connect(this.owner).setDependence(tokenIdToChange, this.CommanderToken2.address, 1);
+
+            const dependenciesCount = dependentTokenIds.length + 1;
+            expect(await this.CommanderToken.getDependenciesCount(tokenIdToChange)).to.equal(dependenciesCount);
+
+            // get all dependencies in pages of 2
+            const contracts: string[] = [];
+            const tokenIds: string[] = [];
+            for (let offset = 0; offset < dependenciesCount; offset += 2) {
+                const [pageContracts, pageTokenIds] = await this.CommanderToken.getDependencies(tokenIdToChange, offset, 2);
+                expect(pageContracts.length).to.be.at.most(2);
+                contracts.push(...pageContracts);
+                tokenIds.push(...pageTokenIds.map((id: any) => id.toString()));
+            }
+
+            expect(contracts.slice(0, dependentTokenIds.length)).to.deep.equal(dependentTokenIds.map(() => this.CommanderToken.address));
+            expect(tokenIds.slice(0, dependentTokenIds.length)).to.deep.equal(dependentTokenIds);
+            expect(contracts[dependenciesCount - 1]).to.equal(this.CommanderToken2.address);
+
+            // offset past the end returns empty arrays
+            const [emptyContracts, emptyTokenIds] = await this.CommanderToken.getDependencies(tokenIdToChange, dependenciesCount, 10);
+            expect(emptyContracts).to.be.empty;
+            expect(emptyTokenIds).to.be.empty;
+
+            // a huge limit doesn't overflow
+            const [allContracts] = await this.CommanderToken.getDependencies(tokenIdToChange, 1, ethers.constants.MaxUint256);
+            expect(allContracts.length).to.equal(dependenciesCount - 1);
+        });
+
     });
 
 
+    describe('Dependence cycles and depth', function () {
+        it('A token cannot depend on itself', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "DependenceCycle")
+                .withArgs(tokenId, this.CommanderToken.address, tokenId);
+        });
+
+        it('Rejects a multi-hop dependence cycle', async function () {
+            const [tokenA, tokenB, tokenC] = getRandomMintedTokens(this.initialMint);
+
+            // A -> B -> C
+            await this.CommanderToken.connect(this.owner).setDependence(tokenA, this.CommanderToken.address, tokenB);
+            await this.CommanderToken.connect(this.owner).setDependence(tokenB, this.CommanderToken.address, tokenC);
+
+            // C -> A closes a cycle
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenC, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "DependenceCycle")
+                .withArgs(tokenC, this.CommanderToken.address, tokenA);
+
+            // the tokens are still transferable
+            expect(await this.CommanderToken.isTokenTransferable(tokenA)).to.equal(true);
+        });
+
+        it('Rejects a dependence cycle that goes through another contract', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken2["mint(address,uint256)"](this.contractOwner, 1);
+
+            // A -> token 1 of CommanderToken2 -> B
+            await this.CommanderToken.connect(this.owner).setDependence(tokenA, this.CommanderToken2.address, 1);
+            await this.CommanderToken2.connect(this.owner).setDependence(1, this.CommanderToken.address, tokenB);
+
+            // B -> A closes a cycle
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenB, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "DependenceCycle");
+        });
+
+        it('Rejects a chain of dependencies longer than the maximal depth', async function () {
+            const [tokenA, tokenB, tokenC, tokenD] = getRandomMintedTokens(this.initialMint);
+
+            expect(await this.CommanderToken.maxDependenceDepth()).to.equal(10);
+            await this.CommanderToken.setMaxDependenceDepth(2);
+
+            // A -> B -> C is of depth 2
+            await this.CommanderToken.connect(this.owner).setDependence(tokenB, this.CommanderToken.address, tokenC);
+            await this.CommanderToken.connect(this.owner).setDependence(tokenA, this.CommanderToken.address, tokenB);
+
+            // D -> A -> B -> C is of depth 3
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenD, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "DependenceTooDeep")
+                .withArgs(tokenD, this.CommanderToken.address, tokenA, 2);
+        });
+    });
+
     describe('Transfers', function () {
         it('From wallet to wallet', async function () {
             const tokenIdToTransfer = getRandomMintedTokenId(this.initialMint);
@@ -287,7 +691,8 @@ describe('CommanderToken', function () {
             await expect(this
                 .CommanderToken.connect(this.owner)
                 .transferFrom(ownerAddress, transferToWallet, tokenIdToTransfer))
-                .to.be.revertedWith("Commander Token: the token status is set to nontransferable");
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(tokenIdToTransfer, transferToWallet, [[this.CommanderToken.address, tokenIdToTransfer, BlockReason.Nontransferable]]);
 
         })
 
@@ -315,12 +720,872 @@ describe('CommanderToken', function () {
             // await expect(this
             //     .CommanderToken.connect(this.owner)
             //     .transferFrom(ownerAddress, transferToWallet, tokenIdToTransfer))
-            //     .to.be.revertedWith("Commander Token: the token depends on at least one nontransferable token");
+            //     .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked");
 
         })
     });
 
+    describe('Blocking explanations', function () {
+        it('Transferable token has no blocking path', async function () {
+            const [tokenId, dependentTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependentTokenId);
+
+            expect(await this.CommanderToken.whyNotTransferable(tokenId, this.wallet2.address)).to.be.empty;
+            expect(await this.CommanderToken.whyNotBurnable(tokenId)).to.be.empty;
+        });
+
+        it('Reports a nontransferable token with a whitelist that does not include the recipient', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet3.address, true);
+
+            const path = await this.CommanderToken.whyNotTransferable(tokenId, this.wallet2.address);
+            expect(path).to.have.length(1);
+            expect(path[0].reason).to.equal(BlockReason.NotWhitelisted);
+
+            expect(await this.CommanderToken.whyNotTransferable(tokenId, this.wallet3.address)).to.be.empty;
+        });
+
+        it('Reports the path through nested dependencies across contracts', async function () {
+            const [tokenId, middleTokenId] = getRandomMintedTokens(this.initialMint);
+
+            // tokenId -> middleTokenId -> token 1 of CommanderToken2, which is nontransferable
+            await this.CommanderToken2["mint(address,uint256)"](this.contractOwner, 1);
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, middleTokenId);
+            await this.CommanderToken.connect(this.owner).setDependence(middleTokenId, this.CommanderToken2.address, 1);
+            await this.CommanderToken2.connect(this.owner).setTransferable(1, false);
+
+            const path = await this.CommanderToken.whyNotTransferable(tokenId, this.wallet2.address);
+            expect(path.map((step: any) => [step.tokensCollection, step.tokenID.toString(), step.reason])).to.deep.equal([
+                [this.CommanderToken.address, tokenId, BlockReason.Dependency],
+                [this.CommanderToken.address, middleTokenId, BlockReason.Dependency],
+                [this.CommanderToken2.address, "1", BlockReason.Nontransferable],
+            ]);
+
+            await expect(this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(tokenId, this.wallet2.address, path);
+        });
+
+        it('Reports why a token is not burnable', async function () {
+            const [tokenId, dependentTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependentTokenId);
+            await this.CommanderToken.connect(this.owner).setBurnable(dependentTokenId, false);
+
+            const expectedPath = [
+                [this.CommanderToken.address, tokenId, BlockReason.Dependency],
+                [this.CommanderToken.address, dependentTokenId, BlockReason.Nonburnable],
+            ];
+
+            const path = await this.CommanderToken.whyNotBurnable(tokenId);
+            expect(path.map((step: any) => [step.tokensCollection, step.tokenID.toString(), step.reason])).to.deep.equal(expectedPath);
+
+            await expect(this.CommanderToken.connect(this.owner).burn(tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "BurnBlocked")
+                .withArgs(tokenId, expectedPath);
+        });
+    });
+
+    describe('Transfer policies', function () {
+        beforeEach(async function () {
+            this.AllowlistPolicy = await (await ethers.getContractFactory('AllowlistPolicy')).deploy();
+            this.MaxTransfersPolicy = await (await ethers.getContractFactory('MaxTransfersPolicy')).deploy(1);
+            this.HolderOfCollectionPolicy = await (await ethers.getContractFactory('HolderOfCollectionPolicy')).deploy(this.CommanderToken2.address);
+        });
+
+        it('Only allows transfers to holders of the required collection', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferPolicy(tokenId, this.HolderOfCollectionPolicy.address))
+                .to.emit(this.CommanderToken, "TransferPolicySet")
+                .withArgs(tokenId, this.HolderOfCollectionPolicy.address);
+            expect(await this.CommanderToken.transferPolicyOf(tokenId)).to.equal(this.HolderOfCollectionPolicy.address);
+
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(false);
+            await expect(this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(tokenId, this.wallet2.address, [[this.CommanderToken.address, tokenId, BlockReason.Policy]]);
+
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 1);
+            await this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet2.address);
+        });
+
+        it('Limits the number of transfers of a token', async function () {
+            const [tokenId, otherTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setTransferPolicy(tokenId, this.MaxTransfersPolicy.address);
+            await this.CommanderToken.connect(this.owner).setTransferPolicy(otherTokenId, this.MaxTransfersPolicy.address);
+
+            await this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, tokenId);
+            expect(await this.MaxTransfersPolicy.transfersCount(this.CommanderToken.address, tokenId)).to.equal(1);
+
+            await expect(this.CommanderToken.connect(this.wallet2).transferFrom(this.wallet2.address, this.contractOwner, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked");
+
+            // the transfers are counted per token
+            await this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.wallet2.address, otherTokenId);
+
+            // policies don't block burns unless they say so
+            await this.CommanderToken.connect(this.wallet2).burn(tokenId);
+        });
+
+        it('Only allows transfers within an allowlist', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setTransferPolicy(tokenId, this.AllowlistPolicy.address);
+            expect(await this.CommanderToken.isPolicyTransferableToAddress(tokenId, this.wallet2.address)).to.equal(false);
+
+            await expect(this.AllowlistPolicy.connect(this.wallet2).setAllowlisted(this.wallet2.address, true))
+                .to.be.revertedWith("Ownable: caller is not the owner");
+            await expect(this.AllowlistPolicy.connect(this.owner).setAllowlisted(this.wallet2.address, true))
+                .to.emit(this.AllowlistPolicy, "AllowlistSet")
+                .withArgs(this.wallet2.address, true);
+
+            expect(await this.CommanderToken.isPolicyTransferableToAddress(tokenId, this.wallet2.address)).to.equal(true);
+            expect(await this.CommanderToken.isPolicyTransferableToAddress(tokenId, this.wallet3.address)).to.equal(false);
+        });
+
+        it('Collection policy applies to all the tokens, on top of token policies', async function () {
+            const [tokenId, otherTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setCollectionTransferPolicy(this.AllowlistPolicy.address))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotCollectionController")
+                .withArgs(this.contractOwner);
+
+            await this.CommanderToken.initCollectionController(this.wallet3.address);
+            await expect(this.CommanderToken.connect(this.wallet3).setCollectionTransferPolicy(this.AllowlistPolicy.address))
+                .to.emit(this.CommanderToken, "CollectionTransferPolicySet")
+                .withArgs(this.AllowlistPolicy.address);
+            expect(await this.CommanderToken.collectionTransferPolicy()).to.equal(this.AllowlistPolicy.address);
+
+            await this.AllowlistPolicy.connect(this.owner).setAllowlisted(this.wallet2.address, true);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(otherTokenId, this.wallet2.address)).to.equal(true);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(otherTokenId, this.collector)).to.equal(false);
+
+            // both the collection policy and the token policy must allow the transfer
+            await this.CommanderToken.connect(this.wallet3).setTransferPolicy(tokenId, this.HolderOfCollectionPolicy.address);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(false);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 1);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(true);
+        });
+
+        it('Dependencies blocked by a policy block the dependent token', async function () {
+            const [tokenId, dependentTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependentTokenId);
+            await this.CommanderToken.connect(this.owner).setTransferPolicy(dependentTokenId, this.AllowlistPolicy.address);
+
+            const path = await this.CommanderToken.whyNotTransferable(tokenId, this.wallet2.address);
+            expect(path.map((step: any) => [step.tokensCollection, step.tokenID.toString(), step.reason])).to.deep.equal([
+                [this.CommanderToken.address, tokenId, BlockReason.Dependency],
+                [this.CommanderToken.address, dependentTokenId, BlockReason.Policy],
+            ]);
+        });
+
+        it('Rejects policies that do not support ITransferPolicy', async function () {
+            const tokenId = getRandomMintedTokenId(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferPolicy(tokenId, this.CommanderToken2.address))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotTransferPolicy")
+                .withArgs(this.CommanderToken2.address);
+
+            // the zero address detaches the policy
+            await this.CommanderToken.connect(this.owner).setTransferPolicy(tokenId, this.AllowlistPolicy.address);
+            await this.CommanderToken.connect(this.owner).setTransferPolicy(tokenId, ethers.constants.AddressZero);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(true);
+        });
+    });
+
+    describe('Batch', function () {
+        it('Sets the restrictions of many tokens in a single transaction', async function () {
+            const [tokenA, tokenB, tokenC] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferableBatch([tokenA, tokenB], [false, false]))
+                .to.emit(this.CommanderToken, "TransferableSet").withArgs(tokenA, false)
+                .and.to.emit(this.CommanderToken, "TransferableSet").withArgs(tokenB, false);
+            await this.CommanderToken.connect(this.owner).setBurnableBatch([tokenB, tokenC], [false, true]);
+
+            expect(await this.CommanderToken.isTransferable(tokenA)).to.equal(false);
+            expect(await this.CommanderToken.isTransferable(tokenB)).to.equal(false);
+            expect(await this.CommanderToken.isTransferable(tokenC)).to.equal(true);
+            expect(await this.CommanderToken.isBurnable(tokenB)).to.equal(false);
+            expect(await this.CommanderToken.isBurnable(tokenC)).to.equal(true);
+        });
+
+        it('Sets dependencies and whitelists of many tokens in a single transaction', async function () {
+            const [tokenA, tokenB, tokenC] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setDependenceBatch(
+                [tokenA, tokenB],
+                [this.CommanderToken.address, this.CommanderToken.address],
+                [tokenC, tokenC]
+            ))
+                .to.emit(this.CommanderToken, "NewDependence").withArgs(tokenA, this.CommanderToken.address, tokenC)
+                .and.to.emit(this.CommanderToken, "NewDependence").withArgs(tokenB, this.CommanderToken.address, tokenC);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferWhitelistBatch(
+                [tokenA, tokenA],
+                [this.wallet2.address, this.wallet3.address],
+                [true, true]
+            ))
+                .to.emit(this.CommanderToken, "TransferWhitelistSet").withArgs(tokenA, this.wallet3.address, true);
+
+            expect(await this.CommanderToken.isDependent(tokenB, this.CommanderToken.address, tokenC)).to.equal(true);
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenA)).to.deep.equal([this.wallet2.address, this.wallet3.address]);
+        });
+
+        it('Batch is all or nothing', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+
+            // the owner doesn't control tokenB anymore
+            await this.CommanderToken.connect(this.owner).setController(tokenB, this.wallet3.address);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferableBatch([tokenA, tokenB], [false, false]))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotController");
+            expect(await this.CommanderToken.isTransferable(tokenA)).to.equal(true);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferableBatch([tokenA, tokenB], [false]))
+                .to.be.revertedWith("Commander Token: the arrays have different lengths");
+        });
+
+        it('Multicall runs different functions in a single transaction', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).multicall([
+                this.CommanderToken.interface.encodeFunctionData("setTransferable", [tokenA, false]),
+                this.CommanderToken.interface.encodeFunctionData("setTransferWhitelist", [tokenA, this.wallet2.address, true]),
+                this.CommanderToken.interface.encodeFunctionData("setDependence", [tokenA, this.CommanderToken.address, tokenB]),
+            ]);
+
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenA, this.wallet2.address)).to.equal(true);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenA, this.wallet3.address)).to.equal(false);
+            expect(await this.CommanderToken.isDependent(tokenA, this.CommanderToken.address, tokenB)).to.equal(true);
+
+            // the calls are made by the sender of the multicall
+            await expect(this.CommanderToken.connect(this.wallet2).multicall([
+                this.CommanderToken.interface.encodeFunctionData("setTransferable", [tokenB, false]),
+            ])).to.be.revertedWith("ERC721: caller is not token owner or approved");
+        });
+    });
+
+    describe('Signatures', function () {
+        beforeEach(async function () {
+            this.deadline = (await time.latest()) + 3600;
+        });
+
+        it('A relayer sets a dependence signed by the owner of the token', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+            const typedData = await getSetDependenceTypedData(
+                this.CommanderToken.address, this.owner, tokenA, this.CommanderToken.address, tokenB, this.deadline
+            );
+            const signature = await signTypedData(this.owner, typedData);
+
+            await expect(this.CommanderToken.connect(this.wallet2)
+                .setDependenceWithSig(tokenA, this.CommanderToken.address, tokenB, this.deadline, signature))
+                .to.emit(this.CommanderToken, "NewDependence").withArgs(tokenA, this.CommanderToken.address, tokenB);
+
+            expect(await this.CommanderToken.isDependent(tokenA, this.CommanderToken.address, tokenB)).to.equal(true);
+            expect(await this.CommanderToken.nonces(tokenA)).to.equal(typedData.value.nonce.add(1));
+        });
+
+        it('A signature cannot be replayed', async function () {
+            const [tokenA] = getRandomMintedTokens(this.initialMint);
+            const signature = await signTypedData(this.owner, await getSetTransferWhitelistTypedData(
+                this.CommanderToken.address, this.owner, tokenA, this.wallet3.address, true, this.deadline
+            ));
+
+            await this.CommanderToken.connect(this.wallet2)
+                .setTransferWhitelistWithSig(tokenA, this.wallet3.address, true, this.deadline, signature);
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenA, this.wallet3.address)).to.equal(true);
+
+            // the nonce was used, so the signature is recovered to a different signer
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenA, this.wallet3.address, false);
+            await expect(this.CommanderToken.connect(this.wallet2)
+                .setTransferWhitelistWithSig(tokenA, this.wallet3.address, true, this.deadline, signature))
+                .to.be.revertedWithCustomError(this.CommanderToken, "UnauthorizedSigner");
+        });
+
+        it('Expired signatures are rejected', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+            const deadline = (await time.latest()) - 1;
+            const signature = await signTypedData(this.owner, await getSetDependenceTypedData(
+                this.CommanderToken.address, this.owner, tokenA, this.CommanderToken.address, tokenB, deadline
+            ));
+
+            await expect(this.CommanderToken.connect(this.wallet2)
+                .setDependenceWithSig(tokenA, this.CommanderToken.address, tokenB, deadline, signature))
+                .to.be.revertedWithCustomError(this.CommanderToken, "SignatureExpired")
+                .withArgs(deadline);
+        });
+
+        it('Only the controller of a token can sign changes to its whitelist', async function () {
+            const [tokenA] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).setController(tokenA, this.wallet3.address);
+
+            const ownerSignature = await signTypedData(this.owner, await getSetTransferWhitelistTypedData(
+                this.CommanderToken.address, this.owner, tokenA, this.wallet2.address, true, this.deadline
+            ));
+            await expect(this.CommanderToken.connect(this.wallet2)
+                .setTransferWhitelistWithSig(tokenA, this.wallet2.address, true, this.deadline, ownerSignature))
+                .to.be.revertedWithCustomError(this.CommanderToken, "UnauthorizedSigner")
+                .withArgs(tokenA, this.owner.address);
+
+            const controllerSignature = await signTypedData(this.wallet3, await getSetTransferWhitelistTypedData(
+                this.CommanderToken.address, this.wallet3, tokenA, this.wallet2.address, true, this.deadline
+            ));
+            await this.CommanderToken.connect(this.wallet2)
+                .setTransferWhitelistWithSig(tokenA, this.wallet2.address, true, this.deadline, controllerSignature);
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenA, this.wallet2.address)).to.equal(true);
+        });
+
+        it('Permits approve a spender without a transaction of the owner', async function () {
+            const [tokenA] = getRandomMintedTokens(this.initialMint);
+            const signature = await signTypedData(this.owner, await getPermitTypedData(
+                this.CommanderToken.address, this.owner, this.wallet2.address, tokenA, this.deadline
+            ));
+
+            await this.CommanderToken.connect(this.wallet2).permit(this.wallet2.address, tokenA, this.deadline, signature);
+            expect(await this.CommanderToken.getApproved(tokenA)).to.equal(this.wallet2.address);
+
+            await this.CommanderToken.connect(this.wallet2).transferFrom(this.owner.address, this.wallet2.address, tokenA);
+            expect(await this.CommanderToken.ownerOf(tokenA)).to.equal(this.wallet2.address);
+        });
+
+        it('Transfers invalidate the signatures of the previous owner', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+            const signature = await signTypedData(this.owner, await getSetDependenceTypedData(
+                this.CommanderToken.address, this.owner, tokenA, this.CommanderToken.address, tokenB, this.deadline
+            ));
+            const nonce = await this.CommanderToken.nonces(tokenA);
+
+            await this.CommanderToken.connect(this.owner).transferFrom(this.owner.address, this.wallet2.address, tokenA);
+            expect(await this.CommanderToken.nonces(tokenA)).to.equal(nonce.add(1));
+
+            await expect(this.CommanderToken.connect(this.wallet2)
+                .setDependenceWithSig(tokenA, this.CommanderToken.address, tokenB, this.deadline, signature))
+                .to.be.revertedWithCustomError(this.CommanderToken, "UnauthorizedSigner");
+        });
+
+        it('Supports ERC-4494', async function () {
+            const IERC4494InterfaceId = "0x5604e225";
+            expect(await this.CommanderToken.supportsInterface(IERC4494InterfaceId)).to.equal(true);
+        });
+    });
+
+    describe('Soulbound standards', function () {
+        it('Supports ERC-5192 and ERC-5484', async function () {
+            expect(await this.CommanderToken.supportsInterface("0xb45a3c0e")).to.equal(true);
+            expect(await this.CommanderToken.supportsInterface("0x0489b56f")).to.equal(true);
+        });
+
+        it('Emits Locked and Unlocked when the transferability of a token changes', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            expect(await this.CommanderToken.locked(tokenId)).to.equal(false);
+            await expect(this.CommanderToken.connect(this.owner).setTransferable(tokenId, false))
+                .to.emit(this.CommanderToken, "Locked").withArgs(tokenId);
+            expect(await this.CommanderToken.locked(tokenId)).to.equal(true);
+
+            // the status didn't change
+            await expect(this.CommanderToken.connect(this.owner).setTransferable(tokenId, false))
+                .not.to.emit(this.CommanderToken, "Locked");
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferable(tokenId, true))
+                .to.emit(this.CommanderToken, "Unlocked").withArgs(tokenId);
+        });
+
+        it('Dependence on a soulbound token locks a token', async function () {
+            const [tokenId, soulboundTokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).setTransferable(soulboundTokenId, false);
+
+            await expect(this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, soulboundTokenId))
+                .to.emit(this.CommanderToken, "Locked").withArgs(tokenId);
+            expect(await this.CommanderToken.locked(tokenId)).to.equal(true);
+
+            // the dependency becoming transferable unlocks tokenId without an event of tokenId,
+            // so removing the dependency doesn't change the status of tokenId
+            await this.CommanderToken.connect(this.owner).setTransferable(soulboundTokenId, true);
+            expect(await this.CommanderToken.locked(tokenId)).to.equal(false);
+            await expect(this.CommanderToken.connect(this.owner).removeDependence(tokenId, this.CommanderToken.address, soulboundTokenId))
+                .not.to.emit(this.CommanderToken, "Unlocked");
+        });
+
+        it('Schedules lock tokens outside their window', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            const start = (await time.latest()) + 3600;
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferableSchedule(tokenId, start, 0))
+                .to.emit(this.CommanderToken, "Locked").withArgs(tokenId);
+        });
+
+        it('Maps burnability to the burn authorization of ERC-5484', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            const tokenToIssue = this.initialMint.length + 1;
+
+            await expect(this.CommanderToken["mint(address,uint256)"](this.wallet2.address, tokenToIssue))
+                .to.emit(this.CommanderToken, "Issued")
+                .withArgs(this.owner.address, this.wallet2.address, tokenToIssue, BurnAuth.OwnerOnly);
+
+            await this.CommanderToken.connect(this.owner).setBurnable(tokenId, false);
+            expect(await this.CommanderToken.burnAuth(tokenId)).to.equal(BurnAuth.Neither);
+
+            await expect(this.CommanderToken.locked(tokenToIssue + 1)).to.be.revertedWith("ERC721: invalid token ID");
+        });
+    });
+
+    describe('Batch mints', function () {
+        // the number of soulbound tokens airdropped in the constructor
+        const AIRDROP_SIZE = 500;
+
+        const noRestrictions = {
+            nontransferable: false,
+            nonburnable: false,
+            CTContractAddress: ethers.constants.AddressZero,
+            CTID: 0,
+        };
+
+        before(async function () {
+            this.ConsecutiveFactory = await ethers.getContractFactory('MintCommanderTokenConsecutiveTest');
+        });
+
+        it('Airdrops soulbound tokens in a single transaction', async function () {
+            const lastTokenId = AIRDROP_SIZE - 1;
+            const commanderToken = await this.ConsecutiveFactory.deploy(
+                TOKEN_NAME,
+                TOKEN_SYMBOL,
+                [this.wallet2.address],
+                [AIRDROP_SIZE],
+                { ...noRestrictions, nontransferable: true, nonburnable: true }
+            );
+            const receipt = await commanderToken.deployTransaction.wait();
+            const events = receipt.logs.map((log: any) => commanderToken.interface.parseLog(log));
+
+            // the batch is transferred by a single event of ERC-2309, and each of its tokens is issued locked
+            const transfers = events.filter((event: any) => event.name === "ConsecutiveTransfer");
+            expect(transfers).to.have.lengthOf(1);
+            expect(transfers[0].args).to.deep.equal([
+                ethers.BigNumber.from(0),
+                ethers.BigNumber.from(lastTokenId),
+                ethers.constants.AddressZero,
+                this.wallet2.address,
+            ]);
+            expect(events.filter((event: any) => event.name === "Transfer")).to.have.lengthOf(0);
+            expect(events.filter((event: any) => event.name === "Locked")).to.have.lengthOf(AIRDROP_SIZE);
+
+            const issued = events.filter((event: any) => event.name === "Issued");
+            expect(issued).to.have.lengthOf(AIRDROP_SIZE);
+            expect(issued[lastTokenId].args).to.deep.equal([this.contractOwner, this.wallet2.address, ethers.BigNumber.from(lastTokenId), BurnAuth.Neither]);
+
+            expect(await commanderToken.ownerOf(lastTokenId)).to.equal(this.wallet2.address);
+            expect(await commanderToken.locked(lastTokenId)).to.equal(true);
+            expect(await commanderToken.isTokenBurnable(0)).to.equal(false);
+
+            // the restrictions of the batch increase the epoch of the collection once
+            expect(await commanderToken.restrictionsEpoch(0)).to.equal(1);
+            expect(await commanderToken.restrictionsEpoch(lastTokenId)).to.equal(1);
+        });
+
+        it('Mints tokens that depend on a Commander Token', async function () {
+            await this.CommanderToken2["mint(address,uint256)"](this.contractOwner, 1);
+            await this.CommanderToken2.setTransferable(1, false);
+
+            const commanderToken = await this.ConsecutiveFactory.deploy(
+                TOKEN_NAME,
+                TOKEN_SYMBOL,
+                [this.wallet2.address],
+                [2],
+                { ...noRestrictions, CTContractAddress: this.CommanderToken2.address, CTID: 1 }
+            );
+            await expect(commanderToken.deployTransaction)
+                .to.emit(commanderToken, "NewDependence")
+                .withArgs(1, this.CommanderToken2.address, 1)
+                .and.to.emit(commanderToken, "Locked")
+                .withArgs(1);
+
+            expect(await commanderToken.isDependent(0, this.CommanderToken2.address, 1)).to.equal(true);
+            await expect(commanderToken.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, 0))
+                .to.be.revertedWithCustomError(commanderToken, "TransferBlocked")
+                .withArgs(0, this.wallet3.address, [
+                    [commanderToken.address, 0, BlockReason.Dependency],
+                    [this.CommanderToken2.address, 1, BlockReason.Nontransferable],
+                ]);
+
+            // the dependency is checked as in setDependence
+            await expect(this.ConsecutiveFactory.deploy(
+                TOKEN_NAME,
+                TOKEN_SYMBOL,
+                [this.wallet2.address],
+                [2],
+                { ...noRestrictions, CTContractAddress: this.CommanderToken2.address, CTID: 2 }
+            ))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NonexistentCommanderToken")
+                .withArgs(this.CommanderToken2.address, 2);
+        });
+
+        it('Batches are minted only in the constructor', async function () {
+            const commanderToken = await this.ConsecutiveFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL, [this.wallet2.address], [2], noRestrictions);
+
+            await expect(commanderToken.mintConsecutive(this.wallet3.address, 2))
+                .to.be.revertedWith("ERC721Consecutive: batch minting restricted to constructor");
+
+            // tokens minted after the constructor are issued one by one
+            await expect(commanderToken.mint(this.wallet3.address, 2))
+                .to.emit(commanderToken, "Issued")
+                .withArgs(this.contractOwner, this.wallet3.address, 2, BurnAuth.OwnerOnly);
+        });
+
+        it('Issues every token of a consecutive mint', async function () {
+            const commanderToken = await this.ConsecutiveFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL, [this.wallet2.address, this.wallet3.address], [100, 50], noRestrictions);
+            const receipt = await commanderToken.deployTransaction.wait();
+            const events = receipt.logs.map((log: any) => commanderToken.interface.parseLog(log));
+
+            expect(events.filter((event: any) => event.name === "ConsecutiveTransfer")).to.have.lengthOf(2);
+            const issued = events.filter((event: any) => event.name === "Issued");
+            expect(issued).to.have.lengthOf(150);
+            expect(issued[149].args).to.deep.equal([this.contractOwner, this.wallet3.address, ethers.BigNumber.from(149), BurnAuth.OwnerOnly]);
+
+            // transfers and burns of consecutively minted tokens are restricted like any other
+            await commanderToken.connect(this.wallet2).setTransferable(99, false);
+            await expect(commanderToken.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, 99))
+                .to.be.revertedWithCustomError(commanderToken, "TransferBlocked")
+                .withArgs(99, this.wallet3.address, [[commanderToken.address, 99, BlockReason.Nontransferable]]);
+            expect(await commanderToken.ownerOf(100)).to.equal(this.wallet3.address);
+
+            await commanderToken.connect(this.wallet2).burn(99);
+            await expect(commanderToken.ownerOf(99)).to.be.revertedWith("ERC721: invalid token ID");
+        });
+
+        it('Mints are not restricted by the transfer policies', async function () {
+            const policy = await (await ethers.getContractFactory('AllowlistPolicy')).deploy();
+            await this.CommanderToken.initCollectionController(this.contractOwner);
+            await this.CommanderToken.setCollectionTransferPolicy(policy.address);
+
+            await this.CommanderToken["mint(address,uint256)"](this.wallet2.address, this.initialMint.length + 1);
+
+            expect(await this.CommanderToken.ownerOf(this.initialMint.length + 1)).to.equal(this.wallet2.address);
+        });
+
+        it('Burns are restricted by the burn restrictions, not by the transfer restrictions', async function () {
+            const [tokenId, otherTokenId] = getRandomMintedTokens(this.initialMint);
+            const policy = await (await ethers.getContractFactory('AllowlistPolicy')).deploy();
+
+            // a soulbound token whose policy allows no transfers is still burnable
+            await this.CommanderToken.setTransferable(tokenId, false);
+            await this.CommanderToken.setTransferPolicy(tokenId, policy.address);
+            await this.CommanderToken.burn(tokenId);
+            await expect(this.CommanderToken.ownerOf(tokenId)).to.be.revertedWith("ERC721: invalid token ID");
+
+            // and a transferable token is not burnable if it is nonburnable
+            await this.CommanderToken.setBurnable(otherTokenId, false);
+            await expect(this.CommanderToken.burn(otherTokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "BurnBlocked")
+                .withArgs(otherTokenId, [[this.CommanderToken.address, otherTokenId, BlockReason.Nonburnable]]);
+        });
+    });
+
+    describe('Token-bound ownership', function () {
+        beforeEach(async function () {
+            // the owning NFT, e.g. a name
+            this.NFTId = 1;
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, this.NFTId);
+        });
+
+        it('Bound token is owned by the owner of the NFT, and moves with it', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId))
+                .to.emit(this.CommanderToken, "BoundToNFT")
+                .withArgs(tokenId, this.CommanderToken2.address, this.NFTId);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet2.address);
+            expect(await this.CommanderToken.boundNFTOf(tokenId)).to.deep.equal([this.CommanderToken2.address, this.NFTId]);
+
+            await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, this.NFTId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+
+            // the owner of the NFT manages the bound token
+            await this.CommanderToken.connect(this.wallet3).setTransferable(tokenId, false);
+            await expect(this.CommanderToken.connect(this.wallet2).setTransferable(tokenId, true))
+                .to.be.revertedWith("ERC721: caller is not token owner or approved");
+        });
+
+        it('Binding respects the restrictions of the token', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+
+            await expect(this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(tokenId, this.wallet2.address, [[this.CommanderToken.address, tokenId, BlockReason.Nontransferable]]);
+
+            // a soulbound token can be attached to a whitelisted NFT, e.g. a name
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, this.NFTId, true);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+            await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, this.NFTId);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+        });
+
+        it('Unbinding transfers the token to the owner of the NFT', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+            await this.CommanderToken.connect(this.wallet2).setTransferable(tokenId, false);
+
+            // unbinding to the owner of the NFT doesn't change the owner, so it isn't blocked
+            await expect(this.CommanderToken.connect(this.wallet2).unbindFromNFT(tokenId))
+                .to.emit(this.CommanderToken, "UnboundFromNFT")
+                .withArgs(tokenId, this.CommanderToken2.address, this.NFTId, this.wallet2.address);
+
+            expect(await this.CommanderToken.boundNFTOf(tokenId)).to.deep.equal([ethers.constants.AddressZero, 0]);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet2.address);
+
+            // the NFT doesn't carry the token anymore
+            await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, this.NFTId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet2.address);
+        });
+
+        it('Owner of the NFT transfers the bound token out of the contract', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+
+            await this.CommanderToken.connect(this.wallet2).transferFrom(this.CommanderToken.address, this.wallet3.address, tokenId);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+            expect(await this.CommanderToken.boundNFTOf(tokenId)).to.deep.equal([ethers.constants.AddressZero, 0]);
+        });
+
+        it('Owner of the NFT transfers the bound token from its own address', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+
+            // a transfer from ownerOf(tokenId) is a transfer out of the contract, which unbinds the token
+            await expect(this.CommanderToken.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, tokenId))
+                .to.emit(this.CommanderToken, "UnboundFromNFT")
+                .withArgs(tokenId, this.CommanderToken2.address, this.NFTId, this.wallet3.address);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+            expect(await this.CommanderToken.boundNFTOf(tokenId)).to.deep.equal([ethers.constants.AddressZero, 0]);
+        });
+
+        it('Owner of the NFT approves addresses to manage the bound token', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+
+            await expect(this.CommanderToken.connect(this.owner).approve(this.wallet3.address, tokenId))
+                .to.be.revertedWith("ERC721: approve caller is not token owner or approved for all");
+            await expect(this.CommanderToken.connect(this.wallet2).approve(this.wallet2.address, tokenId))
+                .to.be.revertedWith("ERC721: approval to current owner");
+
+            await this.CommanderToken.connect(this.wallet2).approve(this.wallet3.address, tokenId);
+            expect(await this.CommanderToken.getApproved(tokenId)).to.equal(this.wallet3.address);
+
+            const owner = await this.CommanderToken.ownerOf(tokenId);
+            await this.CommanderToken.connect(this.wallet3).transferFrom(owner, this.owner.address, tokenId);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.owner.address);
+            expect(await this.CommanderToken.getApproved(tokenId)).to.equal(ethers.constants.AddressZero);
+        });
+
+        it('Approvals of a bound token lapse when the NFT changes hands', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+            await this.CommanderToken.connect(this.wallet2).approve(this.wallet3.address, tokenId);
+
+            await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.owner.address, this.NFTId);
+
+            expect(await this.CommanderToken.getApproved(tokenId)).to.equal(ethers.constants.AddressZero);
+            await expect(this.CommanderToken.connect(this.wallet3).transferFrom(this.owner.address, this.wallet3.address, tokenId))
+                .to.be.revertedWith("ERC721: caller is not token owner or approved");
+        });
+
+        it('Owner of the NFT permits spenders to manage the bound token', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+            const deadline = (await time.latest()) + 3600;
+
+            // the previous owner of the token can't permit spenders anymore
+            const ownerSignature = await signTypedData(this.owner, await getPermitTypedData(
+                this.CommanderToken.address, this.owner, this.owner.address, tokenId, deadline
+            ));
+            await expect(this.CommanderToken.permit(this.owner.address, tokenId, deadline, ownerSignature))
+                .to.be.revertedWithCustomError(this.CommanderToken, "UnauthorizedSigner");
+
+            const signature = await signTypedData(this.wallet2, await getPermitTypedData(
+                this.CommanderToken.address, this.wallet2, this.wallet3.address, tokenId, deadline
+            ));
+            await this.CommanderToken.connect(this.wallet3).permit(this.wallet3.address, tokenId, deadline, signature);
+            expect(await this.CommanderToken.getApproved(tokenId)).to.equal(this.wallet3.address);
+
+            await this.CommanderToken.connect(this.wallet3).transferFrom(this.wallet2.address, this.wallet3.address, tokenId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+        });
+
+        it('Burning a bound token burns it out of the contract', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, this.NFTId);
+
+            await expect(this.CommanderToken.connect(this.wallet2).burn(tokenId))
+                .to.emit(this.CommanderToken, "Transfer")
+                .withArgs(this.CommanderToken.address, ethers.constants.AddressZero, tokenId);
+
+            await expect(this.CommanderToken.ownerOf(tokenId)).to.be.revertedWith("ERC721: invalid token ID");
+            expect(await this.CommanderToken.boundNFTOf(tokenId)).to.deep.equal([ethers.constants.AddressZero, 0]);
+            expect(await this.CommanderToken.balanceOf(this.CommanderToken.address)).to.equal(0);
+        });
+
+        it('Tokens are bound to NFTs with ID 0', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet3.address, 0);
+
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.CommanderToken2.address, 0);
+
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+            expect(await this.CommanderToken.boundNFTOf(tokenId)).to.deep.equal([this.CommanderToken2.address, 0]);
+        });
+
+        it('Tokens cannot own themselves through bindings', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).bindToNFT(tokenA, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "BindingCycle");
+
+            await this.CommanderToken.connect(this.owner).bindToNFT(tokenA, this.CommanderToken.address, tokenB);
+            await expect(this.CommanderToken.connect(this.owner).bindToNFT(tokenB, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "BindingCycle")
+                .withArgs(tokenB, this.CommanderToken.address, tokenA);
+        });
+
+        it('Only NFTs can own tokens', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).bindToNFT(tokenId, this.wallet2.address, 1))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotNFT");
+            await expect(this.CommanderToken.connect(this.owner).unbindFromNFT(tokenId))
+                .to.be.revertedWith("Commander Token: tokenID is not bound to an NFT");
+        });
+    });
+
     describe('Whitelist', function () {
+        it('Lists whitelisted addresses', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenId)).to.be.empty;
+
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet2.address, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet3.address, true);
+            // whitelisting twice doesn't add a duplicate
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet2.address, true);
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenId)).to.deep.equal([this.wallet2.address, this.wallet3.address]);
+
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet2.address, false);
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenId)).to.deep.equal([this.wallet3.address]);
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenId, this.wallet2.address)).to.equal(false);
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenId, this.wallet3.address)).to.equal(true);
+        });
+
+        it('Burn clears the whitelist', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet2.address, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 1, true);
+
+            await expect(this.CommanderToken.connect(this.owner).burn(tokenId))
+                .to.emit(this.CommanderToken, "TransferWhitelistSet")
+                .withArgs(tokenId, this.wallet2.address, false)
+                .and.to.emit(this.CommanderToken, "TransferWhitelistNFTSet")
+                .withArgs(tokenId, this.CommanderToken2.address, 1, false);
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenId)).to.be.empty;
+            expect(await this.CommanderToken.getWhitelistedNFTs(tokenId)).to.deep.equal([[], []]);
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenId, this.wallet2.address)).to.equal(false);
+        });
+
+        it('Token whitelisting an NFT is transferable to the current owner of the NFT', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            const NFTId = 1;
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, NFTId);
+
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+            await expect(this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, NFTId, true))
+                .to.emit(this.CommanderToken, "TransferWhitelistNFTSet")
+                .withArgs(tokenId, this.CommanderToken2.address, NFTId, true);
+
+            expect(await this.CommanderToken.isNFTWhitelisted(tokenId, this.CommanderToken2.address, NFTId)).to.equal(true);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(true);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet3.address)).to.equal(false);
+
+            // the whitelist follows the NFT to its new owner
+            await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, NFTId);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(false);
+
+            await this.CommanderToken.connect(this.owner).transferFrom(this.owner.address, this.wallet3.address, tokenId);
+            expect(await this.CommanderToken.ownerOf(tokenId)).to.equal(this.wallet3.address);
+        });
+
+        it('Lists whitelisted NFTs separately from whitelisted addresses', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 1);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 2);
+
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 1, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet3.address, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 2, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 1, false);
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenId)).to.deep.equal([this.wallet3.address]);
+            expect(await this.CommanderToken.getWhitelistedNFTs(tokenId)).to.deep.equal([[this.CommanderToken2.address], [2]]);
+            expect(await this.CommanderToken.isNFTWhitelisted(tokenId, this.CommanderToken2.address, 1)).to.equal(false);
+
+            // the contract of a whitelisted NFT isn't a whitelisted address
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenId, this.CommanderToken2.address)).to.equal(false);
+        });
+
+        it('Only NFTs of contracts can be whitelisted as NFTs', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.wallet2.address, 1, true))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotNFT")
+                .withArgs(this.wallet2.address, 1);
+        });
+
+        it('NFTs with ID 0 are whitelisted apart from the address of their contract', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 0);
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 0, true);
+            expect(await this.CommanderToken.isNFTWhitelisted(tokenId, this.CommanderToken2.address, 0)).to.equal(true);
+            expect(await this.CommanderToken.isAddressWhitelisted(tokenId, this.CommanderToken2.address)).to.equal(false);
+            expect(await this.CommanderToken.getWhitelistedNFTs(tokenId)).to.deep.equal([[this.CommanderToken2.address], [0]]);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(true);
+
+            // whitelisting the contract as an address, then removing the NFT, keeps the address
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.CommanderToken2.address, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 0, false);
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(tokenId)).to.deep.equal([this.CommanderToken2.address]);
+            expect(await this.CommanderToken.getWhitelistedNFTs(tokenId)).to.deep.equal([[], []]);
+            expect(await this.CommanderToken.isTokenTransferableToAddress(tokenId, this.wallet2.address)).to.equal(false);
+        });
+
+        it('A whitelisted NFT that doesn\'t exist doesn\'t whitelist anyone', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            // NFT 1 of CommanderToken2 isn't minted
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 1, true);
+
+            expect(await this.CommanderToken.isWhitelistedNFTOwner(tokenId, this.wallet2.address)).to.equal(false);
+            await expect(this.CommanderToken.connect(this.owner).transferFrom(this.owner.address, this.wallet2.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(tokenId, this.wallet2.address, [[this.CommanderToken.address, tokenId, BlockReason.NotWhitelisted]]);
+        });
+
         it('Token with transferability status false is transfereable to a whitelisted address', async function () {
             const [tokenIdToTransfer] = getRandomMintedTokens(this.initialMint);
             const transferToWallet = this.wallet2.address;
@@ -365,7 +1630,11 @@ describe('CommanderToken', function () {
             await expect(this
                 .CommanderToken.connect(this.owner)
                 .transferFrom(ownerAddress, transferToWallet, tokenIdToTransfer))
-                .to.be.revertedWith("Commander Token: the token depends on at least one nontransferable token");
+                .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+                .withArgs(tokenIdToTransfer, transferToWallet, [
+                    [this.CommanderToken.address, tokenIdToTransfer, BlockReason.Dependency],
+                    [dependableContractAddress, dependentTokenId, BlockReason.Nontransferable],
+                ]);
 
         });
 
@@ -397,4 +1666,116 @@ describe('CommanderToken', function () {
 
 
     });
-});
\ No newline at end of file
+
+    describe('Metadata', function () {
+        beforeEach(async function () {
+            this.Renderer = await (await ethers.getContractFactory('RestrictionsRenderer')).deploy();
+        });
+
+        it('Has empty token URIs until a base URI or a renderer is set', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            expect(await this.CommanderToken.tokenURI(tokenId)).to.equal("");
+            expect(await this.CommanderToken.metadataRenderer()).to.equal(ethers.constants.AddressZero);
+            await expect(this.CommanderToken.tokenURI(this.initialMint.length + 1)).to.be.revertedWith("ERC721: invalid token ID");
+        });
+
+        it('Renders the restrictions of a token on-chain', async function () {
+            const [tokenId, dependencyId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 1);
+
+            await expect(this.CommanderToken.setMetadataRenderer(this.Renderer.address))
+                .to.emit(this.CommanderToken, "MetadataRendererSet")
+                .withArgs(this.Renderer.address);
+
+            await this.CommanderToken.connect(this.owner).setTransferable(tokenId, false);
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependencyId);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelist(tokenId, this.wallet3.address, true);
+            await this.CommanderToken.connect(this.owner).setTransferWhitelistNFT(tokenId, this.CommanderToken2.address, 1, true);
+
+            const metadata = decodeTokenURI(await this.CommanderToken.tokenURI(tokenId));
+
+            expect(metadata.name).to.equal(`${TOKEN_NAME} #${tokenId}`);
+            expect(metadata.attributes).to.deep.equal([
+                { trait_type: "Transferable", value: "No" },
+                { trait_type: "Burnable", value: "Yes" },
+            ]);
+            expect(metadata.transferable).to.equal(false);
+            expect(metadata.burnable).to.equal(true);
+            // tokens are written as "contract:tokenID" with a hex tokenID, see AddressesOrNFTs.toString
+            expect(metadata.dependencies).to.deep.equal([
+                `${this.CommanderToken.address.toLowerCase()}:${ethers.utils.hexlify(Number(dependencyId))}`,
+            ]);
+            expect(metadata.whitelist).to.deep.equal([
+                this.wallet3.address.toLowerCase(),
+                `${this.CommanderToken2.address.toLowerCase()}:0x01`,
+            ]);
+            expect(metadata).not.to.have.property("lockedTo");
+        });
+
+        it('Renders the tokens with ID 0 a token depends on as tokens', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.setMetadataRenderer(this.Renderer.address);
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 0);
+
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken2.address, 0);
+
+            const metadata = decodeTokenURI(await this.CommanderToken.tokenURI(tokenId));
+            expect(metadata.dependencies).to.deep.equal([`${this.CommanderToken2.address.toLowerCase()}:0x00`]);
+        });
+
+        it('Renders the restrictions inherited from dependencies', async function () {
+            const [tokenId, dependencyId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.setMetadataRenderer(this.Renderer.address);
+
+            await this.CommanderToken.connect(this.owner).setDependence(tokenId, this.CommanderToken.address, dependencyId);
+            await this.CommanderToken.connect(this.owner).setBurnable(dependencyId, false);
+
+            const metadata = decodeTokenURI(await this.CommanderToken.tokenURI(tokenId));
+            expect(metadata.transferable).to.equal(true);
+            expect(metadata.burnable).to.equal(false);
+        });
+
+        it('Base URI takes precedence over the renderer', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            await this.CommanderToken.setMetadataRenderer(this.Renderer.address);
+
+            await expect(this.CommanderToken.setBaseURI("https://example.com/tokens/"))
+                .to.emit(this.CommanderToken, "BaseURISet")
+                .withArgs("https://example.com/tokens/");
+            expect(await this.CommanderToken.tokenURI(tokenId)).to.equal(`https://example.com/tokens/${tokenId}`);
+
+            // removing the base URI goes back to the renderer
+            await this.CommanderToken.setBaseURI("");
+            expect(decodeTokenURI(await this.CommanderToken.tokenURI(tokenId)).name).to.equal(`${TOKEN_NAME} #${tokenId}`);
+        });
+
+        it('Accepts only metadata renderers', async function () {
+            await expect(this.CommanderToken.setMetadataRenderer(this.CommanderToken2.address))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotMetadataRenderer")
+                .withArgs(this.CommanderToken2.address);
+            await expect(this.CommanderToken.setMetadataRenderer(this.wallet2.address))
+                .to.be.revertedWithCustomError(this.CommanderToken, "NotMetadataRenderer");
+        });
+
+        it('Escapes the name of the collection', async function () {
+            const quoted = await this.CommanderTokenMintTestFactory.deploy('The "Quoted" \\ Token', TOKEN_SYMBOL);
+            await quoted["mint(address,uint256)"](this.contractOwner, 1);
+            await quoted.setMetadataRenderer(this.Renderer.address);
+
+            expect(decodeTokenURI(await quoted.tokenURI(1)).name).to.equal('The "Quoted" \\ Token #1');
+
+            // control characters are escaped too, so the JSON stays valid
+            const controlled = await this.CommanderTokenMintTestFactory.deploy('Line\nTab\t\x01Token', TOKEN_SYMBOL);
+            await controlled["mint(address,uint256)"](this.contractOwner, 1);
+            await controlled.setMetadataRenderer(this.Renderer.address);
+
+            expect(decodeTokenURI(await controlled.tokenURI(1)).name).to.equal('Line\nTab\t\x01Token #1');
+        });
+    });
+};
+
+
+// Start test block
+describe('CommanderToken', commanderTokenTests('MintCommanderTokenTest', false));
+describe('CommanderTokenUpgradeable', commanderTokenTests('MintCommanderTokenUpgradeableTest', true));
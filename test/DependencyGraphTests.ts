@@ -0,0 +1,180 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { DependencyGraph } from "../sdk";
+import { TOKEN_NAME, TOKEN_SYMBOL, TOKEN_NAME2, TOKEN_SYMBOL2 } from "../constants/test";
+
+const keysOf = (tokens: { contractAddress: string, tokenId: any }[]): string[] =>
+    tokens.map(token => `${token.contractAddress}:${token.tokenId.toString()}`).sort();
+
+// Start test block
+describe('DependencyGraph', function () {
+    beforeEach(async function () {
+        const signers = await ethers.getSigners();
+        this.owner = signers[0];
+        this.wallet2 = signers[2];
+
+        const CommanderTokenFactory = await ethers.getContractFactory('MintCommanderTokenTest');
+        this.CommanderToken = await CommanderTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        this.CommanderToken2 = await CommanderTokenFactory.deploy(TOKEN_NAME2, TOKEN_SYMBOL2);
+
+        const LockedTokenFactory = await ethers.getContractFactory('MintLockedTokenTest');
+        this.LockedToken = await LockedTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+
+        for (let i = 1; i <= 3; i++) {
+            await this.CommanderToken.mint(this.owner.address, i);
+            await this.CommanderToken2.mint(this.owner.address, i);
+            await this.LockedToken.mint(this.owner.address, i);
+        }
+
+        this.addresses = [this.CommanderToken.address, this.CommanderToken2.address, this.LockedToken.address];
+    });
+
+    it('Answers what a token depends on and who depends on it, across contracts', async function () {
+        await this.CommanderToken.setDependence(1, this.CommanderToken2.address, 1);
+        await this.CommanderToken.setDependence(2, this.CommanderToken2.address, 1);
+        await this.CommanderToken2.setDependence(1, this.CommanderToken.address, 3);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+
+        expect(keysOf(graph.dependenciesOf(this.CommanderToken.address, 1)))
+            .to.deep.equal([`${this.CommanderToken2.address}:1`]);
+        expect(keysOf(graph.dependentsOf(this.CommanderToken2.address, 1)))
+            .to.deep.equal([`${this.CommanderToken.address}:1`, `${this.CommanderToken.address}:2`].sort());
+        expect(keysOf(graph.dependenciesOf(this.CommanderToken2.address, 1)))
+            .to.deep.equal([`${this.CommanderToken.address}:3`]);
+    });
+
+    it('Removes dependencies on RemovedDependence', async function () {
+        await this.CommanderToken.setDependence(1, this.CommanderToken2.address, 1);
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+        expect(graph.dependenciesOf(this.CommanderToken.address, 1)).to.have.length(1);
+
+        await this.CommanderToken.removeDependence(1, this.CommanderToken2.address, 1);
+        await graph.sync(ethers.provider, this.addresses);
+
+        expect(graph.dependenciesOf(this.CommanderToken.address, 1)).to.have.length(0);
+        expect(graph.dependentsOf(this.CommanderToken2.address, 1)).to.have.length(0);
+    });
+
+    it('Answers what moves if a token is transferred', async function () {
+        // 1 is locked to 2, and 2 is locked to 3
+        await this.LockedToken.lock(1, this.LockedToken.address, 2);
+        await this.LockedToken.lock(2, this.LockedToken.address, 3);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+
+        expect(keysOf(graph.movesWith(this.LockedToken.address, 3)))
+            .to.deep.equal([1, 2, 3].map(id => `${this.LockedToken.address}:${id}`));
+        expect(keysOf(graph.movesWith(this.LockedToken.address, 1)))
+            .to.deep.equal([`${this.LockedToken.address}:1`]);
+
+        const lockedTo = graph.lockedTo(this.LockedToken.address, 1);
+        expect(lockedTo?.contractAddress).to.equal(this.LockedToken.address);
+        expect(lockedTo?.tokenId).to.equal(2);
+    });
+
+    it('Tracks owners from Transfer events', async function () {
+        await this.LockedToken.lock(1, this.LockedToken.address, 2);
+        await this.LockedToken.transferFrom(this.owner.address, this.wallet2.address, 2);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+
+        expect(graph.ownerOf(this.LockedToken.address, 1)).to.equal(this.wallet2.address);
+        expect(graph.ownerOf(this.LockedToken.address, 2)).to.equal(this.wallet2.address);
+        expect(graph.ownerOf(this.LockedToken.address, 3)).to.equal(this.owner.address);
+    });
+
+    it('Resolves the owners of bound tokens from the owners of their NFTs', async function () {
+        await this.CommanderToken.bindToNFT(1, this.CommanderToken2.address, 2);
+        await this.CommanderToken2.transferFrom(this.owner.address, this.wallet2.address, 2);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+
+        // the contract holds the bound token, but it is owned by the owner of the NFT
+        expect(graph.ownerOf(this.CommanderToken.address, 1)).to.equal(this.wallet2.address);
+        expect(keysOf([graph.boundNFTOf(this.CommanderToken.address, 1)!]))
+            .to.deep.equal([`${this.CommanderToken2.address}:2`]);
+
+        // and is unknown if the contract of the NFT isn't replayed
+        const partialGraph = await DependencyGraph.fromContracts(ethers.provider, [this.CommanderToken.address]);
+        expect(partialGraph.ownerOf(this.CommanderToken.address, 1)).to.equal(ethers.constants.AddressZero);
+
+        const restored = DependencyGraph.fromJSON(JSON.parse(JSON.stringify(graph.toJSON())));
+        expect(restored.ownerOf(this.CommanderToken.address, 1)).to.equal(this.wallet2.address);
+
+        await this.CommanderToken.connect(this.wallet2).unbindFromNFT(1);
+        await graph.sync(ethers.provider, this.addresses);
+
+        expect(graph.ownerOf(this.CommanderToken.address, 1)).to.equal(this.wallet2.address);
+        expect(graph.boundNFTOf(this.CommanderToken.address, 1)).to.equal(null);
+
+        // the NFT doesn't carry the token anymore
+        await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.owner.address, 2);
+        await graph.sync(ethers.provider, this.addresses);
+        expect(graph.ownerOf(this.CommanderToken.address, 1)).to.equal(this.wallet2.address);
+    });
+
+    it('Tracks the whitelists of tokens', async function () {
+        await this.CommanderToken.setTransferWhitelist(1, this.wallet2.address, true);
+        await this.CommanderToken.setTransferWhitelistNFT(1, this.CommanderToken2.address, 2, true);
+        await this.CommanderToken.setTransferWhitelistNFT(1, this.CommanderToken2.address, 3, true);
+        await this.CommanderToken.setTransferWhitelistNFT(1, this.CommanderToken2.address, 3, false);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+
+        expect(graph.whitelistedAddressesOf(this.CommanderToken.address, 1)).to.deep.equal([this.wallet2.address]);
+        expect(keysOf(graph.whitelistedNFTsOf(this.CommanderToken.address, 1)))
+            .to.deep.equal([`${this.CommanderToken2.address}:2`]);
+    });
+
+    it('Replays the burn of a token', async function () {
+        // 1 depends on CommanderToken2's 1 and has a whitelist, and 2 depends on 1
+        await this.CommanderToken.setDependence(1, this.CommanderToken2.address, 1);
+        await this.CommanderToken.setTransferWhitelist(1, this.wallet2.address, true);
+        await this.CommanderToken.setTransferWhitelistNFT(1, this.CommanderToken2.address, 2, true);
+        await this.CommanderToken.setDependence(2, this.CommanderToken.address, 1);
+        // Locked Token's 1 is locked to its 2
+        await this.LockedToken.lock(1, this.LockedToken.address, 2);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+
+        await this.CommanderToken.burn(1);
+        await this.CommanderToken.burn(3);
+        await this.LockedToken.burn(2);
+        await graph.sync(ethers.provider, this.addresses);
+
+        // the burned token loses its dependencies and whitelist, and the token that depends on it keeps its dependence
+        expect(graph.ownerOf(this.CommanderToken.address, 1)).to.equal(ethers.constants.AddressZero);
+        expect(graph.dependenciesOf(this.CommanderToken.address, 1)).to.have.length(0);
+        expect(graph.dependentsOf(this.CommanderToken2.address, 1)).to.have.length(0);
+        expect(graph.whitelistedAddressesOf(this.CommanderToken.address, 1)).to.have.length(0);
+        expect(graph.whitelistedNFTsOf(this.CommanderToken.address, 1)).to.have.length(0);
+        expect(keysOf(graph.dependentsOf(this.CommanderToken.address, 1)))
+            .to.deep.equal([`${this.CommanderToken.address}:2`]);
+
+        // the burn of a locking token burns the token locked to it, and burned tokens nothing refers to are forgotten
+        expect(graph.ownerOf(this.LockedToken.address, 1)).to.equal(ethers.constants.AddressZero);
+        expect(graph.lockedTo(this.LockedToken.address, 1)).to.equal(null);
+        const tokens = Object.keys(graph.toJSON().tokens);
+        for (const burned of [`${this.CommanderToken.address}:3`, `${this.LockedToken.address}:1`, `${this.LockedToken.address}:2`]) {
+            expect(tokens).to.not.include(burned);
+        }
+        expect(tokens).to.include(`${this.CommanderToken.address}:1`);
+    });
+
+    it('Survives a round trip through JSON', async function () {
+        await this.CommanderToken.setDependence(1, this.CommanderToken2.address, 2);
+        await this.LockedToken.lock(1, this.LockedToken.address, 2);
+        await this.CommanderToken.setTransferWhitelist(2, this.wallet2.address, true);
+
+        const graph = await DependencyGraph.fromContracts(ethers.provider, this.addresses);
+        const restored = DependencyGraph.fromJSON(JSON.parse(JSON.stringify(graph.toJSON())));
+
+        expect(restored.lastBlock).to.equal(graph.lastBlock);
+        expect(keysOf(restored.dependentsOf(this.CommanderToken2.address, 2)))
+            .to.deep.equal([`${this.CommanderToken.address}:1`]);
+        expect(keysOf(restored.movesWith(this.LockedToken.address, 2)))
+            .to.deep.equal([1, 2].map(id => `${this.LockedToken.address}:${id}`));
+        expect(restored.whitelistedAddressesOf(this.CommanderToken.address, 2)).to.deep.equal([this.wallet2.address]);
+    });
+});
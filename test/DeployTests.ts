@@ -0,0 +1,101 @@
+import hre, { ethers, deployments, getNamedAccounts, getChainId } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { expect } from "chai";
+import { getTokenNameAndSymbol } from "../helper-hardhat-config";
+import deployCommanderToken from "../deploy/01_deploy_commander_token";
+import deployLockedToken from "../deploy/02_deploy_locked_token";
+import deployRestrictionsRenderer from "../deploy/03_deploy_restrictions_renderer";
+import deployUpgradeableTokens from "../deploy/04_deploy_upgradeable_tokens";
+
+// Start test block
+describe('Deploy scripts', function () {
+    beforeEach(async function () {
+        await deployments.fixture(["all"]);
+
+        const { deployer } = await getNamedAccounts();
+        this.deployer = deployer;
+        this.chainId = parseInt(await getChainId());
+    });
+
+    it('Deploys CommanderToken with the network name and symbol', async function () {
+        const deployment = await deployments.get("CommanderToken");
+        const commanderToken = await ethers.getContractAt("MintCommanderTokenTest", deployment.address);
+        const [name, symbol] = getTokenNameAndSymbol(this.chainId, "commanderToken");
+
+        expect(await commanderToken.name()).to.equal(name);
+        expect(await commanderToken.symbol()).to.equal(symbol);
+    });
+
+    it('Deploys LockedToken with the network name and symbol', async function () {
+        const deployment = await deployments.get("LockedToken");
+        const lockedToken = await ethers.getContractAt("MintLockedTokenTest", deployment.address);
+        const [name, symbol] = getTokenNameAndSymbol(this.chainId, "lockedToken");
+
+        expect(await lockedToken.name()).to.equal(name);
+        expect(await lockedToken.symbol()).to.equal(symbol);
+    });
+
+    it('Deploys the tokens with the names and symbols of the development networks', async function () {
+        const commanderToken = await ethers.getContractAt("MintCommanderTokenTest", (await deployments.get("CommanderToken")).address);
+        const lockedToken = await ethers.getContractAt("MintLockedTokenTest", (await deployments.get("LockedToken")).address);
+
+        // the in-process hardhat network has chainId 31337, like a local node
+        expect(this.chainId).to.equal(31337);
+        expect([await commanderToken.name(), await commanderToken.symbol()]).to.deep.equal(["CommanderTokenDev", "CTD"]);
+        expect([await lockedToken.name(), await lockedToken.symbol()]).to.deep.equal(["LockedTokenDev", "LTD"]);
+    });
+
+    it('Deploys the mintable test contracts on development chains', async function () {
+        const deployment = await deployments.get("CommanderToken");
+        const commanderToken = await ethers.getContractAt("MintCommanderTokenTest", deployment.address);
+
+        await commanderToken.mint(this.deployer, 1);
+        expect(await commanderToken.ownerOf(1)).to.equal(this.deployer);
+    });
+
+    it('Deploys the tokens only on development chains', async function () {
+        const sepolia = { ...hre, network: { ...hre.network, name: "sepolia" } } as HardhatRuntimeEnvironment;
+
+        for (const deployTokens of [deployCommanderToken, deployLockedToken, deployUpgradeableTokens]) {
+            expect(await deployTokens.skip!(hre)).to.equal(false);
+            expect(await deployTokens.skip!(sepolia)).to.equal(true);
+        }
+
+        // the renderer can be used by any collection
+        expect(deployRestrictionsRenderer.skip).to.equal(undefined);
+    });
+
+    it('Binds a deployed Commander Token to a deployed Locked Token', async function () {
+        const commanderToken = await ethers.getContractAt("MintCommanderTokenTest", (await deployments.get("CommanderToken")).address);
+        const lockedToken = await ethers.getContractAt("MintLockedTokenTest", (await deployments.get("LockedToken")).address);
+        const [, , newOwner] = await ethers.getSigners();
+
+        await commanderToken.mint(this.deployer, 1);
+        await lockedToken.mint(this.deployer, 1);
+        await commanderToken.bindToNFT(1, lockedToken.address, 1);
+
+        await lockedToken.transferFrom(this.deployer, newOwner.address, 1);
+        expect(await commanderToken.ownerOf(1)).to.equal(newOwner.address);
+    });
+
+    it('Sets the deployed renderer as the metadata renderer of the test contracts', async function () {
+        const renderer = await deployments.get("RestrictionsRenderer");
+        const commanderToken = await ethers.getContractAt("MintCommanderTokenTest", (await deployments.get("CommanderToken")).address);
+        const lockedToken = await ethers.getContractAt("MintLockedTokenTest", (await deployments.get("LockedToken")).address);
+
+        expect(await commanderToken.metadataRenderer()).to.equal(renderer.address);
+        expect(await lockedToken.metadataRenderer()).to.equal(renderer.address);
+
+        await commanderToken.mint(this.deployer, 1);
+        expect(await commanderToken.tokenURI(1)).to.match(/^data:application\/json;base64,/);
+    });
+
+    it('Does not redeploy an unchanged contract', async function () {
+        const before = await deployments.get("CommanderToken");
+
+        await deployments.run(["CommanderToken"], { resetMemory: false, writeDeploymentsToFiles: false });
+
+        const after = await deployments.get("CommanderToken");
+        expect(after.address).to.equal(before.address);
+    });
+});
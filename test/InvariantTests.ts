@@ -0,0 +1,816 @@
+// SPDX-License-Identifier: MIT
+// Randomized stateful tests of the restrictions across Commander Token, Locked Token and Commander Locked Token
+// contracts. Each run applies a random sequence of mints, transfers, burns, lockings, dependencies, whitelist
+// changes, controller changes and recoveries to several contracts, and checks the invariants of the standards
+// after every step.
+// Runs are reproducible from their seed: `INVARIANT_SEED=<seed> yarn test:invariants` replays a failed run,
+// and INVARIANT_STEPS sets the number of steps of each run.
+
+import { ethers } from "hardhat";
+import { BigNumberish, ContractTransaction } from "ethers";
+import {
+    impersonateAccount,
+    setBalance,
+    takeSnapshot,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { TOKEN_NAME, TOKEN_SYMBOL } from "../constants/test";
+import {
+    MintCommanderLockedTokenTest,
+    MintCommanderTokenTest,
+    MintLockedTokenTest,
+} from "../typechain-types";
+
+// the default runs are short to keep `yarn test` fast, `yarn test:invariants` runs longer sequences
+const SEEDS = process.env.INVARIANT_SEED
+    ? [Number(process.env.INVARIANT_SEED)]
+    : [1, 2];
+const STEPS = Number(process.env.INVARIANT_STEPS || 20);
+
+// the number of tokens each contract starts with, and the most it can have
+const INITIAL_TOKENS = 3;
+const MAX_TOKENS = 5;
+
+// the number of accounts the tokens are transferred between
+const ACCOUNTS_COUNT = 3;
+
+// mulberry32, a small seeded pseudorandom generator, so a run can be replayed from its seed
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    const next = (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    return {
+        int: (n: number): number => Math.floor(next() * n),
+        bool: (): boolean => next() < 0.5,
+        pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+    };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+type CommanderTokenContract =
+    | MintCommanderTokenTest
+    | MintCommanderLockedTokenTest;
+type LockedTokenContract = MintLockedTokenTest | MintCommanderLockedTokenTest;
+
+interface Collection {
+    name: string;
+    contract: CommanderTokenContract | LockedTokenContract;
+    // the contract, if the collection is a Commander Token or a Locked Token
+    commanderToken?: CommanderTokenContract;
+    lockedToken?: LockedTokenContract;
+    tokenIds: number[];
+}
+
+interface Token {
+    collection: Collection;
+    tokenId: number;
+}
+
+interface World {
+    collections: Collection[];
+    accounts: SignerWithAddress[];
+    // the token burned in the current step, if any
+    burned?: Token;
+    // the token recovered in the current step, if any
+    recovered?: Token;
+}
+
+// token key -> owner, or null if the token doesn't exist
+type Owners = Map<string, string | null>;
+
+const tokenKey = ({ collection, tokenId }: Token): string =>
+    `${collection.contract.address}:${tokenId}`;
+
+const tokenName = ({ collection, tokenId }: Token): string =>
+    `${collection.name}#${tokenId}`;
+
+const allTokens = (world: World): Token[] =>
+    world.collections.flatMap((collection) =>
+        collection.tokenIds.map((tokenId) => ({ collection, tokenId }))
+    );
+
+const findToken = (
+    world: World,
+    contractAddress: string,
+    tokenId: BigNumberish
+): Token | undefined =>
+    allTokens(world).find(
+        (token) =>
+            token.collection.contract.address === contractAddress &&
+            ethers.BigNumber.from(tokenId).eq(token.tokenId)
+    );
+
+const getOwners = async (world: World): Promise<Owners> => {
+    const owners: Owners = new Map();
+    for (const token of allTokens(world)) {
+        try {
+            owners.set(
+                tokenKey(token),
+                await token.collection.contract.ownerOf(token.tokenId)
+            );
+        } catch {
+            owners.set(tokenKey(token), null);
+        }
+    }
+    return owners;
+};
+
+// sends a transaction on behalf of the owner of a token, a revert is a legitimate outcome of a random operation,
+// but a panic, e.g. an array accessed out of its bounds, is a bug
+const attempt = async (
+    transaction: () => Promise<ContractTransaction>
+): Promise<string> => {
+    try {
+        await (await transaction()).wait();
+        return "ok";
+    } catch (error: any) {
+        if (!/revert/.test(error.message) || /panic code/.test(error.message))
+            throw error;
+        return "reverted";
+    }
+};
+
+/**
+ * Operations. Each one picks its arguments at random, tries to apply them, and returns a description
+ * of what it tried and whether it reverted, or null if it has nothing to do in the current state.
+ */
+type Operation = (
+    world: World,
+    owners: Owners,
+    random: Random
+) => Promise<string | null>;
+
+const liveTokens = (
+    world: World,
+    owners: Owners,
+    filter: (collection: Collection) => boolean
+): Token[] =>
+    allTokens(world).filter(
+        (token) => filter(token.collection) && owners.get(tokenKey(token))
+    );
+
+const ownerSigner = (
+    world: World,
+    owners: Owners,
+    token: Token
+): SignerWithAddress =>
+    world.accounts.find(
+        (account) => account.address === owners.get(tokenKey(token))
+    )!;
+
+// the controller of a Commander Token sets its restrictions instead of its owner, see controllerOf
+const controllerOrOwnerSigner = async (
+    world: World,
+    owners: Owners,
+    token: Token
+): Promise<SignerWithAddress> => {
+    const controller = await token.collection.commanderToken!.controllerOf(
+        token.tokenId
+    );
+    const controllerAccount = world.accounts.find(
+        (account) => account.address === controller
+    );
+    return controllerAccount || ownerSigner(world, owners, token);
+};
+
+const mint: Operation = async (world, owners, random) => {
+    const collections = world.collections.filter(
+        (collection) => collection.tokenIds.length < MAX_TOKENS
+    );
+    if (collections.length == 0) return null;
+
+    const collection = random.pick(collections);
+    const tokenId = collection.tokenIds.length + 1;
+    const to = random.int(ACCOUNTS_COUNT);
+
+    const result = await attempt(() =>
+        collection.contract.mint(world.accounts[to].address, tokenId)
+    );
+    if (result == "ok") collection.tokenIds.push(tokenId);
+    return `mint ${tokenName({
+        collection,
+        tokenId,
+    })} to account ${to}: ${result}`;
+};
+
+const transfer: Operation = async (world, owners, random) => {
+    const tokens = liveTokens(world, owners, () => true);
+    if (tokens.length == 0) return null;
+
+    const token = random.pick(tokens);
+    const owner = ownerSigner(world, owners, token);
+    const to = random.int(ACCOUNTS_COUNT);
+
+    const result = await attempt(() =>
+        token.collection.contract
+            .connect(owner)
+            .transferFrom(
+                owner.address,
+                world.accounts[to].address,
+                token.tokenId
+            )
+    );
+    return `transfer ${tokenName(token)} to account ${to}: ${result}`;
+};
+
+const burn: Operation = async (world, owners, random) => {
+    const tokens = liveTokens(world, owners, () => true);
+    if (tokens.length == 0) return null;
+
+    const token = random.pick(tokens);
+
+    const result = await attempt(() =>
+        token.collection.contract
+            .connect(ownerSigner(world, owners, token))
+            .burn(token.tokenId)
+    );
+    if (result == "ok") world.burned = token;
+    return `burn ${tokenName(token)}: ${result}`;
+};
+
+const lock: Operation = async (world, owners, random) => {
+    const lockables = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.lockedToken
+    );
+    if (lockables.length == 0) return null;
+
+    const token = random.pick(lockables);
+
+    // lockings are only possible between tokens of the same owner, so prefer those
+    const sameOwner = lockables.filter(
+        (other) =>
+            owners.get(tokenKey(other)) == owners.get(tokenKey(token)) &&
+            other != token
+    );
+    const locking = random.pick(sameOwner.length > 0 ? sameOwner : lockables);
+
+    const result = await attempt(() =>
+        token.collection
+            .lockedToken!.connect(ownerSigner(world, owners, token))
+            .lock(
+                token.tokenId,
+                locking.collection.contract.address,
+                locking.tokenId
+            )
+    );
+    return `lock ${tokenName(token)} to ${tokenName(locking)}: ${result}`;
+};
+
+const setDependence: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const dependency = random.pick(commanderTokens);
+
+    const signer = await controllerOrOwnerSigner(world, owners, token);
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(signer)
+            .setDependence(
+                token.tokenId,
+                dependency.collection.contract.address,
+                dependency.tokenId
+            )
+    );
+    return `make ${tokenName(token)} depend on ${tokenName(
+        dependency
+    )}: ${result}`;
+};
+
+const removeDependence: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const count = await token.collection.commanderToken!.getDependenciesCount(
+        token.tokenId
+    );
+    if (count.eq(0)) return null;
+
+    const [contracts, tokenIds] =
+        await token.collection.commanderToken!.getDependencies(
+            token.tokenId,
+            0,
+            count
+        );
+    const i = random.int(contracts.length);
+    const dependency = findToken(world, contracts[i], tokenIds[i])!;
+
+    const signer = await controllerOrOwnerSigner(world, owners, token);
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(signer)
+            .removeDependence(token.tokenId, contracts[i], tokenIds[i])
+    );
+    return `remove the dependence of ${tokenName(token)} on ${tokenName(
+        dependency
+    )}: ${result}`;
+};
+
+const setTransferable: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const transferable = random.bool();
+
+    const signer = await controllerOrOwnerSigner(world, owners, token);
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(signer)
+            .setTransferable(token.tokenId, transferable)
+    );
+    return `set ${tokenName(token)} ${
+        transferable ? "transferable" : "nontransferable"
+    }: ${result}`;
+};
+
+const setBurnable: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const burnable = random.bool();
+
+    const signer = await controllerOrOwnerSigner(world, owners, token);
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(signer)
+            .setBurnable(token.tokenId, burnable)
+    );
+    return `set ${tokenName(token)} ${
+        burnable ? "burnable" : "nonburnable"
+    }: ${result}`;
+};
+
+const setTransferWhitelist: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const account = random.int(ACCOUNTS_COUNT);
+    const isWhitelisted = random.bool();
+
+    const signer = await controllerOrOwnerSigner(world, owners, token);
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(signer)
+            .setTransferWhitelist(
+                token.tokenId,
+                world.accounts[account].address,
+                isWhitelisted
+            )
+    );
+    return `${
+        isWhitelisted ? "whitelist" : "unwhitelist"
+    } account ${account} for ${tokenName(token)}: ${result}`;
+};
+
+// picks an account, or the zero address to remove a controller
+const pickController = (world: World, random: Random): [string, string] => {
+    const account = random.int(ACCOUNTS_COUNT + 1);
+    return account < ACCOUNTS_COUNT
+        ? [world.accounts[account].address, `account ${account}`]
+        : [ethers.constants.AddressZero, "no one"];
+};
+
+const setController: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const [controller, controllerName] = pickController(world, random);
+
+    const signer = await controllerOrOwnerSigner(world, owners, token);
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(signer)
+            .setController(token.tokenId, controller)
+    );
+    return `hand over the control of ${tokenName(
+        token
+    )} to ${controllerName}: ${result}`;
+};
+
+const setCollectionController: Operation = async (world, owners, random) => {
+    const collection = random.pick(
+        world.collections.filter((collection) => !!collection.commanderToken)
+    );
+    const commanderToken = collection.commanderToken!;
+    const [controller, controllerName] = pickController(world, random);
+
+    // the contract sets the first collection controller, which then hands over the control
+    const currentController = await commanderToken.collectionController();
+    const currentAccount = world.accounts.find(
+        (account) => account.address === currentController
+    );
+
+    const result = await attempt(() =>
+        currentAccount
+            ? commanderToken
+                  .connect(currentAccount)
+                  .setCollectionController(controller)
+            : commanderToken.initCollectionController(controller)
+    );
+    return `hand over the control of ${collection.name} to ${controllerName}: ${result}`;
+};
+
+const recover: Operation = async (world, owners, random) => {
+    const commanderTokens = liveTokens(
+        world,
+        owners,
+        (collection) => !!collection.commanderToken
+    );
+    if (commanderTokens.length == 0) return null;
+
+    const token = random.pick(commanderTokens);
+    const controller = await token.collection.commanderToken!.controllerOf(
+        token.tokenId
+    );
+    const controllerAccount = world.accounts.find(
+        (account) => account.address === controller
+    );
+    if (!controllerAccount) return null;
+    const to = random.int(ACCOUNTS_COUNT);
+
+    const result = await attempt(() =>
+        token.collection
+            .commanderToken!.connect(controllerAccount)
+            .recover(token.tokenId, world.accounts[to].address)
+    );
+    if (result == "ok") world.recovered = token;
+    return `recover ${tokenName(token)} to account ${to}: ${result}`;
+};
+
+// the operations with their weights, transfers are the most common since most invariants are about them
+const OPERATIONS: [Operation, number][] = [
+    [mint, 1],
+    [transfer, 4],
+    [burn, 1],
+    [lock, 2],
+    [setDependence, 2],
+    [removeDependence, 1],
+    [setTransferable, 2],
+    [setBurnable, 1],
+    [setTransferWhitelist, 2],
+    [setController, 1],
+    [setCollectionController, 1],
+    [recover, 1],
+];
+
+const pickOperation = (random: Random): Operation => {
+    let n = random.int(OPERATIONS.reduce((sum, [, weight]) => sum + weight, 0));
+    for (const [operation, weight] of OPERATIONS) {
+        if (n < weight) return operation;
+        n -= weight;
+    }
+    throw new Error("unreachable");
+};
+
+/**
+ * Invariants, checked after every step.
+ */
+
+// a locked token has the same owner as the token it's locked to, and both tokens agree on the locking
+const checkLockings = async (world: World, owners: Owners): Promise<void> => {
+    for (const token of allTokens(world).filter(
+        (token) => !!token.collection.lockedToken
+    )) {
+        const [lockingContract, lockingId] =
+            await token.collection.lockedToken!.isLocked(token.tokenId);
+        if (lockingContract != ethers.constants.AddressZero) {
+            const locking = findToken(world, lockingContract, lockingId);
+            expect(locking, `${tokenName(token)} is locked to an unknown token`)
+                .to.exist;
+            if (owners.get(tokenKey(token)))
+                expect(
+                    owners.get(tokenKey(token)),
+                    `${tokenName(
+                        token
+                    )} and the token it is locked to, ${tokenName(
+                        locking!
+                    )}, have different owners`
+                ).to.equal(owners.get(tokenKey(locking!)));
+        }
+
+        const count = await token.collection.lockedToken!.getLockedTokensCount(
+            token.tokenId
+        );
+        const [contracts, tokenIds] =
+            await token.collection.lockedToken!.getLockedTokens(
+                token.tokenId,
+                0,
+                count
+            );
+        for (let i = 0; i < contracts.length; i++) {
+            const locked = findToken(world, contracts[i], tokenIds[i]);
+            expect(locked, `an unknown token is locked to ${tokenName(token)}`)
+                .to.exist;
+            expect(
+                await locked!.collection.lockedToken!.isLocked(locked!.tokenId),
+                `${tokenName(token)} lists ${tokenName(
+                    locked!
+                )}, which isn't locked to it`
+            ).to.deep.equal([
+                token.collection.contract.address,
+                ethers.BigNumber.from(token.tokenId),
+            ]);
+        }
+    }
+};
+
+// a Commander Token changes its owner only to an address it was transferable to, e.g. a token with a
+// nontransferable dependency never changes its owner, unless the new owner is whitelisted.
+// Only its controller can recover it regardless of its restrictions
+const checkTransfers = async (
+    world: World,
+    ownersBefore: Owners,
+    owners: Owners,
+    blockBefore: number
+): Promise<void> => {
+    for (const token of allTokens(world).filter(
+        (token) => !!token.collection.commanderToken
+    )) {
+        const before = ownersBefore.get(tokenKey(token));
+        const after = owners.get(tokenKey(token));
+        if (!before || !after || before == after) continue;
+        if (world.recovered && tokenKey(world.recovered) == tokenKey(token))
+            continue;
+
+        expect(
+            await token.collection.commanderToken!.isTokenTransferableToAddress(
+                token.tokenId,
+                after,
+                { blockTag: blockBefore }
+            ),
+            `${tokenName(
+                token
+            )} was transferred to ${after} although it wasn't transferable to it`
+        ).to.equal(true);
+    }
+};
+
+// the lists of dependencies and whitelisted addresses have no duplicates and match the lookups
+const checkLists = async (world: World): Promise<void> => {
+    for (const token of allTokens(world).filter(
+        (token) => !!token.collection.commanderToken
+    )) {
+        const contract = token.collection.commanderToken!;
+
+        const [contracts, tokenIds] = await contract.getDependencies(
+            token.tokenId,
+            0,
+            await contract.getDependenciesCount(token.tokenId)
+        );
+        const dependencies = contracts.map(
+            (address: string, i: number) => `${address}:${tokenIds[i]}`
+        );
+        expect(
+            new Set(dependencies).size,
+            `${tokenName(token)} lists a dependency twice`
+        ).to.equal(dependencies.length);
+        for (let i = 0; i < contracts.length; i++) {
+            expect(
+                await contract.isDependent(
+                    token.tokenId,
+                    contracts[i],
+                    tokenIds[i]
+                ),
+                `${tokenName(token)} lists a dependency it doesn't depend on`
+            ).to.equal(true);
+        }
+
+        // the index of every dependency points to its place in the list, so each one can be removed, in a snapshot
+        // that is restored afterwards. Removing the first dependencies moves the last ones, whose indices then change.
+        // The contract of a dependency can always remove it, so the removals are sent from the contracts
+        if (contracts.length > 0) {
+            const snapshot = await takeSnapshot();
+            for (let i = 0; i < contracts.length; i++) {
+                await impersonateAccount(contracts[i]);
+                await setBalance(contracts[i], ethers.utils.parseEther("1"));
+                const signer = await ethers.getSigner(contracts[i]);
+                expect(
+                    await attempt(() =>
+                        contract
+                            .connect(signer)
+                            .removeDependence(
+                                token.tokenId,
+                                contracts[i],
+                                tokenIds[i]
+                            )
+                    ),
+                    `${tokenName(token)} can't remove its dependency ${
+                        dependencies[i]
+                    }`
+                ).to.equal("ok");
+                expect(
+                    await contract.isDependent(
+                        token.tokenId,
+                        contracts[i],
+                        tokenIds[i]
+                    ),
+                    `${tokenName(
+                        token
+                    )} still depends on its removed dependency ${
+                        dependencies[i]
+                    }`
+                ).to.equal(false);
+            }
+            expect(
+                await contract.getDependenciesCount(token.tokenId),
+                `${tokenName(
+                    token
+                )} has dependencies after removing all of them`
+            ).to.equal(0);
+            await snapshot.restore();
+        }
+
+        const whitelist = await contract.getWhitelistedAddresses(token.tokenId);
+        expect(
+            new Set(whitelist).size,
+            `${tokenName(token)} lists a whitelisted address twice`
+        ).to.equal(whitelist.length);
+        for (const account of world.accounts) {
+            expect(
+                await contract.isAddressWhitelisted(
+                    token.tokenId,
+                    account.address
+                ),
+                `the whitelist of ${tokenName(token)} doesn't match its list`
+            ).to.equal(whitelist.includes(account.address));
+        }
+    }
+};
+
+// a burned token doesn't exist anymore, and leaves no restrictions, dependencies, whitelist entries or lockings behind
+const checkBurned = async (world: World): Promise<void> => {
+    if (!world.burned) return;
+    const token = world.burned;
+    const { commanderToken, lockedToken } = token.collection;
+
+    await expect(
+        token.collection.contract.ownerOf(token.tokenId),
+        `burned ${tokenName(token)} still exists`
+    ).to.be.revertedWith("ERC721: invalid token ID");
+
+    if (commanderToken) {
+        expect(
+            await commanderToken.getDependenciesCount(token.tokenId),
+            `burned ${tokenName(token)} still has dependencies`
+        ).to.equal(0);
+        expect(
+            await commanderToken.getWhitelistedAddresses(token.tokenId),
+            `burned ${tokenName(token)} still has a whitelist`
+        ).to.be.empty;
+        for (const account of world.accounts) {
+            expect(
+                await commanderToken.isAddressWhitelisted(
+                    token.tokenId,
+                    account.address
+                ),
+                `burned ${tokenName(token)} still whitelists an address`
+            ).to.equal(false);
+        }
+    }
+
+    if (lockedToken) {
+        expect(
+            await lockedToken.isLocked(token.tokenId),
+            `burned ${tokenName(token)} is still locked`
+        ).to.deep.equal([
+            ethers.constants.AddressZero,
+            ethers.BigNumber.from(0),
+        ]);
+        expect(
+            await lockedToken.getLockedTokensCount(token.tokenId),
+            `tokens are still locked to burned ${tokenName(token)}`
+        ).to.equal(0);
+    }
+};
+
+const deployWorld = async (random: Random): Promise<World> => {
+    const signers = await ethers.getSigners();
+    const commanderTokenFactory = await ethers.getContractFactory(
+        "MintCommanderTokenTest"
+    );
+    const CT1 = await commanderTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+    const CT2 = await commanderTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+    const LT = await (
+        await ethers.getContractFactory("MintLockedTokenTest")
+    ).deploy(TOKEN_NAME, TOKEN_SYMBOL);
+    const CLT = await (
+        await ethers.getContractFactory("MintCommanderLockedTokenTest")
+    ).deploy(TOKEN_NAME, TOKEN_SYMBOL);
+
+    const world: World = {
+        accounts: signers.slice(0, ACCOUNTS_COUNT),
+        collections: [
+            { name: "CT1", contract: CT1, commanderToken: CT1, tokenIds: [] },
+            { name: "CT2", contract: CT2, commanderToken: CT2, tokenIds: [] },
+            { name: "LT", contract: LT, lockedToken: LT, tokenIds: [] },
+            {
+                name: "CLT",
+                contract: CLT,
+                commanderToken: CLT,
+                lockedToken: CLT,
+                tokenIds: [],
+            },
+        ],
+    };
+
+    for (const collection of world.collections) {
+        for (let tokenId = 1; tokenId <= INITIAL_TOKENS; tokenId++) {
+            await collection.contract.mint(
+                random.pick(world.accounts).address,
+                tokenId
+            );
+            collection.tokenIds.push(tokenId);
+        }
+    }
+
+    return world;
+};
+
+// Start test block
+describe("Invariants", function () {
+    this.timeout(0);
+
+    for (const seed of SEEDS) {
+        it(`Keeps the invariants through ${STEPS} random operations (seed ${seed})`, async function () {
+            const random = createRandom(seed);
+            const world = await deployWorld(random);
+            const history: string[] = [];
+
+            for (let step = 1; step <= STEPS; step++) {
+                const blockBefore = await ethers.provider.getBlockNumber();
+                const ownersBefore = await getOwners(world);
+
+                world.burned = undefined;
+                world.recovered = undefined;
+                let description: string | null = null;
+                while (description === null)
+                    description = await pickOperation(random)(
+                        world,
+                        ownersBefore,
+                        random
+                    );
+                history.push(`${step}. ${description}`);
+
+                try {
+                    const owners = await getOwners(world);
+                    await checkLockings(world, owners);
+                    await checkTransfers(
+                        world,
+                        ownersBefore,
+                        owners,
+                        blockBefore
+                    );
+                    await checkLists(world);
+                    await checkBurned(world);
+                } catch (error: any) {
+                    error.message = `${
+                        error.message
+                    }\nafter the operations of seed ${seed} (replay with INVARIANT_SEED=${seed}):\n${history.join(
+                        "\n"
+                    )}`;
+                    throw error;
+                }
+            }
+        });
+    }
+});
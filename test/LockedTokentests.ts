@@ -3,6 +3,8 @@ import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
 import { TOKEN_NAME, TOKEN_SYMBOL, INITIAL_MINT_COUNT } from "../constants/test";
+import { getTokenFactory } from "./utils/tokenFactory";
+import { getLockTypedData, signTypedData } from "../sdk";
 
 interface MintResponse {
     initialMintCount: number;
@@ -60,10 +62,16 @@ const getRandomMintedTokens = function (initiallyMinted: string[]): string[] {
 }
 
 
-// Start test block
-describe('LockedToken', function () {
+// decodes a base64 JSON data URI, as returned from tokenURI by RestrictionsRenderer
+const decodeTokenURI = function (tokenURI: string): any {
+    return JSON.parse(Buffer.from(tokenURI.split(",")[1], "base64").toString());
+}
+
+
+// the tests of LockedToken, which run on the token and on its upgradeable version behind a proxy
+const lockedTokenTests = (contractName: string, upgradeable: boolean) => function (this: Mocha.Suite) {
     before(async function () {
-        this.CommanderTokenMintTestFactory = await ethers.getContractFactory('MintLockedTokenTest');
+        this.CommanderTokenMintTestFactory = await getTokenFactory(contractName, upgradeable);
     });
 
     beforeEach(async function () {
@@ -184,14 +192,307 @@ describe('LockedToken', function () {
 
             await expectTokenNotLocked(this.CommanderToken, lockedTokenId)
 
-            expect(this.CommanderToken.connect(this.owner).lock(lockedTokenId, lockedByTokenContractAddress, lockedByTokenId)).to.be.revertedWith("CommanderToken: not sameOwner")
+            await expect(this.CommanderToken.connect(this.owner).lock(lockedTokenId, lockedByTokenContractAddress, lockedByTokenId)).to.be.revertedWith("Locked Token: the tokens do not have the same owner")
 
 
         });
 
+        it('Lists locked tokens with pagination', async function () {
+            const [lockingTokenId, ...lockedTokenIds] = getRandomMintedTokens(this.initialMint)
+
+            expect(await this.CommanderToken.getLockedTokensCount(lockingTokenId)).to.equal(0);
+
+            for (const lockedTokenId of lockedTokenIds) {
+                await this.CommanderToken.connect(this.owner).lock(lockedTokenId, this.CommanderToken.address, lockingTokenId);
+            }
+
+            expect(await this.CommanderToken.getLockedTokensCount(lockingTokenId)).to.equal(lockedTokenIds.length);
+
+            const [firstContracts, firstTokenIds] = await this.CommanderToken.getLockedTokens(lockingTokenId, 0, 2);
+            const [restContracts, restTokenIds] = await this.CommanderToken.getLockedTokens(lockingTokenId, 2, 10);
+
+            expect([...firstContracts, ...restContracts]).to.deep.equal(lockedTokenIds.map(() => this.CommanderToken.address));
+            expect([...firstTokenIds, ...restTokenIds].map((id: any) => id.toString())).to.deep.equal(lockedTokenIds);
+        });
+
+        it('A token cannot be locked to itself', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint)
+
+            await expect(this.CommanderToken.connect(this.owner).lock(tokenId, this.CommanderToken.address, tokenId))
+                .to.be.revertedWithCustomError(this.CommanderToken, "LockingCycle")
+                .withArgs(tokenId, this.CommanderToken.address, tokenId);
+        });
+
+        it('Rejects a multi-hop locking cycle', async function () {
+            const [tokenA, tokenB, tokenC] = getRandomMintedTokens(this.initialMint)
+
+            // A is locked to B, and B is locked to C
+            await this.CommanderToken.connect(this.owner).lock(tokenA, this.CommanderToken.address, tokenB);
+            await this.CommanderToken.connect(this.owner).lock(tokenB, this.CommanderToken.address, tokenC);
+
+            // locking C to A closes a cycle
+            await expect(this.CommanderToken.connect(this.owner).lock(tokenC, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "LockingCycle")
+                .withArgs(tokenC, this.CommanderToken.address, tokenA);
+
+            await expectTokenNotLocked(this.CommanderToken, tokenC);
+        });
+
+        it('Rejects a locking cycle that goes through another contract', async function () {
+            const [tokenA, tokenB] = getRandomMintedTokens(this.initialMint)
+            await this.CommanderToken2["mint(address,uint256)"](this.contractOwner, 1);
+
+            // A is locked to token 1 of the second contract, which is locked to B
+            await this.CommanderToken.connect(this.owner).lock(tokenA, this.CommanderToken2.address, 1);
+            await this.CommanderToken2.connect(this.owner).lock(1, this.CommanderToken.address, tokenB);
+
+            await expect(this.CommanderToken.connect(this.owner).lock(tokenB, this.CommanderToken.address, tokenA))
+                .to.be.revertedWithCustomError(this.CommanderToken, "LockingCycle");
+        });
+
+        it('Rejects a chain of lockings longer than the maximal depth', async function () {
+            const [tokenA, tokenB, tokenC, tokenD] = getRandomMintedTokens(this.initialMint)
+
+            expect(await this.CommanderToken.maxLockingDepth()).to.equal(10);
+            await this.CommanderToken.setMaxLockingDepth(2);
+
+            // A is locked to B, and C is locked to D
+            await this.CommanderToken.connect(this.owner).lock(tokenA, this.CommanderToken.address, tokenB);
+            await this.CommanderToken.connect(this.owner).lock(tokenC, this.CommanderToken.address, tokenD);
+
+            // locking B to C creates the chain A -> B -> C -> D of length 3
+            await expect(this.CommanderToken.connect(this.owner).lock(tokenB, this.CommanderToken.address, tokenC))
+                .to.be.revertedWithCustomError(this.CommanderToken, "LockingTooDeep")
+                .withArgs(tokenB, this.CommanderToken.address, tokenC, 2);
+
+            // but a chain of length 2 is fine
+            await this.CommanderToken.connect(this.owner).lock(tokenB, this.CommanderToken.address, tokenD);
+        });
+
+        it('Locks many tokens in a single transaction', async function () {
+            const [tokenA, tokenB, lockingTokenId] = getRandomMintedTokens(this.initialMint);
+
+            await expect(this.CommanderToken.connect(this.owner).lockBatch(
+                [tokenA, tokenB],
+                [this.CommanderToken.address, this.CommanderToken.address],
+                [lockingTokenId, lockingTokenId]
+            ))
+                .to.emit(this.CommanderToken, "NewLocking").withArgs(tokenA, this.CommanderToken.address, lockingTokenId)
+                .and.to.emit(this.CommanderToken, "NewLocking").withArgs(tokenB, this.CommanderToken.address, lockingTokenId);
+
+            expect(await this.CommanderToken.getLockedTokensCount(lockingTokenId)).to.equal(2);
+
+            await expect(this.CommanderToken.connect(this.owner).lockBatch([tokenA], [], []))
+                .to.be.revertedWith("Locked Token: the arrays have different lengths");
+        });
+
+        it('Mints many tokens locked to a parent in a single transaction', async function () {
+            const firstTokenId = this.initialMintCount + 1;
+            await this.CommanderToken2["mint(address,uint256)"](this.wallet2.address, 1);
+
+            await expect(this.CommanderToken.mintLockedBatch(firstTokenId, 3, this.CommanderToken2.address, 1))
+                .to.emit(this.CommanderToken, "NewLocking").withArgs(firstTokenId, this.CommanderToken2.address, 1)
+                .and.to.emit(this.CommanderToken, "NewLocking").withArgs(firstTokenId + 2, this.CommanderToken2.address, 1);
+
+            expect(await this.CommanderToken.ownerOf(firstTokenId + 2)).to.equal(this.wallet2.address);
+            expect(await this.CommanderToken2.getLockedTokensCount(1)).to.equal(3);
+
+            // the minted tokens move with their parent
+            await this.CommanderToken2.connect(this.wallet2).transferFrom(this.wallet2.address, this.wallet3.address, 1);
+            expect(await this.CommanderToken.balanceOf(this.wallet3.address)).to.equal(3);
+        });
+
+        it('A relayer locks a token with a signature of its owner', async function () {
+            const [tokenA, lockingTokenId] = getRandomMintedTokens(this.initialMint);
+            const deadline = (await time.latest()) + 3600;
+            const signature = await signTypedData(this.owner, await getLockTypedData(
+                this.CommanderToken.address, this.owner, tokenA, this.CommanderToken.address, lockingTokenId, deadline
+            ));
+
+            // signatures of other accounts are rejected
+            const wrongSignature = await signTypedData(this.wallet2, await getLockTypedData(
+                this.CommanderToken.address, this.wallet2, tokenA, this.CommanderToken.address, lockingTokenId, deadline
+            ));
+            await expect(this.CommanderToken.connect(this.wallet3)
+                .lockWithSig(tokenA, this.CommanderToken.address, lockingTokenId, deadline, wrongSignature))
+                .to.be.revertedWithCustomError(this.CommanderToken, "UnauthorizedSigner")
+                .withArgs(tokenA, this.wallet2.address);
+
+            await expect(this.CommanderToken.connect(this.wallet3)
+                .lockWithSig(tokenA, this.CommanderToken.address, lockingTokenId, deadline, signature))
+                .to.emit(this.CommanderToken, "NewLocking").withArgs(tokenA, this.CommanderToken.address, lockingTokenId);
+
+            await expectTokenIsLocked(this.CommanderToken, tokenA);
+        });
+
         it('Lock a=>b, a not transfarable by owner only by contract b', async function () {
 
         });
     });
 
-});
\ No newline at end of file
+    describe('Bundles', function () {
+        beforeEach(async function () {
+            // the bundle of root: tokenA and tokenB locked to root, and tokenC from CommanderToken2 locked to tokenA
+            [this.root, this.tokenA, this.tokenB] = getRandomMintedTokens(this.initialMint);
+            this.tokenC = 1;
+
+            await this.CommanderToken2["mint(address,uint256)"](this.contractOwner, this.tokenC);
+            await this.CommanderToken.connect(this.owner).lock(this.tokenA, this.CommanderToken.address, this.root);
+            await this.CommanderToken.connect(this.owner).lock(this.tokenB, this.CommanderToken.address, this.root);
+            await this.CommanderToken2.connect(this.owner).lock(this.tokenC, this.CommanderToken.address, this.tokenA);
+
+            this.ERC721Receiver = await (await ethers.getContractFactory('ERC721ReceiverTest')).deploy();
+        });
+
+        it('Returns the bundle of a token in depth-first order', async function () {
+            const [contracts, ids] = await this.CommanderToken.getBundle(this.root);
+
+            expect(contracts.map((address: string, i: number) => [address, ids[i].toString()])).to.deep.equal([
+                [this.CommanderToken.address, this.root],
+                [this.CommanderToken.address, this.tokenA],
+                [this.CommanderToken2.address, this.tokenC.toString()],
+                [this.CommanderToken.address, this.tokenB],
+            ]);
+
+            const [leafContracts, leafIds] = await this.CommanderToken2.getBundle(this.tokenC);
+            expect(leafContracts).to.deep.equal([this.CommanderToken2.address]);
+            expect(leafIds).to.deep.equal([this.tokenC]);
+        });
+
+        it('Approving the root approves the whole bundle', async function () {
+            await this.CommanderToken.connect(this.owner).approve(this.wallet2.address, this.root);
+
+            expect(await this.CommanderToken.isApprovedForBundle(this.wallet2.address, this.tokenA)).to.equal(true);
+            expect(await this.CommanderToken2.isApprovedForBundle(this.wallet2.address, this.tokenC)).to.equal(true);
+            expect(await this.CommanderToken2.isApprovedForBundle(this.wallet3.address, this.tokenC)).to.equal(false);
+
+            // approving a locked token doesn't approve its root
+            await this.CommanderToken.connect(this.owner).approve(this.wallet3.address, this.tokenA);
+            expect(await this.CommanderToken.isApprovedForBundle(this.wallet3.address, this.root)).to.equal(false);
+
+            await this.CommanderToken.connect(this.wallet2).transferFrom(this.contractOwner, this.wallet3.address, this.root);
+
+            expect(await this.CommanderToken.ownerOf(this.tokenB)).to.equal(this.wallet3.address);
+            expect(await this.CommanderToken2.ownerOf(this.tokenC)).to.equal(this.wallet3.address);
+        });
+
+        it('Operators of the root owner are approved for the whole bundle', async function () {
+            await this.CommanderToken.connect(this.owner).setApprovalForAll(this.wallet2.address, true);
+
+            expect(await this.CommanderToken2.isApprovedForBundle(this.wallet2.address, this.tokenC)).to.equal(true);
+            expect(await this.CommanderToken2.isApprovedForAll(this.contractOwner, this.wallet2.address)).to.equal(false);
+        });
+
+        it('Burning the root burns the whole bundle', async function () {
+            await expect(this.CommanderToken.connect(this.owner).burn(this.root))
+                .to.emit(this.CommanderToken, "Transfer")
+                .withArgs(this.contractOwner, ethers.constants.AddressZero, this.root)
+                .and.to.emit(this.CommanderToken2, "Transfer")
+                .withArgs(this.contractOwner, ethers.constants.AddressZero, this.tokenC);
+
+            for (const tokenId of [this.root, this.tokenA, this.tokenB]) {
+                await expect(this.CommanderToken.ownerOf(tokenId)).to.be.revertedWith("ERC721: invalid token ID");
+            }
+            await expect(this.CommanderToken2.ownerOf(this.tokenC)).to.be.revertedWith("ERC721: invalid token ID");
+
+            expect(await this.CommanderToken.balanceOf(this.contractOwner)).to.equal(this.initialMintCount - 3);
+            expect(await this.CommanderToken.getLockedTokensCount(this.root)).to.equal(0);
+        });
+
+        it('A locked token can be burned only with the token it is locked to', async function () {
+            await expect(this.CommanderToken.connect(this.owner).burn(this.tokenA))
+                .to.be.revertedWith("Locked Token: tokenID is locked and caller is not the contract holding the locking token");
+
+            expect(await this.CommanderToken.ownerOf(this.tokenA)).to.equal(this.contractOwner);
+        });
+
+        it('safeTransferFrom calls onERC721Received for every token of the bundle', async function () {
+            const receiver = this.ERC721Receiver.address;
+
+            await expect(this.CommanderToken.connect(this.owner)["safeTransferFrom(address,address,uint256)"](this.contractOwner, receiver, this.root))
+                .to.emit(this.ERC721Receiver, "Received")
+                .withArgs(this.CommanderToken.address, this.contractOwner, this.contractOwner, this.root, "0x")
+                .and.to.emit(this.ERC721Receiver, "Received")
+                .withArgs(this.CommanderToken.address, this.CommanderToken.address, this.contractOwner, this.tokenA, "0x")
+                .and.to.emit(this.ERC721Receiver, "Received")
+                .withArgs(this.CommanderToken2.address, this.CommanderToken.address, this.contractOwner, this.tokenC, "0x")
+                .and.to.emit(this.ERC721Receiver, "Received")
+                .withArgs(this.CommanderToken.address, this.CommanderToken.address, this.contractOwner, this.tokenB, "0x");
+
+            expect(await this.CommanderToken2.ownerOf(this.tokenC)).to.equal(receiver);
+        });
+
+        it('A locked token rejected by the receiver reverts the transfer of the whole bundle', async function () {
+            await this.ERC721Receiver.setRejectedToken(this.CommanderToken2.address, this.tokenC);
+
+            await expect(this.CommanderToken.connect(this.owner)["safeTransferFrom(address,address,uint256)"](this.contractOwner, this.ERC721Receiver.address, this.root))
+                .to.be.revertedWith("ERC721ReceiverTest: token rejected");
+
+            expect(await this.CommanderToken.ownerOf(this.tokenA)).to.equal(this.contractOwner);
+            expect(await this.CommanderToken2.ownerOf(this.tokenC)).to.equal(this.contractOwner);
+            expect(await this.CommanderToken2.isLocked(this.tokenC)).to.deep.equal([this.CommanderToken.address, this.tokenA]);
+        });
+
+        it('Only the contract of a locked token can remove it from the token it is locked to', async function () {
+            await expect(this.CommanderToken.connect(this.owner).removeLockedToken(this.tokenA, this.CommanderToken2.address, this.tokenC))
+                .to.be.revertedWith("Locked Token: transaction is not sent from the correct contract");
+
+            expect(await this.CommanderToken2.isLocked(this.tokenC)).to.deep.equal([this.CommanderToken.address, this.tokenA]);
+        });
+
+        it('Safe transfer of a bundle to a contract that is not a receiver reverts', async function () {
+            await expect(this.CommanderToken.connect(this.owner)["safeTransferFrom(address,address,uint256)"](this.contractOwner, this.CommanderToken2.address, this.root))
+                .to.be.revertedWith("ERC721: transfer to non ERC721Receiver implementer");
+
+            // a regular transfer of the bundle doesn't check the receiver
+            await this.CommanderToken.connect(this.owner).transferFrom(this.contractOwner, this.CommanderToken2.address, this.root);
+            expect(await this.CommanderToken2.ownerOf(this.tokenC)).to.equal(this.CommanderToken2.address);
+        });
+    });
+
+
+    describe('Metadata', function () {
+        it('Renders the token a token is locked to', async function () {
+            const [tokenId, lockingTokenId] = getRandomMintedTokens(this.initialMint);
+            const renderer = await (await ethers.getContractFactory('RestrictionsRenderer')).deploy();
+            await this.CommanderToken.setMetadataRenderer(renderer.address);
+
+            expect(decodeTokenURI(await this.CommanderToken.tokenURI(tokenId))).to.deep.equal({
+                name: `${TOKEN_NAME} #${tokenId}`,
+                attributes: [{ trait_type: "Locked", value: "No" }],
+                lockedTo: null,
+            });
+
+            await this.CommanderToken.connect(this.owner).lock(tokenId, this.CommanderToken.address, lockingTokenId);
+
+            const metadata = decodeTokenURI(await this.CommanderToken.tokenURI(tokenId));
+            expect(metadata.attributes).to.deep.equal([{ trait_type: "Locked", value: "Yes" }]);
+            expect(metadata.lockedTo).to.equal(`${this.CommanderToken.address.toLowerCase()}:${ethers.utils.hexlify(Number(lockingTokenId))}`);
+        });
+
+        it('Renders a token locked to a token with ID 0 as a token', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+            const renderer = await (await ethers.getContractFactory('RestrictionsRenderer')).deploy();
+            await this.CommanderToken.setMetadataRenderer(renderer.address);
+            await this.CommanderToken["mint(address,uint256)"](this.contractOwner, 0);
+
+            await this.CommanderToken.connect(this.owner).lock(tokenId, this.CommanderToken.address, 0);
+
+            const metadata = decodeTokenURI(await this.CommanderToken.tokenURI(tokenId));
+            expect(metadata.lockedTo).to.equal(`${this.CommanderToken.address.toLowerCase()}:0x00`);
+        });
+
+        it('Uses the base URI for off-chain metadata', async function () {
+            const [tokenId] = getRandomMintedTokens(this.initialMint);
+
+            await this.CommanderToken.setBaseURI("ipfs://metadata/");
+            expect(await this.CommanderToken.tokenURI(tokenId)).to.equal(`ipfs://metadata/${tokenId}`);
+        });
+    });
+
+};
+
+
+// Start test block
+describe('LockedToken', lockedTokenTests('MintLockedTokenTest', false));
+describe('LockedTokenUpgradeable', lockedTokenTests('MintLockedTokenUpgradeableTest', true));
@@ -0,0 +1,156 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { CommanderTokenClient, ExternalToken, LockedTokenClient } from "../sdk";
+import { TOKEN_NAME, TOKEN_SYMBOL } from "../constants/test";
+
+// Start test block
+describe('SDK', function () {
+    beforeEach(async function () {
+        const signers = await ethers.getSigners();
+        this.owner = signers[0];
+        this.wallet2 = signers[2];
+
+        const CommanderTokenFactory = await ethers.getContractFactory('MintCommanderTokenTest');
+        this.CommanderToken = await CommanderTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        await this.CommanderToken.deployed();
+
+        const LockedTokenFactory = await ethers.getContractFactory('MintLockedTokenTest');
+        this.LockedToken = await LockedTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        await this.LockedToken.deployed();
+
+        for (let i = 1; i <= 3; i++) {
+            await this.CommanderToken.mint(this.owner.address, i);
+            await this.LockedToken.mint(this.owner.address, i);
+        }
+
+        this.commanderClient = new CommanderTokenClient(this.CommanderToken.address, this.owner);
+        this.lockedClient = new LockedTokenClient(this.LockedToken.address, this.owner);
+    });
+
+    describe('CommanderTokenClient', function () {
+        it('Adds and removes dependencies with any BigNumberish id', async function () {
+            await (await this.commanderClient.addDependency(1, this.CommanderToken.address, "2")).wait();
+            expect(await this.commanderClient.isDependent(1n, this.CommanderToken.address, ethers.BigNumber.from(2))).to.equal(true);
+
+            await (await this.commanderClient.removeDependency("1", this.CommanderToken.address, 2)).wait();
+            expect(await this.commanderClient.isDependent(1, this.CommanderToken.address, 2)).to.equal(false);
+        });
+
+        it('Lists all dependencies and whitelisted addresses', async function () {
+            await (await this.commanderClient.addDependency(1, this.CommanderToken.address, 2)).wait();
+            await (await this.commanderClient.addDependency(1, this.CommanderToken.address, 3)).wait();
+            await (await this.commanderClient.whitelist(1, this.wallet2.address)).wait();
+
+            const dependencies = await this.commanderClient.getDependencies(1);
+            expect(dependencies.map((dependency: any) => dependency.tokenId.toNumber())).to.deep.equal([2, 3]);
+            expect(await this.commanderClient.getWhitelistedAddresses(1)).to.deep.equal([this.wallet2.address]);
+        });
+
+        it('Binds a token to an NFT', async function () {
+            const nft = { contractAddress: this.CommanderToken.address, tokenId: 2 };
+            await (await this.commanderClient.bindToNFT(1, nft)).wait();
+
+            const boundNFT = await this.commanderClient.boundNFTOf(1);
+            expect([boundNFT.contractAddress, boundNFT.tokenId.toNumber()]).to.deep.equal([this.CommanderToken.address, 2]);
+
+            await (await this.commanderClient.unbindFromNFT(1)).wait();
+            expect(await this.commanderClient.boundNFTOf(1)).to.equal(null);
+        });
+
+        it('Whitelists NFTs', async function () {
+            const nft = { contractAddress: this.CommanderToken.address, tokenId: 2 };
+            await (await this.commanderClient.whitelistNFT(1, nft)).wait();
+
+            expect(await this.commanderClient.isNFTWhitelisted(1, nft)).to.equal(true);
+            const whitelistedNFTs = await this.commanderClient.getWhitelistedNFTs(1);
+            expect(whitelistedNFTs.map((token: any) => [token.contractAddress, token.tokenId.toNumber()]))
+                .to.deep.equal([[this.CommanderToken.address, 2]]);
+        });
+
+        it('Explains a transfer blocked by the token itself', async function () {
+            await (await this.commanderClient.setTransferable(1, false)).wait();
+
+            expect(await this.commanderClient.canTransfer(1, this.wallet2.address)).to.equal(false);
+
+            const block = await this.commanderClient.explainTransferBlock(1, this.wallet2.address);
+            expect(block?.reason).to.equal("nontransferable");
+            expect(block?.tokenId).to.equal(1);
+            expect(block?.contractAddress).to.equal(this.CommanderToken.address);
+        });
+
+        it('Explains a transfer blocked by a dependency', async function () {
+            await (await this.commanderClient.addDependency(1, this.CommanderToken.address, 2)).wait();
+            await (await this.commanderClient.setTransferable(2, false)).wait();
+
+            const block = await this.commanderClient.explainTransferBlock(1, this.wallet2.address);
+            expect(block?.reason).to.equal("dependency");
+            expect(block?.path.map((step: any) => [step.tokenId.toNumber(), step.reason])).to.deep.equal([
+                [1, "dependency"],
+                [2, "nontransferable"],
+            ]);
+        });
+
+        it('Explains a burn blocked by a dependency', async function () {
+            await (await this.commanderClient.addDependency(1, this.CommanderToken.address, 2)).wait();
+            expect(await this.commanderClient.explainBurnBlock(1)).to.equal(null);
+
+            await (await this.commanderClient.setBurnable(2, false)).wait();
+
+            const block = await this.commanderClient.explainBurnBlock(1);
+            expect(block?.reason).to.equal("dependency");
+            expect(block?.path[1].reason).to.equal("nonburnable");
+        });
+
+        it('Whitelisting makes a nontransferable token transferable to an address', async function () {
+            await (await this.commanderClient.setTransferable(1, false)).wait();
+            await (await this.commanderClient.whitelist(1, this.wallet2.address)).wait();
+
+            expect(await this.commanderClient.isWhitelisted(1, this.wallet2.address)).to.equal(true);
+            expect(await this.commanderClient.explainTransferBlock(1, this.wallet2.address)).to.equal(null);
+
+            await (await this.commanderClient.safeTransfer(this.owner.address, this.wallet2.address, 1)).wait();
+            expect(await this.commanderClient.ownerOf(1)).to.equal(this.wallet2.address);
+        });
+    });
+
+    describe('LockedTokenClient', function () {
+        it('Locks a token and explains why it cannot be transferred', async function () {
+            await (await this.lockedClient.lock(1, this.LockedToken.address, 2)).wait();
+
+            const lockedTo = await this.lockedClient.lockedTo(1);
+            expect(lockedTo?.contractAddress).to.equal(this.LockedToken.address);
+            expect(lockedTo?.tokenId).to.equal(2);
+
+            expect(await this.lockedClient.canTransfer(1, this.wallet2.address)).to.equal(false);
+            const block = await this.lockedClient.explainTransferBlock(1, this.wallet2.address);
+            expect(block?.reason).to.equal("locked");
+
+            const lockedTokens = await this.lockedClient.getLockedTokens(2);
+            expect(lockedTokens).to.have.length(1);
+            expect(lockedTokens[0].tokenId).to.equal(1);
+        });
+
+        it('Transferring the locking token transfers the locked token', async function () {
+            await (await this.lockedClient.lock(1, this.LockedToken.address, 2)).wait();
+            await (await this.lockedClient.transfer(this.owner.address, this.wallet2.address, 2)).wait();
+
+            expect(await this.lockedClient.ownerOf(1)).to.equal(this.wallet2.address);
+            expect(await this.lockedClient.ownerOf(2)).to.equal(this.wallet2.address);
+        });
+
+        it('Returns the bundle of a token and who is approved for it', async function () {
+            await (await this.lockedClient.lock(1, this.LockedToken.address, 2)).wait();
+            await (await this.LockedToken.approve(this.wallet2.address, 2)).wait();
+
+            const bundle = await this.lockedClient.getBundle(2);
+            expect(bundle.map((token: ExternalToken) => token.tokenId.toNumber())).to.deep.equal([2, 1]);
+
+            expect(await this.lockedClient.isApprovedForBundle(this.wallet2.address, 1)).to.equal(true);
+        });
+
+        it('Returns null for an unlocked token', async function () {
+            expect(await this.lockedClient.lockedTo(3)).to.equal(null);
+            expect(await this.lockedClient.canTransfer(3, this.wallet2.address)).to.equal(true);
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import { ethers, deployments, getNamedAccounts, run } from "hardhat";
+import { expect } from "chai";
+
+// Start test block
+describe('Tasks', function () {
+    beforeEach(async function () {
+        await deployments.fixture(["all"]);
+
+        const { deployer } = await getNamedAccounts();
+        this.deployer = deployer;
+        this.wallet2 = (await ethers.getSigners())[2];
+
+        this.CommanderToken = await ethers.getContractAt("MintCommanderTokenTest", (await deployments.get("CommanderToken")).address);
+        this.LockedToken = await ethers.getContractAt("MintLockedTokenTest", (await deployments.get("LockedToken")).address);
+
+        for (let i = 1; i <= 3; i++) {
+            await this.CommanderToken.mint(this.deployer, i);
+            await this.LockedToken.mint(this.deployer, i);
+        }
+
+        // the tasks print their results, which the tests read instead of the console
+        this.output = [];
+        this.consoleLog = console.log;
+        console.log = (...args: any[]) => this.output.push(args.join(" "));
+    });
+
+    afterEach(async function () {
+        console.log = this.consoleLog;
+    });
+
+    describe('Commander Token tasks', function () {
+        it('Adds and removes dependencies', async function () {
+            await run("ct:depend", { token: "1", dependency: "2" });
+
+            expect(await this.CommanderToken.isDependent(1, this.CommanderToken.address, 2)).to.equal(true);
+            expect(this.output[0]).to.match(/^CommanderToken#1 depends on CommanderToken#2 \(transaction 0x[0-9a-f]+\)$/);
+
+            await run("ct:undepend", { token: "1", dependency: "2", dependencyContract: this.CommanderToken.address });
+
+            expect(await this.CommanderToken.isDependent(1, this.CommanderToken.address, 2)).to.equal(false);
+        });
+
+        it('Sets transferability and burnability', async function () {
+            await run("ct:set-transferable", { token: "1", transferable: false });
+            await run("ct:set-burnable", { token: "1", burnable: false });
+
+            expect(await this.CommanderToken.isTransferable(1)).to.equal(false);
+            expect(await this.CommanderToken.isBurnable(1)).to.equal(false);
+        });
+
+        it('Whitelists named accounts and addresses', async function () {
+            await run("ct:whitelist", { token: "1", address: "feeCollector" });
+            await run("ct:whitelist", { token: "1", address: this.wallet2.address });
+
+            const { feeCollector } = await getNamedAccounts();
+            expect(await this.CommanderToken.getWhitelistedAddresses(1)).to.deep.equal([feeCollector, this.wallet2.address]);
+
+            await run("ct:whitelist", { token: "1", address: "feeCollector", remove: true });
+
+            expect(await this.CommanderToken.getWhitelistedAddresses(1)).to.deep.equal([this.wallet2.address]);
+        });
+
+        it('Sends transactions from the given account', async function () {
+            await this.CommanderToken.transferFrom(this.deployer, this.wallet2.address, 1);
+
+            await expect(run("ct:set-transferable", { token: "1", transferable: false }))
+                .to.be.revertedWith("ERC721: caller is not token owner or approved");
+
+            await run("ct:set-transferable", { token: "1", transferable: false, from: this.wallet2.address });
+            expect(await this.CommanderToken.isTransferable(1)).to.equal(false);
+        });
+
+        it('Explains the status of a token', async function () {
+            await run("ct:depend", { token: "1", dependency: "2" });
+            await run("ct:set-transferable", { token: "2", transferable: false });
+            await run("ct:whitelist", { token: "2", address: this.wallet2.address });
+            this.output.length = 0;
+
+            const status = await run("ct:status", { token: "1" });
+
+            expect(status).to.deep.equal({
+                token: "CommanderToken#1",
+                owner: this.deployer,
+                controller: null,
+                transferable: false,
+                transferBlock: "CommanderToken#1 (dependency) -> CommanderToken#2 (not-whitelisted)",
+                burnable: true,
+                burnBlock: null,
+                dependencies: ["CommanderToken#2"],
+                whitelist: [],
+            });
+            expect(this.output).to.include("  transferable: no, CommanderToken#1 (dependency) -> CommanderToken#2 (not-whitelisted)");
+
+            // the whitelist of the dependency allows the transfer to wallet2
+            expect((await run("ct:status", { token: "1", to: this.wallet2.address })).transferable).to.equal(true);
+        });
+
+        it('Rejects unknown contracts and accounts', async function () {
+            await expect(run("ct:status", { token: "1", contract: "NoSuchToken" }))
+                .to.be.rejectedWith("NoSuchToken is not an address, a named account or a deployment on hardhat");
+        });
+    });
+
+    describe('Locked Token tasks', function () {
+        it('Locks tokens and prints the tree of a token', async function () {
+            await run("lt:lock", { token: "2", lockingToken: "1" });
+            await run("lt:lock", { token: "3", lockingToken: "2" });
+
+            expect(await this.LockedToken.isLocked(3)).to.deep.equal([this.LockedToken.address, 2]);
+
+            this.output.length = 0;
+            const tree = await run("lt:tree", { token: "1" });
+
+            expect(tree).to.deep.equal({
+                token: "LockedToken#1",
+                owner: this.deployer,
+                lockedTokens: [{
+                    token: "LockedToken#2",
+                    owner: this.deployer,
+                    lockedTokens: [{ token: "LockedToken#3", owner: this.deployer, lockedTokens: [] }],
+                }],
+            });
+            expect(this.output).to.deep.equal([
+                `LockedToken#1 (owner ${this.deployer})`,
+                `  LockedToken#2 (owner ${this.deployer})`,
+                `    LockedToken#3 (owner ${this.deployer})`,
+            ]);
+        });
+
+        it('Locks only tokens of the same owner', async function () {
+            await this.LockedToken.transferFrom(this.deployer, this.wallet2.address, 1);
+
+            await expect(run("lt:lock", { token: "2", lockingToken: "1" }))
+                .to.be.revertedWith("Locked Token: the tokens do not have the same owner");
+        });
+    });
+});
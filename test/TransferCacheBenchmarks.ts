@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+// Gas benchmarks of transferring a token with a deep and a wide dependency tree, before and after transfer caches.
+// Run `yarn test:gas` to print the gas used by each function with hardhat-gas-reporter.
+
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { TOKEN_NAME, TOKEN_SYMBOL } from "../constants/test";
+
+// the number of tokens in the chain of the deep tree, below the maximal dependence depth
+const DEPTH = 8;
+
+// the number of dependencies of the root of the wide tree
+const WIDTH = 20;
+
+// the token transferred in the benchmarks
+const ROOT_TOKEN = 1;
+
+// the maximal gas of checking the epoch of a token of the tree in a cached transfer
+const CACHED_GAS_PER_TOKEN = 8000;
+
+// builds the tree on a new contract, the dependencies of a token are listed before it in the returned order,
+// so the transfer caches can be updated in that order
+type TreeBuilder = (commanderToken: any) => Promise<number[]>;
+
+// 1 -> 2 -> ... -> DEPTH
+const buildDeepTree: TreeBuilder = async (commanderToken) => {
+    for (let tokenId = ROOT_TOKEN; tokenId < DEPTH; tokenId++) {
+        await commanderToken.setDependence(tokenId, commanderToken.address, tokenId + 1);
+    }
+    return Array.from({ length: DEPTH }, (_, i) => DEPTH - i);
+}
+
+// 1 -> 2, 1 -> 3, ..., 1 -> WIDTH + 1
+const buildWideTree: TreeBuilder = async (commanderToken) => {
+    const dependencies = Array.from({ length: WIDTH }, (_, i) => ROOT_TOKEN + i + 1);
+    await commanderToken.setDependenceBatch(
+        dependencies.map(() => ROOT_TOKEN),
+        dependencies.map(() => commanderToken.address),
+        dependencies
+    );
+    return [...dependencies, ROOT_TOKEN];
+}
+
+const deployAndMint = async (contractName: string, tokensCount: number): Promise<any> => {
+    const [owner] = await ethers.getSigners();
+    const commanderToken: any = await (await ethers.getContractFactory(contractName)).deploy(TOKEN_NAME, TOKEN_SYMBOL);
+
+    for (let tokenId = 1; tokenId <= tokensCount; tokenId++) {
+        await commanderToken.mint(owner.address, tokenId);
+    }
+
+    return commanderToken;
+}
+
+const transferGasUsed = async (commanderToken: any): Promise<number> => {
+    const [owner, , wallet2] = await ethers.getSigners();
+    const transaction = await commanderToken.transferFrom(owner.address, wallet2.address, ROOT_TOKEN);
+    return (await transaction.wait()).gasUsed.toNumber();
+}
+
+
+// Start test block
+describe('Transfer cache benchmarks', function () {
+    const trees: [string, number, TreeBuilder][] = [
+        ["deep", DEPTH, buildDeepTree],
+        ["wide", WIDTH + 1, buildWideTree],
+    ];
+
+    beforeEach(async function () {
+        // the gas of transferring a cached token without dependencies, the baseline of the cached transfers
+        const singleToken = await deployAndMint('MintCommanderTokenTransferCacheTest', 1);
+        await singleToken.updateTransferCache(ROOT_TOKEN);
+        this.singleTokenGas = await transferGasUsed(singleToken);
+    });
+
+    for (const [shape, tokensCount, buildTree] of trees) {
+        it(`Transfer caches transfer a token with a ${shape} dependency tree for less gas`, async function () {
+            const commanderToken = await deployAndMint('MintCommanderTokenTest', tokensCount);
+            await buildTree(commanderToken);
+
+            const cachedToken = await deployAndMint('MintCommanderTokenTransferCacheTest', tokensCount);
+            for (const tokenId of await buildTree(cachedToken)) {
+                await cachedToken.updateTransferCache(tokenId);
+            }
+
+            const uncachedGas = await transferGasUsed(commanderToken);
+            const cachedGas = await transferGasUsed(cachedToken);
+
+            expect(cachedGas).to.be.lessThan(uncachedGas);
+
+            // the cache holds the epochs of the tokens of the tree, so the gas grows only by reading them
+            expect(cachedGas - this.singleTokenGas).to.be.at.most((tokensCount - 1) * CACHED_GAS_PER_TOKEN);
+        });
+
+        it(`Changes of unrelated tokens keep the cache of a token with a ${shape} dependency tree`, async function () {
+            const [owner, , wallet2] = await ethers.getSigners();
+            const unrelatedToken = tokensCount + 1;
+
+            const cachedToken = await deployAndMint('MintCommanderTokenTransferCacheTest', unrelatedToken);
+            for (const tokenId of await buildTree(cachedToken)) {
+                await cachedToken.updateTransferCache(tokenId);
+            }
+
+            const gasBefore = await cachedToken.estimateGas.transferFrom(owner.address, wallet2.address, ROOT_TOKEN);
+
+            // restricts a token outside the tree between the transfers
+            await cachedToken.setTransferable(unrelatedToken, false);
+            await cachedToken.setDependence(unrelatedToken, cachedToken.address, ROOT_TOKEN);
+
+            expect(await cachedToken.isTransferCacheValid(ROOT_TOKEN)).to.equal(true);
+            expect(await cachedToken.estimateGas.transferFrom(owner.address, wallet2.address, ROOT_TOKEN)).to.equal(gasBefore);
+        });
+    }
+});
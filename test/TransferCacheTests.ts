@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: MIT
+// Tests for the transfer caches of CommanderTokenTransferCache, which check the transferability of
+// unrestricted tokens without walking their dependency trees.
+
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { TOKEN_NAME, TOKEN_SYMBOL, TOKEN_NAME2, TOKEN_SYMBOL2 } from "../constants/test";
+
+// the validUntil of a cache that no schedule ends
+const MAX_UINT64 = ethers.BigNumber.from(2).pow(64).sub(1);
+
+// the values of ICommanderToken.BlockReason
+enum BlockReason {
+    None,
+    Nontransferable,
+    NotWhitelisted,
+    Nonburnable,
+    Dependency,
+    Policy,
+}
+
+
+// Start test block
+describe('Transfer caches', function () {
+    before(async function () {
+        this.CachedTokenFactory = await ethers.getContractFactory('MintCommanderTokenTransferCacheTest');
+        this.CommanderTokenFactory = await ethers.getContractFactory('MintCommanderTokenTest');
+    });
+
+    beforeEach(async function () {
+        const signers = await ethers.getSigners();
+        this.owner = signers[0];
+        this.wallet2 = signers[2];
+
+        this.CommanderToken = await this.CachedTokenFactory.deploy(TOKEN_NAME, TOKEN_SYMBOL);
+        this.OtherCommanderToken = await this.CachedTokenFactory.deploy(TOKEN_NAME2, TOKEN_SYMBOL2);
+
+        // 1 -> 2 -> 3
+        for (let tokenId = 1; tokenId <= 3; tokenId++) {
+            await this.CommanderToken.mint(this.owner.address, tokenId);
+        }
+        await this.CommanderToken.setDependence(1, this.CommanderToken.address, 2);
+        await this.CommanderToken.setDependence(2, this.CommanderToken.address, 3);
+    });
+
+    // updates the caches of the tokens in order, from the leaves of the tree
+    const updateCaches = async (commanderToken: any, tokenIds: number[]) => {
+        for (const tokenId of tokenIds) {
+            await commanderToken.updateTransferCache(tokenId);
+        }
+    };
+
+    it('Caches a dependency tree from its leaves', async function () {
+        await expect(this.CommanderToken.updateTransferCache(1))
+            .to.be.revertedWithCustomError(this.CommanderToken, "UncacheableTransferability")
+            .withArgs(1, this.CommanderToken.address, 2);
+
+        await updateCaches(this.CommanderToken, [3, 2]);
+        await expect(this.CommanderToken.updateTransferCache(1))
+            .to.emit(this.CommanderToken, "TransferCacheUpdated")
+            .withArgs(1, MAX_UINT64);
+
+        const epochs = [];
+        for (const tokenId of [1, 2, 3]) {
+            epochs.push(await this.CommanderToken.restrictionsEpoch(tokenId));
+        }
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(true);
+        expect(await this.CommanderToken.getTransferCache(1)).to.deep.equal([
+            MAX_UINT64,
+            Array(3).fill(this.CommanderToken.address),
+            [1, 2, 3].map(tokenId => ethers.BigNumber.from(tokenId)),
+            epochs,
+        ]);
+        expect(await this.CommanderToken.isTokenTransferableToAddress(1, this.wallet2.address)).to.equal(true);
+    });
+
+    it('Changes of tokens outside the tree do not invalidate the caches', async function () {
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+        await this.CommanderToken.mint(this.owner.address, 4);
+
+        await this.CommanderToken.setTransferable(4, false);
+        await this.CommanderToken.setDependence(4, this.CommanderToken.address, 3);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(true);
+
+        // the collection transfer policy applies to all the tokens
+        const policy = await (await ethers.getContractFactory('MaxTransfersPolicy')).deploy(1);
+        await this.CommanderToken.initCollectionController(this.owner.address);
+        await this.CommanderToken.setCollectionTransferPolicy(policy.address);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+    });
+
+    it('Caches a token that is reached through several dependencies once', async function () {
+        // 1 -> 2 -> 3, and 1 -> 3
+        await this.CommanderToken.setDependence(1, this.CommanderToken.address, 3);
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+
+        const [, , tokenIds] = await this.CommanderToken.getTransferCache(1);
+        expect(tokenIds).to.deep.equal([1, 2, 3].map(tokenId => ethers.BigNumber.from(tokenId)));
+    });
+
+    it('Restricting a token of the tree invalidates the caches', async function () {
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+
+        await this.CommanderToken.setTransferable(3, false);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+        await expect(this.CommanderToken.transferFrom(this.owner.address, this.wallet2.address, 1))
+            .to.be.revertedWithCustomError(this.CommanderToken, "TransferBlocked")
+            .withArgs(1, this.wallet2.address, [
+                [this.CommanderToken.address, 1, BlockReason.Dependency],
+                [this.CommanderToken.address, 2, BlockReason.Dependency],
+                [this.CommanderToken.address, 3, BlockReason.Nontransferable],
+            ]);
+    });
+
+    it('Adding a dependency or a transfer policy invalidates the caches', async function () {
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+        await this.CommanderToken.mint(this.owner.address, 4);
+        await this.CommanderToken.setDependence(3, this.CommanderToken.address, 4);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+
+        await updateCaches(this.CommanderToken, [4, 3, 2, 1]);
+        const policy = await (await ethers.getContractFactory('MaxTransfersPolicy')).deploy(1);
+        await this.CommanderToken.setTransferPolicy(4, policy.address);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+    });
+
+    it('Caches end with the earliest transferable schedule of the tree', async function () {
+        const end = (await time.latest()) + 1000;
+        await this.CommanderToken.setTransferableSchedule(3, 0, end);
+
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+
+        expect((await this.CommanderToken.getTransferCache(1))[0]).to.equal(end);
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(true);
+
+        await time.increaseTo(end);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+        expect(await this.CommanderToken.isTokenTransferableToAddress(1, this.wallet2.address)).to.equal(false);
+    });
+
+    it('Restricted tokens are not cached', async function () {
+        await this.CommanderToken.setTransferable(3, false);
+        await this.CommanderToken.setTransferWhitelist(3, this.wallet2.address, true);
+
+        // a whitelist doesn't make a token unrestricted, since it allows transfers only to some addresses
+        await expect(this.CommanderToken.updateTransferCache(3))
+            .to.be.revertedWithCustomError(this.CommanderToken, "UncacheableTransferability")
+            .withArgs(3, this.CommanderToken.address, 3);
+
+        const policy = await (await ethers.getContractFactory('MaxTransfersPolicy')).deploy(1);
+        await this.CommanderToken.initCollectionController(this.owner.address);
+        await this.CommanderToken.setCollectionTransferPolicy(policy.address);
+
+        await expect(this.CommanderToken.updateTransferCache(2))
+            .to.be.revertedWithCustomError(this.CommanderToken, "UncacheableTransferability")
+            .withArgs(2, this.CommanderToken.address, 2);
+    });
+
+    it('Caches dependency trees across collections', async function () {
+        await this.OtherCommanderToken.mint(this.owner.address, 1);
+        await this.CommanderToken.setDependence(3, this.OtherCommanderToken.address, 1);
+
+        await this.OtherCommanderToken.updateTransferCache(1);
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+
+        const [, collections, tokenIds] = await this.CommanderToken.getTransferCache(1);
+        expect(collections).to.deep.equal([...Array(3).fill(this.CommanderToken.address), this.OtherCommanderToken.address]);
+        expect(tokenIds).to.deep.equal([1, 2, 3, 1].map(tokenId => ethers.BigNumber.from(tokenId)));
+
+        await this.OtherCommanderToken.setTransferable(1, false);
+
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+        expect(await this.CommanderToken.isTokenTransferableToAddress(1, this.wallet2.address)).to.equal(false);
+    });
+
+    it('Dependencies in collections without transfer caches are not cached', async function () {
+        const commanderToken = await this.CommanderTokenFactory.deploy(TOKEN_NAME2, TOKEN_SYMBOL2);
+        await commanderToken.mint(this.owner.address, 1);
+        await this.CommanderToken.setDependence(3, commanderToken.address, 1);
+
+        await expect(this.CommanderToken.updateTransferCache(3))
+            .to.be.revertedWithCustomError(this.CommanderToken, "UncacheableTransferability")
+            .withArgs(3, commanderToken.address, 1);
+    });
+
+    it('Tokens of other collections that depend on a cached token use its cache', async function () {
+        const commanderToken = await this.CommanderTokenFactory.deploy(TOKEN_NAME2, TOKEN_SYMBOL2);
+        await commanderToken.mint(this.owner.address, 1);
+        await commanderToken.setDependence(1, this.CommanderToken.address, 1);
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+
+        const cachedGas = await commanderToken.estimateGas.transferFrom(this.owner.address, this.wallet2.address, 1);
+
+        // doesn't restrict 3, but increases the epoch, so the tree of 1 is walked again
+        await this.CommanderToken.setTransferable(3, true);
+        const uncachedGas = await commanderToken.estimateGas.transferFrom(this.owner.address, this.wallet2.address, 1);
+
+        expect(uncachedGas).to.be.greaterThan(cachedGas);
+    });
+
+    it('Burning a token deletes its cache', async function () {
+        await updateCaches(this.CommanderToken, [3, 2, 1]);
+
+        await this.CommanderToken.burn(1);
+
+        expect(await this.CommanderToken.getTransferCache(1)).to.deep.equal([0, [], [], []]);
+        expect(await this.CommanderToken.isTransferCacheValid(1)).to.equal(false);
+    });
+
+    it('Supports the ITransferCache interface', async function () {
+        const ITransferCacheInterfaceId = "0x2cc87ee0";
+        expect(await this.CommanderToken.supportsInterface(ITransferCacheInterfaceId)).to.equal(true);
+    });
+});
@@ -0,0 +1,467 @@
+// SPDX-License-Identifier: MIT
+// Tests for the upgradeable Commander Token and Locked Token, which are deployed behind transparent proxies
+// by deploy/04_deploy_upgradeable_tokens.ts, and for the storage layouts their upgrades rely on.
+
+import hre, {
+    ethers,
+    deployments,
+    getNamedAccounts,
+    getChainId,
+} from "hardhat";
+import { expect } from "chai";
+import { getTokenNameAndSymbol } from "../helper-hardhat-config";
+import { getPermitTypedData, signTypedData } from "../sdk";
+
+// the variables of the contracts, in the order of the inheritance, as "label slot:offset"
+// the upgradeable OpenZeppelin contracts, ERC721PermitUpgradeable and ERC721TokenURIUpgradeable, the bases of both tokens
+const BASE_LAYOUT = [
+    // Initializable
+    "_initialized 0:0",
+    "_initializing 0:1",
+    // ContextUpgradeable and ERC165Upgradeable
+    "__gap 1:0",
+    "__gap 51:0",
+    // ERC721Upgradeable
+    "_name 101:0",
+    "_symbol 102:0",
+    "_owners 103:0",
+    "_balances 104:0",
+    "_tokenApprovals 105:0",
+    "_operatorApprovals 106:0",
+    "__gap 107:0",
+    // EIP712Upgradeable
+    "_HASHED_NAME 151:0",
+    "_HASHED_VERSION 152:0",
+    "__gap 153:0",
+    // ERC721PermitUpgradeable
+    "_nonces 203:0",
+    "__gap 204:0",
+    // ERC721TokenURIUpgradeable
+    "_baseTokenURI 253:0",
+    "_metadataRenderer 254:0",
+    "__gap 255:0",
+    // MulticallUpgradeable
+    "__gap 303:0",
+];
+
+const COMMANDER_TOKEN_UPGRADEABLE_LAYOUT = [
+    ...BASE_LAYOUT,
+    "_tokens 353:0",
+    "_maxDependenceDepth 354:0",
+    "_collectionController 355:0",
+    "_recovering 355:20",
+    "_collectionTransferPolicy 356:0",
+    "_restrictionsEpoch 357:0",
+    "_tokenRestrictionsEpochs 358:0",
+    "__gap 359:0",
+];
+
+const LOCKED_TOKEN_UPGRADEABLE_LAYOUT = [
+    ...BASE_LAYOUT,
+    "_tokens 353:0",
+    "_maxLockingDepth 354:0",
+    "_safeTransferring 355:0",
+    "__gap 356:0",
+    // LockedTokenUpgradeable, which inherits the variables of LockedTokenBaseUpgradeable
+    "__gap 403:0",
+];
+
+interface StorageEntry {
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+}
+
+// reads the storage layout of a contract from the compiler output, see STORAGE_LAYOUT_OUTPUT in hardhat.config.ts
+const getStorageLayout = async (
+    sourceName: string,
+    contractName: string
+): Promise<StorageEntry[]> => {
+    const buildInfo = await hre.artifacts.getBuildInfo(
+        `${sourceName}:${contractName}`
+    );
+    return (buildInfo!.output.contracts[sourceName][contractName] as any)
+        .storageLayout.storage;
+};
+
+const formatEntry = (entry: StorageEntry) =>
+    `${entry.label} ${entry.slot}:${entry.offset}`;
+
+// the size of a storage gap, e.g. 46 for t_array(t_uint256)46_storage
+const gapSize = (entry: StorageEntry) =>
+    parseInt(entry.type.match(/\)(\d+)_storage$/)![1]);
+
+// the type of an entry without the AST ids, which differ between compilations, e.g. t_struct(Token)_storage
+const stripIds = (type: string) => type.replace(/\)\d+/g, ")");
+
+// Start test block
+describe("Upgradeable tokens", function () {
+    describe("Storage layout", function () {
+        // the contracts, their layouts, and the ends of the gaps of their own contracts
+        const contracts: [string, string, string[], number[]][] = [
+            [
+                "contracts/upgradeable/CommanderTokenUpgradeable.sol",
+                "CommanderTokenUpgradeable",
+                COMMANDER_TOKEN_UPGRADEABLE_LAYOUT,
+                [353 + 50],
+            ],
+            [
+                "contracts/upgradeable/LockedTokenUpgradeable.sol",
+                "LockedTokenUpgradeable",
+                LOCKED_TOKEN_UPGRADEABLE_LAYOUT,
+                [353 + 50, 403 + 50],
+            ],
+        ];
+
+        for (const [
+            sourceName,
+            contractName,
+            expectedLayout,
+            tokenGapsEnds,
+        ] of contracts) {
+            it(`Keeps the variables of ${contractName} in their slots`, async function () {
+                const layout = await getStorageLayout(sourceName, contractName);
+
+                expect(layout.map(formatEntry)).to.deep.equal(expectedLayout);
+            });
+
+            it(`Reserves 50 slots for each contract of ${contractName}`, async function () {
+                const layout = await getStorageLayout(sourceName, contractName);
+                const gapsEnds = layout
+                    .filter((entry) => entry.label === "__gap")
+                    .map((gap) => parseInt(gap.slot) + gapSize(gap));
+
+                // every contract ends with a gap, so it can add variables by shrinking its gap. ERC721PermitUpgradeable
+                // starts after the 52 slots of EIP712Upgradeable, and the token after MulticallUpgradeable
+                expect(gapsEnds).to.deep.equal([
+                    51,
+                    101,
+                    151,
+                    203,
+                    203 + 50,
+                    253 + 50,
+                    353,
+                    ...tokenGapsEnds,
+                ]);
+            });
+        }
+
+        it("Upgrades only add variables after the existing ones", async function () {
+            // the versions, and the slot of the variable the second version adds
+            const versions: [string, string, number][] = [
+                [
+                    "MintCommanderTokenUpgradeableTest",
+                    "MintCommanderTokenUpgradeableV2Test",
+                    403,
+                ],
+                [
+                    "MintLockedTokenUpgradeableTest",
+                    "MintLockedTokenUpgradeableV2Test",
+                    453,
+                ],
+            ];
+
+            for (const [version1, version2, addedSlot] of versions) {
+                const layout1 = await getStorageLayout(
+                    `contracts/test/${version1}.sol`,
+                    version1
+                );
+                const layout2 = await getStorageLayout(
+                    `contracts/test/${version2}.sol`,
+                    version2
+                );
+
+                const withTypes = (entry: StorageEntry) =>
+                    `${formatEntry(entry)} ${stripIds(entry.type)}`;
+                expect(
+                    layout2.slice(0, layout1.length).map(withTypes)
+                ).to.deep.equal(layout1.map(withTypes));
+                expect(
+                    layout2.slice(layout1.length).map(formatEntry)
+                ).to.deep.equal([`_upgradeBlock ${addedSlot}:0`]);
+            }
+        });
+    });
+
+    describe("Interface", function () {
+        it("Has the functions and events of the non-upgradeable tokens", async function () {
+            const tokens = [
+                ["CommanderToken", "CommanderTokenUpgradeable"],
+                ["LockedToken", "LockedTokenUpgradeable"],
+            ];
+
+            for (const [token, upgradeableToken] of tokens) {
+                const fragments = async (contractName: string) => {
+                    const { abi } = await hre.artifacts.readArtifact(
+                        contractName
+                    );
+                    const formatted = new ethers.utils.Interface(abi).format(
+                        ethers.utils.FormatTypes.minimal
+                    ) as string[];
+                    return formatted.filter(
+                        (fragment) => !fragment.startsWith("constructor")
+                    );
+                };
+
+                // the upgradeable tokens are initialized instead of constructed
+                const expected = await fragments(token);
+                const actual = (await fragments(upgradeableToken)).filter(
+                    (fragment) => fragment !== "event Initialized(uint8)"
+                );
+
+                expect(actual).to.have.members(expected);
+            }
+        });
+    });
+
+    describe("Generated contracts", function () {
+        it("Are generated from the non-upgradeable contracts", async function () {
+            // fails if a contract changed but its upgradeable version wasn't generated again with `npx hardhat transpile`
+            await hre.run("transpile", { check: true });
+        });
+    });
+
+    describe("Proxies", function () {
+        beforeEach(async function () {
+            await deployments.fixture(["Upgradeable"]);
+
+            const { deployer } = await getNamedAccounts();
+            const signers = await ethers.getSigners();
+            this.deployer = deployer;
+            this.owner = signers[0];
+            this.wallet2 = signers[2];
+            this.chainId = parseInt(await getChainId());
+
+            this.CommanderToken = await ethers.getContractAt(
+                "MintCommanderTokenUpgradeableV2Test",
+                (
+                    await deployments.get("CommanderTokenUpgradeable")
+                ).address
+            );
+            this.LockedToken = await ethers.getContractAt(
+                "MintLockedTokenUpgradeableV2Test",
+                (
+                    await deployments.get("LockedTokenUpgradeable")
+                ).address
+            );
+
+            for (let i = 1; i <= 3; i++) {
+                await this.CommanderToken.mint(this.deployer, i);
+                await this.LockedToken.mint(this.deployer, i);
+            }
+        });
+
+        // upgrades the proxy of a deployment to the V2 test contract, the way the deploy script would
+        const upgrade = async (
+            token: "CommanderToken" | "LockedToken",
+            chainId: number
+        ) => {
+            const { deployer } = await getNamedAccounts();
+            const [name, symbol] = getTokenNameAndSymbol(
+                chainId,
+                token === "CommanderToken" ? "commanderToken" : "lockedToken"
+            );
+
+            return deployments.deploy(`${token}Upgradeable`, {
+                contract: `Mint${token}UpgradeableV2Test`,
+                from: deployer,
+                proxy: {
+                    proxyContract: "OpenZeppelinTransparentProxy",
+                    execute: {
+                        init: {
+                            methodName: "initialize",
+                            args: [name, symbol],
+                        },
+                        onUpgrade: { methodName: "initializeV2", args: [] },
+                    },
+                },
+            });
+        };
+
+        it("Initializes the proxies once", async function () {
+            const [name, symbol] = getTokenNameAndSymbol(
+                this.chainId,
+                "commanderToken"
+            );
+
+            expect(await this.CommanderToken.name()).to.equal(name);
+            expect(await this.CommanderToken.symbol()).to.equal(symbol);
+            expect(await this.CommanderToken.maxDependenceDepth()).to.equal(10);
+            expect(await this.LockedToken.maxLockingDepth()).to.equal(10);
+
+            await expect(
+                this.CommanderToken.initialize(name, symbol)
+            ).to.be.revertedWith(
+                "Initializable: contract is already initialized"
+            );
+            await expect(
+                this.LockedToken.initialize(name, symbol)
+            ).to.be.revertedWith(
+                "Initializable: contract is already initialized"
+            );
+        });
+
+        it("Disables the initializers of the implementations", async function () {
+            const implementation = await ethers.getContractAt(
+                "MintCommanderTokenUpgradeableTest",
+                (
+                    await deployments.get(
+                        "CommanderTokenUpgradeable_Implementation"
+                    )
+                ).address
+            );
+
+            await expect(
+                implementation.initialize("Name", "SYMBOL")
+            ).to.be.revertedWith(
+                "Initializable: contract is already initialized"
+            );
+        });
+
+        it("Verifies the signatures of the proxies", async function () {
+            const deadline = ethers.constants.MaxUint256;
+            const signature = await signTypedData(
+                this.owner,
+                await getPermitTypedData(
+                    this.CommanderToken.address,
+                    this.owner,
+                    this.wallet2.address,
+                    1,
+                    deadline
+                )
+            );
+
+            await this.CommanderToken.connect(this.wallet2).permit(
+                this.wallet2.address,
+                1,
+                deadline,
+                signature
+            );
+            expect(await this.CommanderToken.getApproved(1)).to.equal(
+                this.wallet2.address
+            );
+        });
+
+        it("Keeps the name and the signatures of a proxy across an upgrade", async function () {
+            const [name, symbol] = getTokenNameAndSymbol(
+                this.chainId,
+                "commanderToken"
+            );
+            const deadline = ethers.constants.MaxUint256;
+            const signature = await signTypedData(
+                this.owner,
+                await getPermitTypedData(
+                    this.CommanderToken.address,
+                    this.owner,
+                    this.wallet2.address,
+                    1,
+                    deadline
+                )
+            );
+
+            await upgrade("CommanderToken", this.chainId);
+
+            expect(await this.CommanderToken.name()).to.equal(name);
+            expect(await this.CommanderToken.symbol()).to.equal(symbol);
+
+            await this.CommanderToken.connect(this.wallet2).permit(
+                this.wallet2.address,
+                1,
+                deadline,
+                signature
+            );
+            expect(await this.CommanderToken.getApproved(1)).to.equal(
+                this.wallet2.address
+            );
+        });
+
+        it("Keeps the dependencies and whitelists of Commander Tokens across an upgrade", async function () {
+            await this.CommanderToken.setDependence(
+                1,
+                this.CommanderToken.address,
+                2
+            );
+            await this.CommanderToken.setTransferable(2, false);
+            await this.CommanderToken.setTransferWhitelist(
+                2,
+                this.wallet2.address,
+                true
+            );
+            await this.CommanderToken.setBurnable(3, false);
+
+            const { implementation } = await deployments.get(
+                "CommanderTokenUpgradeable"
+            );
+            const upgraded = await upgrade("CommanderToken", this.chainId);
+
+            expect(upgraded.implementation).to.not.equal(implementation);
+            expect(await this.CommanderToken.upgradeBlock()).to.equal(
+                await ethers.provider.getBlockNumber()
+            );
+
+            expect(
+                await this.CommanderToken.isDependent(
+                    1,
+                    this.CommanderToken.address,
+                    2
+                )
+            ).to.equal(true);
+            expect(await this.CommanderToken.getDependenciesCount(1)).to.equal(
+                1
+            );
+            expect(
+                await this.CommanderToken.getWhitelistedAddresses(2)
+            ).to.deep.equal([this.wallet2.address]);
+            expect(
+                await this.CommanderToken.isTokenTransferableToAddress(
+                    1,
+                    this.wallet2.address
+                )
+            ).to.equal(true);
+            expect(await this.CommanderToken.isTokenTransferable(1)).to.equal(
+                false
+            );
+            expect(await this.CommanderToken.isTokenBurnable(3)).to.equal(
+                false
+            );
+            expect(await this.CommanderToken.maxDependenceDepth()).to.equal(10);
+
+            await expect(this.CommanderToken.initializeV2()).to.be.revertedWith(
+                "Initializable: contract is already initialized"
+            );
+        });
+
+        it("Keeps the lockings of Locked Tokens across an upgrade", async function () {
+            // 3 -> 2 -> 1
+            await this.LockedToken.lock(2, this.LockedToken.address, 1);
+            await this.LockedToken.lock(3, this.LockedToken.address, 2);
+
+            await upgrade("LockedToken", this.chainId);
+
+            expect(await this.LockedToken.isLocked(2)).to.deep.equal([
+                this.LockedToken.address,
+                1,
+            ]);
+            expect(await this.LockedToken.isLocked(3)).to.deep.equal([
+                this.LockedToken.address,
+                2,
+            ]);
+            expect(await this.LockedToken.getLockedTokensCount(1)).to.equal(1);
+
+            // the upgraded contract still cascades the transfers to the locked tokens
+            await this.LockedToken.transferFrom(
+                this.deployer,
+                this.wallet2.address,
+                1
+            );
+
+            expect(await this.LockedToken.ownerOf(2)).to.equal(
+                this.wallet2.address
+            );
+            expect(await this.LockedToken.ownerOf(3)).to.equal(
+                this.wallet2.address
+            );
+        });
+    });
+});
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+// Deploys the tokens of the test suites, so that a suite runs on a token and on its upgradeable version.
+
+import { Contract, ContractFactory } from "ethers";
+import { ethers } from "hardhat";
+
+/**
+ * @dev Deploys tokens of a collection with a name and a symbol, like the factory of a non-upgradeable token.
+ */
+export interface TokenFactory {
+    deploy(name: string, symbol: string): Promise<Contract>;
+}
+
+/**
+ * @dev Returns the factory of a test contract. The tokens of an upgradeable contract are deployed behind
+ * @dev ERC-1967 proxies, which are initialized with the name and the symbol.
+ */
+export const getTokenFactory = async (
+    contractName: string,
+    upgradeable: boolean
+): Promise<TokenFactory> => {
+    const factory: ContractFactory = await ethers.getContractFactory(
+        contractName
+    );
+    if (!upgradeable) {
+        return factory;
+    }
+
+    // the artifact hardhat-deploy deploys ERC-1967 proxies with
+    const proxyArtifact = require("hardhat-deploy/extendedArtifacts/ERC1967Proxy.json");
+    const proxyFactory = await ethers.getContractFactory(
+        proxyArtifact.abi as any[],
+        proxyArtifact.bytecode as string
+    );
+
+    return {
+        deploy: async (name: string, symbol: string) => {
+            const implementation = await factory.deploy();
+            const initialization = factory.interface.encodeFunctionData(
+                "initialize",
+                [name, symbol]
+            );
+            const proxy = await proxyFactory.deploy(
+                implementation.address,
+                initialization
+            );
+
+            return factory.attach(proxy.address);
+        },
+    };
+};